@@ -0,0 +1,75 @@
+/**
+ * Tests for the clustered index insert simulator
+ */
+
+import { compareInsertStrategies, rowsPerPage, simulateInserts } from './BTreeSimulator';
+
+describe('BTreeSimulator', () => {
+  it('should fit rows on an 8 KB page after the header and slot array', () => {
+    expect(rowsPerPage(200)).toBe(40);
+    expect(rowsPerPage(16)).toBe(449);
+    expect(rowsPerPage(8060)).toBe(1);
+  });
+
+  it('should append sequential keys without splitting pages', () => {
+    const result = simulateInserts('sequential', { rows: 4000 });
+
+    expect(result).toMatchObject({
+      pageSplits: 0,
+      pageCount: 100,
+      endOfIndexAllocations: 99,
+      pageDensityPercent: 100,
+      fragmentationPercent: 0,
+    });
+  });
+
+  it('should split pages and fragment the index for random keys', () => {
+    const result = simulateInserts('random', { rows: 4000 });
+
+    expect(result.pageSplits).toBeGreaterThan(100);
+    expect(result.pageDensityPercent).toBeLessThan(80);
+    expect(result.fragmentationPercent).toBeGreaterThan(90);
+  });
+
+  it('should treat UUIDv7 like random keys in uniqueidentifier order', () => {
+    const [v7, random] = compareInsertStrategies({ rows: 4000 }, ['uuid_v7', 'random']);
+
+    expect(v7.pageSplitsPer1000Inserts).toBeGreaterThan(20);
+    expect(Math.abs(v7.pageDensityPercent - random.pageDensityPercent)).toBeLessThan(10);
+  });
+
+  it('should keep COMB pages in order when its clock ticks faster than inserts arrive', () => {
+    const slow = simulateInserts('comb', { rows: 4000, insertsPerSecond: 100 });
+    const fast = simulateInserts('comb', { rows: 4000, insertsPerSecond: 100000 });
+
+    expect(slow).toMatchObject({ pageSplits: 0, fragmentationPercent: 0 });
+    expect(fast.pageSplits).toBeGreaterThan(100);
+  });
+
+  it('should load existing rows at the fill factor', () => {
+    const result = simulateInserts('sequential', { rows: 1, existingRows: 3200, fillFactor: 80 });
+
+    // 32 rows per page; the insert lands in the free space of the last page
+    expect(result.pageCount).toBe(100);
+    expect(result.endOfIndexAllocations).toBe(0);
+    expect(result.pageDensityPercent).toBeCloseTo(3201 / (100 * 40) * 100, 1);
+  });
+
+  it('should split pages with free space left by the fill factor less often', () => {
+    const full = simulateInserts('random', { rows: 2000, existingRows: 20000, fillFactor: 100 });
+    const padded = simulateInserts('random', { rows: 2000, existingRows: 20000, fillFactor: 70 });
+
+    expect(padded.pageSplits).toBeLessThan(full.pageSplits / 2);
+  });
+
+  it('should be reproducible for a seed', () => {
+    expect(simulateInserts('random', { rows: 1000, seed: 7 })).toEqual(simulateInserts('random', { rows: 1000, seed: 7 }));
+  });
+
+  it('should validate its options', () => {
+    expect(() => simulateInserts('random', { rows: 0 })).toThrow('Rows must be a positive integer');
+    expect(() => simulateInserts('random', { rowSizeBytes: 9000 })).toThrow('Row size must be');
+    expect(() => simulateInserts('random', { fillFactor: 0 })).toThrow('Fill factor must be');
+    expect(() => simulateInserts('nope' as any)).toThrow('Unsupported insert strategy: nope');
+  });
+});
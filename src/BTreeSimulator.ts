@@ -0,0 +1,297 @@
+/**
+ * Clustered index insert simulator
+ *
+ * Models the leaf level of a SQL Server clustered index keyed by a uniqueidentifier
+ * and replays inserts from a GUID strategy into it:
+ * - 8 KB pages with a 96-byte header, each row taking its size plus a 2-byte slot
+ * - rows kept in uniqueidentifier order (bytes 10-15 first, see SqlDialect)
+ * - an insert past the last row of the index allocates a new page holding only
+ *   that row (no rows move); an insert into a full page anywhere else splits it,
+ *   moving the upper half of its rows to a newly allocated page
+ * - existing rows are bulk loaded first, filling pages to the fill factor as an
+ *   index rebuild would; SQL Server ignores the fill factor for later inserts
+ *
+ * Logical fragmentation follows sys.dm_db_index_physical_stats: the percentage of
+ * pages whose next page in key order is not the next page allocated. Non-leaf
+ * levels are not modeled.
+ */
+
+import { SequentialGuidGenerator, generateRandomGuid } from './SequentialGuidGenerator.js';
+import { UuidV7Generator } from './UuidV7Generator.js';
+import { LAYOUT_BYTE_ORDER } from './SqlDialect.js';
+import { toBytes } from './GuidBytes.js';
+import { createSeededRandomSource } from './SeededRandom.js';
+
+export type InsertStrategy = 'sequential' | 'comb' | 'uuid_v7' | 'random';
+
+export const INSERT_STRATEGIES: readonly InsertStrategy[] = ['sequential', 'comb', 'uuid_v7', 'random'];
+
+export const PAGE_SIZE_BYTES = 8192;
+const PAGE_HEADER_BYTES = 96;
+const SLOT_BYTES = 2;
+const MAX_ROW_BYTES = 8060;
+
+export interface BTreeSimulationOptions {
+    /** Number of rows to insert. Defaults to 10,000. */
+    rows?: number;
+    /** Rows already in the index, loaded in key order at the fill factor. Defaults to 0. */
+    existingRows?: number;
+    /** Size of a row in bytes, including the 16-byte key. Defaults to 200. */
+    rowSizeBytes?: number;
+    /** Percentage of each page filled when existing rows are loaded (1-100). Defaults to 100. */
+    fillFactor?: number;
+    /** Insert rate used to advance the simulated clock. Defaults to 1,000 per second. */
+    insertsPerSecond?: number;
+    /** Seed for the random bytes, so runs are reproducible. Defaults to a fixed seed. */
+    seed?: number | string;
+}
+
+export interface BTreeSimulationResult {
+    strategy: InsertStrategy;
+    insertedRows: number;
+    existingRows: number;
+    rowsPerPage: number;
+    pageCount: number;
+    /** Splits of a full page that moved rows to a new page */
+    pageSplits: number;
+    pageSplitsPer1000Inserts: number;
+    /** Pages added past the end of the index without moving rows */
+    endOfIndexAllocations: number;
+    /** Average page fullness (avg_page_space_used_in_percent) */
+    pageDensityPercent: number;
+    /** Out-of-order pages (avg_fragmentation_in_percent) */
+    fragmentationPercent: number;
+}
+
+interface LeafPage {
+    /** Allocation order, standing in for the physical page number */
+    id: number;
+    keys: string[];
+}
+
+/**
+ * Leaf level of a clustered index, with keys compared as strings in index order
+ */
+class LeafLevel {
+    private readonly pages: LeafPage[] = [];
+    private nextPageId = 0;
+    public pageSplits = 0;
+    public endOfIndexAllocations = 0;
+
+    constructor(private readonly rowsPerPage: number) {}
+
+    /**
+     * Fills pages in order with `rowsPerFilledPage` rows each
+     */
+    public bulkLoad(keys: string[], rowsPerFilledPage: number): void {
+        for (let i = 0; i < keys.length; i += rowsPerFilledPage) {
+            this.pages.push(this.allocate(keys.slice(i, i + rowsPerFilledPage)));
+        }
+    }
+
+    public insert(key: string): void {
+        if (this.pages.length === 0) {
+            this.pages.push(this.allocate([key]));
+            return;
+        }
+
+        const pageIndex = this.findPage(key);
+        const page = this.pages[pageIndex];
+        const position = upperBound(page.keys, key);
+
+        if (page.keys.length < this.rowsPerPage) {
+            page.keys.splice(position, 0, key);
+            return;
+        }
+
+        if (pageIndex === this.pages.length - 1 && position === page.keys.length) {
+            this.endOfIndexAllocations++;
+            this.pages.push(this.allocate([key]));
+            return;
+        }
+
+        this.pageSplits++;
+        const upper = this.allocate(page.keys.splice(Math.ceil(page.keys.length / 2)));
+        const target = position <= page.keys.length ? page : upper;
+        target.keys.splice(upperBound(target.keys, key), 0, key);
+        this.pages.splice(pageIndex + 1, 0, upper);
+    }
+
+    public get pageCount(): number {
+        return this.pages.length;
+    }
+
+    public get rowCount(): number {
+        return this.pages.reduce((total, page) => total + page.keys.length, 0);
+    }
+
+    public outOfOrderPages(): number {
+        let count = 0;
+        for (let i = 1; i < this.pages.length; i++) {
+            if (this.pages[i].id !== this.pages[i - 1].id + 1) {
+                count++;
+            }
+        }
+        return count;
+    }
+
+    /**
+     * Index of the last page whose first key is not greater than `key`
+     */
+    private findPage(key: string): number {
+        let low = 0;
+        let high = this.pages.length - 1;
+        while (low < high) {
+            const middle = (low + high + 1) >> 1;
+            if (this.pages[middle].keys[0] <= key) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        return low;
+    }
+
+    private allocate(keys: string[]): LeafPage {
+        return { id: this.nextPageId++, keys };
+    }
+}
+
+/**
+ * Number of rows that fit on an 8 KB page
+ */
+export function rowsPerPage(rowSizeBytes: number): number {
+    return Math.floor((PAGE_SIZE_BYTES - PAGE_HEADER_BYTES) / (rowSizeBytes + SLOT_BYTES));
+}
+
+/**
+ * Inserts keys from one GUID strategy into a simulated clustered index
+ */
+export function simulateInserts(strategy: InsertStrategy, options: BTreeSimulationOptions = {}): BTreeSimulationResult {
+    const settings = resolveOptions(options);
+    const capacity = rowsPerPage(settings.rowSizeBytes);
+    const nextKey = createKeySource(strategy, settings);
+
+    const leaves = new LeafLevel(capacity);
+    const existing = Array.from({ length: settings.existingRows }, nextKey).sort();
+    leaves.bulkLoad(existing, Math.max(1, Math.floor(capacity * settings.fillFactor / 100)));
+
+    for (let i = 0; i < settings.rows; i++) {
+        leaves.insert(nextKey());
+    }
+
+    const { pageSplits, pageCount } = leaves;
+
+    return {
+        strategy,
+        insertedRows: settings.rows,
+        existingRows: settings.existingRows,
+        rowsPerPage: capacity,
+        pageCount,
+        pageSplits,
+        pageSplitsPer1000Inserts: round(pageSplits / settings.rows * 1000),
+        endOfIndexAllocations: leaves.endOfIndexAllocations,
+        pageDensityPercent: round(leaves.rowCount / (pageCount * capacity) * 100),
+        fragmentationPercent: round(leaves.outOfOrderPages() / pageCount * 100),
+    };
+}
+
+/**
+ * Runs the same workload for several strategies
+ */
+export function compareInsertStrategies(
+    options: BTreeSimulationOptions = {},
+    strategies: readonly InsertStrategy[] = INSERT_STRATEGIES
+): BTreeSimulationResult[] {
+    return strategies.map(strategy => simulateInserts(strategy, options));
+}
+
+function resolveOptions(options: BTreeSimulationOptions): Required<BTreeSimulationOptions> {
+    const settings = {
+        rows: options.rows ?? 10000,
+        existingRows: options.existingRows ?? 0,
+        rowSizeBytes: options.rowSizeBytes ?? 200,
+        fillFactor: options.fillFactor ?? 100,
+        insertsPerSecond: options.insertsPerSecond ?? 1000,
+        seed: options.seed ?? 'btree-simulation',
+    };
+
+    if (!Number.isInteger(settings.rows) || settings.rows < 1) {
+        throw new Error('Rows must be a positive integer');
+    }
+    if (!Number.isInteger(settings.existingRows) || settings.existingRows < 0) {
+        throw new Error('Existing rows must be a non-negative integer');
+    }
+    if (!Number.isInteger(settings.rowSizeBytes) || settings.rowSizeBytes < 16 || settings.rowSizeBytes > MAX_ROW_BYTES) {
+        throw new Error(`Row size must be an integer between 16 and ${MAX_ROW_BYTES} bytes`);
+    }
+    if (!Number.isInteger(settings.fillFactor) || settings.fillFactor < 1 || settings.fillFactor > 100) {
+        throw new Error('Fill factor must be an integer between 1 and 100');
+    }
+    if (!(settings.insertsPerSecond > 0)) {
+        throw new Error('Inserts per second must be a positive number');
+    }
+    return settings;
+}
+
+/**
+ * Returns a function producing the strategy's next key in uniqueidentifier order.
+ * Existing rows are drawn from the same source, so they are older than the inserts.
+ */
+function createKeySource(strategy: InsertStrategy, settings: Required<BTreeSimulationOptions>): () => string {
+    const randomSource = createSeededRandomSource(settings.seed);
+    const stepMs = 1000 / settings.insertsPerSecond;
+    const start = Date.UTC(2025, 0, 1);
+    let reads = 0;
+    // Advances on every read, so generators waiting for the next tick never stall
+    const clock = () => Math.floor(start + reads++ * stepMs);
+
+    let next: () => string;
+    switch (strategy) {
+        case 'sequential': {
+            const generator = new SequentialGuidGenerator({ layout: 'sqlserver', clock, randomSource });
+            next = () => generator.generate();
+            break;
+        }
+        case 'comb': {
+            const generator = new SequentialGuidGenerator({ layout: 'comb', clock, randomSource });
+            next = () => generator.generate();
+            break;
+        }
+        case 'uuid_v7': {
+            const generator = new UuidV7Generator({ clock, randomSource });
+            next = () => generator.generate();
+            break;
+        }
+        case 'random':
+            next = () => generateRandomGuid({ randomSource });
+            break;
+        default:
+            throw new Error(`Unsupported insert strategy: ${strategy}`);
+    }
+
+    return () => toIndexKey(next());
+}
+
+function toIndexKey(guid: string): string {
+    const bytes = toBytes(guid);
+    return Buffer.from(LAYOUT_BYTE_ORDER.sqlserver.map(position => bytes[position])).toString('hex');
+}
+
+function upperBound(keys: string[], key: string): number {
+    let low = 0;
+    let high = keys.length;
+    while (low < high) {
+        const middle = (low + high) >> 1;
+        if (keys[middle] <= key) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+}
+
+function round(value: number): number {
+    return Math.round(value * 100) / 100;
+}
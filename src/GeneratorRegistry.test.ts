@@ -0,0 +1,167 @@
+/**
+ * Tests for GeneratorRegistry
+ */
+
+import { GeneratorRegistry } from './GeneratorRegistry';
+import { GeneratorState, GeneratorStateStore } from './GeneratorStateStore';
+import { SequentialGuidGenerator, compareSqlServerGuids } from './SequentialGuidGenerator';
+import { createFixedClock, createSeededRandomSource } from './testing';
+
+describe('GeneratorRegistry', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+  let registry: GeneratorRegistry;
+
+  beforeEach(() => {
+    registry = new GeneratorRegistry({
+      maxGenerators: 3,
+      generatorOptions: { clock: createFixedClock(now), randomSource: createSeededRandomSource(1) },
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the same generator for the same machine ID and layout', () => {
+      const first = registry.resolve({ machineId: 'aabbccdd' });
+      const second = registry.resolve({ machineId: 'AABBCCDD', layout: 'standard' });
+
+      expect(second).toBe(first);
+      expect(registry.resolve({ machineId: 'AABBCCDD', layout: 'sqlserver' })).not.toBe(first);
+    });
+
+    it('should return the default generator when nothing else is requested', () => {
+      expect(registry.resolve()).toBe(registry.getDefault());
+      expect(registry.resolve({ machineId: registry.getDefault().getMachineId() })).toBe(registry.getDefault());
+      expect(registry.size).toBe(0);
+    });
+
+    it('should keep GUIDs monotonic across separate calls', () => {
+      // The clock never advances, so only the retained sequence keeps the order
+      const guids = Array.from({ length: 16 }, () => registry.resolve({ machineId: '12345678' }).generate());
+
+      expect(new Set(guids).size).toBe(16);
+      expect([...guids].sort()).toEqual(guids);
+    });
+
+    it('should keep sqlserver-layout GUIDs monotonic across separate calls', () => {
+      const guids = [1, 2, 3, 4].flatMap(() => registry.resolve({ machineId: '12345678', layout: 'sqlserver' }).generateBatch(4));
+
+      expect([...guids].sort(compareSqlServerGuids)).toEqual(guids);
+    });
+
+    it('should lose ordering guarantees without the registry', () => {
+      // Fresh generators restart the sequence at zero within the same millisecond
+      const create = () => new SequentialGuidGenerator({
+        machineId: Buffer.from('12345678', 'hex'),
+        clock: createFixedClock(now),
+      });
+
+      const first = create().generate();
+      const second = create().generate();
+
+      expect(first.substring(0, 23)).toBe(second.substring(0, 23));
+    });
+
+    it('should evict the least recently used generator', () => {
+      const a = registry.resolve({ machineId: '0000000A' });
+      registry.resolve({ machineId: '0000000B' });
+      registry.resolve({ machineId: '0000000C' });
+
+      registry.resolve({ machineId: '0000000A' });
+      registry.resolve({ machineId: '0000000D' });
+
+      expect(registry.size).toBe(3);
+      expect(registry.list().filter(entry => !entry.pinned).map(entry => entry.machineId))
+        .toEqual(['0000000C', '0000000A', '0000000D']);
+      expect(registry.resolve({ machineId: '0000000A' })).toBe(a);
+    });
+
+    it('should reject invalid machine IDs', () => {
+      expect(() => registry.resolve({ machineId: 'xyz' })).toThrow('Machine ID must be 8 hex characters');
+    });
+  });
+
+  describe('profiles', () => {
+    it('should create pinned named profiles', () => {
+      const generator = registry.createProfile('orders', { machineId: 'CAFEBABE', layout: 'sqlserver', sequenceBits: 8 });
+
+      for (const machineId of ['00000001', '00000002', '00000003', '00000004']) {
+        registry.resolve({ machineId });
+      }
+
+      expect(registry.getProfile('orders')).toBe(generator);
+      expect(registry.list().find(entry => entry.name === 'orders')).toMatchObject({
+        key: 'orders',
+        machineId: 'CAFEBABE',
+        layout: 'sqlserver',
+        sequenceBits: 8,
+        pinned: true,
+      });
+    });
+
+    it('should list the default profile', () => {
+      expect(registry.list()[0]).toMatchObject({ name: 'default', pinned: true, layout: 'standard' });
+    });
+
+    it('should reject duplicate and invalid profile names', () => {
+      registry.createProfile('orders');
+
+      expect(() => registry.createProfile('orders')).toThrow('Generator profile already exists: orders');
+      expect(() => registry.createProfile('bad name')).toThrow('Profile name must be');
+    });
+
+    it('should reset a profile to a fresh generator with the same machine ID', () => {
+      const original = registry.createProfile('orders');
+      const reset = registry.resetProfile('orders');
+
+      expect(reset).not.toBe(original);
+      expect(reset.getMachineId()).toBe(original.getMachineId());
+      expect(registry.getProfile('orders')).toBe(reset);
+      expect(() => registry.resetProfile('missing')).toThrow('Unknown generator profile: missing');
+    });
+
+    it('should keep the state store when resetting a default profile built from options', () => {
+      let saved: GeneratorState | undefined;
+      const store: GeneratorStateStore = {
+        load: () => saved,
+        save: jest.fn((state: GeneratorState) => {
+          saved = state;
+        }),
+      };
+      let time = now;
+      const storeRegistry = new GeneratorRegistry({
+        generatorOptions: { clock: () => time },
+        defaultGeneratorOptions: { stateStore: store, stateLeaseMs: 100 },
+      });
+      const original = storeRegistry.getDefault();
+      const issued = original.generate();
+
+      const reset = storeRegistry.resetProfile('default');
+      expect(reset).not.toBe(original);
+      expect(reset.hasStateStore()).toBe(true);
+      expect(reset.getMachineId()).toBe(original.getMachineId());
+      expect(reset.generate() > issued).toBe(true);
+
+      const writes = (store.save as jest.Mock).mock.calls.length;
+      time += 1000;
+      storeRegistry.getDefault().generate();
+      expect((store.save as jest.Mock).mock.calls.length).toBeGreaterThan(writes);
+      expect(saved!.highWaterMark).toBeGreaterThanOrEqual(time);
+    });
+
+    it('should refuse to reset a default generator with a state store it cannot rebuild', () => {
+      const stateStore: GeneratorStateStore = { load: () => undefined, save: () => undefined };
+      const storeRegistry = new GeneratorRegistry({ defaultGenerator: new SequentialGuidGenerator({ stateStore }) });
+
+      expect(() => storeRegistry.resetProfile('default')).toThrow('has a state store and cannot be reset');
+      expect(() => new GeneratorRegistry({ defaultGenerator: storeRegistry.getDefault(), defaultGeneratorOptions: {} }))
+        .toThrow('not both');
+    });
+
+    it('should reset ad-hoc generators', () => {
+      const original = registry.resolve({ machineId: '12345678' });
+
+      expect(registry.reset('12345678')).toBe(true);
+      expect(registry.reset('12345678')).toBe(false);
+      expect(registry.resolve({ machineId: '12345678' })).not.toBe(original);
+    });
+  });
+});
@@ -0,0 +1,279 @@
+/**
+ * Registry of long-lived SequentialGuidGenerator instances
+ *
+ * A generator only guarantees ordering for the GUIDs it issues itself: its last
+ * timestamp and sequence live in memory. The registry keeps one generator per
+ * machine ID and layout so that repeated calls (e.g. MCP tool invocations)
+ * continue the same sequence instead of starting from scratch every time.
+ *
+ * - Named profiles are created explicitly and are never evicted
+ * - Ad-hoc generators (keyed by machine ID and layout) are evicted least recently
+ *   used first once `maxGenerators` is exceeded
+ */
+
+import {
+    GuidGeneratorOptions,
+    GuidLayout,
+    SequentialGuidGenerator,
+} from './SequentialGuidGenerator.js';
+
+/**
+ * Options for a generator created through the registry
+ */
+export interface GeneratorProfileOptions {
+    /** Machine ID as 8 hex characters. Random if omitted. */
+    machineId?: string;
+    layout?: GuidLayout;
+    sequenceBits?: number;
+}
+
+export interface GeneratorRegistryOptions {
+    /**
+     * Maximum number of ad-hoc generators kept before the least recently used one
+     * is evicted. Named profiles do not count towards the limit. Defaults to 100.
+     */
+    maxGenerators?: number;
+
+    /**
+     * Generator registered as the pinned `default` profile. A new one is created
+     * if omitted. It cannot be reset if it has a state store, since the registry
+     * could not rebuild it with that store; pass defaultGeneratorOptions instead.
+     */
+    defaultGenerator?: SequentialGuidGenerator;
+
+    /**
+     * Options the `default` profile's generator is created with, instead of
+     * passing defaultGenerator. Resetting the profile creates the replacement from
+     * the same options, so its state store and machine ID strategy carry over.
+     */
+    defaultGeneratorOptions?: GuidGeneratorOptions;
+
+    /**
+     * Options shared by every generator the registry creates (clock, random
+     * source, clock regression policy, ...)
+     */
+    generatorOptions?: Omit<GuidGeneratorOptions, 'machineId' | 'machineIdStrategy' | 'hostIdentity' | 'layout' | 'sequenceBits' | 'stateStore'>;
+}
+
+/**
+ * Public description of a registered generator
+ */
+export interface GeneratorDescriptor {
+    key: string;
+    name?: string;
+    machineId: string;
+    layout: GuidLayout;
+    sequenceBits: number;
+    pinned: boolean;
+    createdAt: string;
+    lastUsedAt: string;
+}
+
+interface RegistryEntry {
+    generator: SequentialGuidGenerator;
+    name?: string;
+    options: GeneratorProfileOptions;
+    /** Full construction options, for a default generator created from defaultGeneratorOptions */
+    generatorOptions?: GuidGeneratorOptions;
+    createdAt: Date;
+    lastUsedAt: Date;
+}
+
+export class GeneratorRegistry {
+    public static readonly DEFAULT_PROFILE = 'default';
+
+    private readonly maxGenerators: number;
+    private readonly generatorOptions: GeneratorRegistryOptions['generatorOptions'];
+    private readonly profiles = new Map<string, RegistryEntry>();
+    private readonly generators = new Map<string, RegistryEntry>();
+
+    constructor(options: GeneratorRegistryOptions = {}) {
+        this.maxGenerators = options.maxGenerators ?? 100;
+        this.generatorOptions = options.generatorOptions || {};
+
+        if (!Number.isInteger(this.maxGenerators) || this.maxGenerators < 1) {
+            throw new Error('Max generators must be a positive integer');
+        }
+
+        if (options.defaultGenerator && options.defaultGeneratorOptions) {
+            throw new Error('Pass either a default generator or its options, not both');
+        }
+
+        const generatorOptions = options.defaultGenerator ? undefined : { ...this.generatorOptions, ...options.defaultGeneratorOptions };
+        const defaultGenerator = options.defaultGenerator || new SequentialGuidGenerator(generatorOptions);
+        this.profiles.set(GeneratorRegistry.DEFAULT_PROFILE, {
+            ...this.createEntry(defaultGenerator, {
+                machineId: defaultGenerator.getMachineId(),
+                layout: defaultGenerator.getLayout(),
+                sequenceBits: generatorOptions?.sequenceBits,
+            }, GeneratorRegistry.DEFAULT_PROFILE),
+            generatorOptions,
+        });
+    }
+
+    /**
+     * Returns the pinned default generator
+     */
+    public getDefault(): SequentialGuidGenerator {
+        return this.getProfile(GeneratorRegistry.DEFAULT_PROFILE)!;
+    }
+
+    /**
+     * Returns the generator for a machine ID and layout, creating it on first use.
+     * Requests matching the default generator return the default generator itself.
+     */
+    public resolve(options: { machineId?: string; layout?: GuidLayout } = {}): SequentialGuidGenerator {
+        const defaultGenerator = this.getDefault();
+        const machineId = (options.machineId || defaultGenerator.getMachineId()).toUpperCase();
+        const layout = options.layout || 'standard';
+
+        if (machineId === defaultGenerator.getMachineId() && layout === defaultGenerator.getLayout()) {
+            return defaultGenerator;
+        }
+
+        const key = GeneratorRegistry.keyOf(machineId, layout);
+        const existing = this.generators.get(key);
+        if (existing) {
+            // Re-insert to mark as most recently used
+            this.generators.delete(key);
+            this.generators.set(key, existing);
+            existing.lastUsedAt = new Date();
+            return existing.generator;
+        }
+
+        const entryOptions = { machineId, layout };
+        const entry = this.createEntry(this.createGenerator(entryOptions), entryOptions);
+        this.generators.set(key, entry);
+        this.evict();
+        return entry.generator;
+    }
+
+    /**
+     * Creates a named, pinned generator profile
+     */
+    public createProfile(name: string, options: GeneratorProfileOptions = {}): SequentialGuidGenerator {
+        if (!name || !/^[A-Za-z0-9_.-]{1,64}$/.test(name)) {
+            throw new Error('Profile name must be 1-64 letters, digits, ".", "_" or "-"');
+        }
+
+        if (this.profiles.has(name)) {
+            throw new Error(`Generator profile already exists: ${name}`);
+        }
+
+        const generator = this.createGenerator(options);
+        this.profiles.set(name, this.createEntry(generator, {
+            ...options,
+            machineId: generator.getMachineId(),
+        }, name));
+        return generator;
+    }
+
+    /**
+     * Returns a named profile's generator, or undefined if there is none
+     */
+    public getProfile(name: string): SequentialGuidGenerator | undefined {
+        const entry = this.profiles.get(name);
+        if (!entry) {
+            return undefined;
+        }
+
+        entry.lastUsedAt = new Date();
+        return entry.generator;
+    }
+
+    /**
+     * Replaces a named profile's generator with a fresh one using the same options,
+     * discarding its last timestamp and sequence. The machine ID is kept, and a
+     * generator with a state store resumes above its persisted high-water mark.
+     */
+    public resetProfile(name: string): SequentialGuidGenerator {
+        const entry = this.profiles.get(name);
+        if (!entry) {
+            throw new Error(`Unknown generator profile: ${name}`);
+        }
+
+        let generator: SequentialGuidGenerator;
+        if (entry.generatorOptions) {
+            // A store or strategy yields the same machine ID again; otherwise pin it
+            const { stateStore, machineIdStrategy } = entry.generatorOptions;
+            const keepsMachineId = stateStore !== undefined || (machineIdStrategy !== undefined && machineIdStrategy !== 'random');
+            generator = new SequentialGuidGenerator({
+                ...entry.generatorOptions,
+                machineId: entry.generatorOptions.machineId
+                    ?? (keepsMachineId ? undefined : Buffer.from(entry.generator.getMachineId(), 'hex')),
+            });
+        } else if (entry.generator.hasStateStore()) {
+            throw new Error(`Generator profile ${name} has a state store and cannot be reset`);
+        } else {
+            generator = this.createGenerator(entry.options);
+        }
+
+        this.profiles.set(name, { ...this.createEntry(generator, entry.options, name), generatorOptions: entry.generatorOptions });
+        return generator;
+    }
+
+    /**
+     * Drops the ad-hoc generator for a machine ID and layout; the next resolve()
+     * creates a fresh one. Returns false if none was registered.
+     */
+    public reset(machineId: string, layout: GuidLayout = 'standard'): boolean {
+        return this.generators.delete(GeneratorRegistry.keyOf(machineId, layout));
+    }
+
+    /**
+     * Lists named profiles followed by ad-hoc generators, least recently used first
+     */
+    public list(): GeneratorDescriptor[] {
+        const describe = (key: string, entry: RegistryEntry, pinned: boolean): GeneratorDescriptor => ({
+            key,
+            name: entry.name,
+            machineId: entry.generator.getMachineId(),
+            layout: entry.generator.getLayout(),
+            sequenceBits: entry.options.sequenceBits ?? 4,
+            pinned,
+            createdAt: entry.createdAt.toISOString(),
+            lastUsedAt: entry.lastUsedAt.toISOString(),
+        });
+
+        return [
+            ...[...this.profiles].map(([name, entry]) => describe(name, entry, true)),
+            ...[...this.generators].map(([key, entry]) => describe(key, entry, false)),
+        ];
+    }
+
+    /**
+     * Number of ad-hoc generators currently held (named profiles excluded)
+     */
+    public get size(): number {
+        return this.generators.size;
+    }
+
+    private static keyOf(machineId: string, layout: GuidLayout): string {
+        return `${machineId.toUpperCase()}/${layout}`;
+    }
+
+    private createGenerator(options: GeneratorProfileOptions): SequentialGuidGenerator {
+        if (options.machineId !== undefined && !/^[0-9A-Fa-f]{8}$/.test(options.machineId)) {
+            throw new Error('Machine ID must be 8 hex characters');
+        }
+
+        return new SequentialGuidGenerator({
+            ...this.generatorOptions,
+            machineId: options.machineId ? Buffer.from(options.machineId, 'hex') : undefined,
+            layout: options.layout,
+            sequenceBits: options.sequenceBits,
+        });
+    }
+
+    private createEntry(generator: SequentialGuidGenerator, options: GeneratorProfileOptions, name?: string): RegistryEntry {
+        const now = new Date();
+        return { generator, name, options, createdAt: now, lastUsedAt: now };
+    }
+
+    private evict(): void {
+        while (this.generators.size > this.maxGenerators) {
+            const oldest = this.generators.keys().next().value as string;
+            this.generators.delete(oldest);
+        }
+    }
+}
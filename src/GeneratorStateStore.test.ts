@@ -0,0 +1,241 @@
+/**
+ * Tests for GeneratorStateStore and persisted SequentialGuidGenerator state
+ */
+
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileGeneratorStateStore } from './GeneratorStateStore';
+import { ClockRegressionError, SequentialGuidGenerator } from './SequentialGuidGenerator';
+import { createFixedClock, createSeededRandomSource } from './testing';
+
+describe('FileGeneratorStateStore', () => {
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'guid-state-'));
+    path = join(dir, 'nested', 'state.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return undefined when nothing was saved', () => {
+    expect(new FileGeneratorStateStore(path).load()).toBeUndefined();
+  });
+
+  it('should round-trip the state and leave no temporary or lock files', () => {
+    const store = new FileGeneratorStateStore(path);
+    store.save({ machineId: '0a0b0c0d', highWaterMark: 1700000000000 });
+
+    expect(store.load()).toEqual({ machineId: '0A0B0C0D', highWaterMark: 1700000000000 });
+    expect(readdirSync(join(dir, 'nested'))).toEqual(['state.json']);
+  });
+
+  it('should reject corrupt state files', () => {
+    const store = new FileGeneratorStateStore(path);
+
+    store.save({ machineId: '0A0B0C0D' });
+    writeFileSync(path, '{"machineId": "0A0B0C0D", "highWaterMa');
+    expect(() => store.load()).toThrow('not valid JSON');
+
+    writeFileSync(path, JSON.stringify({ machineId: 'XYZ' }));
+    expect(() => store.load()).toThrow('invalid machine ID');
+
+    writeFileSync(path, 'null');
+    expect(() => store.load()).toThrow('invalid machine ID');
+
+    writeFileSync(path, JSON.stringify({ machineId: '0A0B0C0D', highWaterMark: 'soon' }));
+    expect(() => store.load()).toThrow('invalid high-water mark');
+  });
+
+  it('should time out while another writer holds the lock', () => {
+    const store = new FileGeneratorStateStore(path, { lockTimeoutMs: 50 });
+    store.save({ machineId: '0A0B0C0D' });
+    writeFileSync(`${path}.lock`, '12345');
+
+    expect(() => store.save({ machineId: '11111111' })).toThrow('Timed out waiting for generator state lock');
+    expect(store.load()).toEqual({ machineId: '0A0B0C0D' });
+  });
+
+  it('should remove stale locks left by crashed processes', () => {
+    const store = new FileGeneratorStateStore(path, { lockTimeoutMs: 50, staleLockMs: 1000 });
+    store.save({ machineId: '0A0B0C0D' });
+    writeFileSync(`${path}.lock`, '12345');
+    const old = new Date(Date.now() - 60000);
+    utimesSync(`${path}.lock`, old, old);
+
+    store.save({ machineId: '11111111' });
+
+    expect(store.load()).toEqual({ machineId: '11111111' });
+    expect(existsSync(`${path}.lock`)).toBe(false);
+  });
+});
+
+describe('SequentialGuidGenerator with a state store', () => {
+  const start = Date.parse('2025-01-01T00:00:00Z');
+  let dir: string;
+  let path: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'guid-state-'));
+    path = join(dir, 'state.json');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should persist the machine ID and reuse it after a restart', () => {
+    const first = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      randomSource: createSeededRandomSource(7),
+    });
+    const second = new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path) });
+
+    expect(JSON.parse(readFileSync(path, 'utf8')).machineId).toBe(first.getMachineId());
+    expect(second.getMachineId()).toBe(first.getMachineId());
+  });
+
+  it('should let an explicit machine ID override the persisted one', () => {
+    new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path) });
+    const generator = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      machineId: Buffer.from('0A0B0C0D', 'hex'),
+    });
+
+    expect(generator.getMachineId()).toBe('0A0B0C0D');
+    expect(new FileGeneratorStateStore(path).load()!.machineId).toBe('0A0B0C0D');
+  });
+
+  it('should persist a high-water mark one lease ahead of the issued timestamps', () => {
+    const generator = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      clock: createFixedClock(start),
+      stateLeaseMs: 500,
+    });
+
+    generator.generate();
+
+    expect(new FileGeneratorStateStore(path).load()!.highWaterMark).toBe(start + 500);
+  });
+
+  it('should only write the store when the lease runs out', () => {
+    const store = new FileGeneratorStateStore(path);
+    const update = jest.spyOn(store, 'update');
+    let now = start;
+    const generator = new SequentialGuidGenerator({ stateStore: store, clock: () => now, stateLeaseMs: 100 });
+
+    for (; now < start + 250; now += 10) {
+      generator.generate();
+    }
+
+    // Once on construction (claiming start + 100), then at start + 110 and start + 220
+    expect(update).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not let generators starting together resume from the same mark', () => {
+    const first = new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: createFixedClock(start) });
+    const second = new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: createFixedClock(start) });
+
+    expect(first.extractTimestamp(first.generate()).getTime()).toBe(start);
+    expect(second.extractTimestamp(second.generate()).getTime()).toBe(start + 1001);
+    expect(new FileGeneratorStateStore(path).load()!.highWaterMark).toBe(start + 2001);
+  });
+
+  it('should never lower a mark claimed by another instance', () => {
+    let now = start;
+    const first = new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: () => now });
+    new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: () => now, stateLeaseMs: 5000 });
+
+    now += 1500;
+    first.generate();
+
+    expect(new FileGeneratorStateStore(path).load()!.highWaterMark).toBe(start + 6001);
+  });
+
+  it('should not issue GUIDs below the persisted mark after a restart', () => {
+    const clock = createFixedClock(start);
+    const before = new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock });
+    const issued = before.generate();
+
+    // Restarted process whose clock now reads a minute earlier
+    const after = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      clock: createFixedClock(start - 60000),
+    });
+    const guid = after.generate();
+
+    expect(after.extractTimestamp(guid).getTime()).toBeGreaterThan(start + 1000);
+    expect(guid > issued).toBe(true);
+  });
+
+  it('should not issue GUIDs below the persisted mark under the log policy', () => {
+    new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: createFixedClock(start) }).generate();
+
+    const after = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      clock: createFixedClock(start - 60000),
+      clockRegressionPolicy: 'log',
+      onClockRegression: () => undefined,
+    });
+
+    expect(after.extractTimestamp(after.generate()).getTime()).toBeGreaterThan(start + 1000);
+  });
+
+  it.each(['throw', 'wait', 'log'] as const)('should resume inside the lease without a clock regression (%s policy)', policy => {
+    new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: createFixedClock(start) }).generate();
+
+    // Restarted right away: the clock is still inside the lease claimed above
+    let now = start + 1;
+    const onClockRegression = jest.fn();
+    const after = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      clock: () => now,
+      clockRegressionPolicy: policy,
+      maxClockRegressionWaitMs: 0,
+      onClockRegression,
+    });
+    const guids = Array.from({ length: 40 }, () => after.generate());
+    now = start + 2000;
+    guids.push(after.generate());
+
+    expect([...guids].sort()).toEqual(guids);
+    expect(after.extractTimestamp(guids[0]).getTime()).toBe(start + 1001);
+    expect(after.extractTimestamp(guids[40]).getTime()).toBe(start + 2000);
+    expect(onClockRegression).not.toHaveBeenCalled();
+  });
+
+  it('should apply the clock regression policy once the clock passed the mark', () => {
+    new SequentialGuidGenerator({ stateStore: new FileGeneratorStateStore(path), clock: createFixedClock(start) }).generate();
+
+    let now = start + 2000;
+    const after = new SequentialGuidGenerator({
+      stateStore: new FileGeneratorStateStore(path),
+      clock: () => now,
+      clockRegressionPolicy: 'throw',
+    });
+    after.generate();
+    now -= 10;
+
+    expect(() => after.generate()).toThrow(ClockRegressionError);
+  });
+
+  it('should issue nothing when the store cannot be written', () => {
+    const store = new FileGeneratorStateStore(path);
+    let now = start;
+    const generator = new SequentialGuidGenerator({ stateStore: store, clock: () => now });
+    jest.spyOn(store, 'update').mockImplementation(() => {
+      throw new Error('disk full');
+    });
+    now += 2000;
+
+    expect(() => generator.generate()).toThrow('disk full');
+  });
+
+  it('should reject an invalid lease', () => {
+    expect(() => new SequentialGuidGenerator({ stateLeaseMs: -1 })).toThrow('State lease must be');
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Persistent state for SequentialGuidGenerator
+ *
+ * Without a store the machine ID is random on every start and the last issued
+ * timestamp lives only in memory, so a restart (or a clock that was wrong before
+ * it) can produce GUIDs that sort below ones already issued. A store keeps:
+ * - The machine ID, so a deployment keeps its identity across restarts
+ * - A high-water mark: a timestamp no issued GUID exceeds. The generator claims
+ *   it ahead of time in leases and refuses to issue anything below it on startup.
+ */
+
+import {
+    closeSync,
+    fsyncSync,
+    mkdirSync,
+    openSync,
+    readFileSync,
+    renameSync,
+    statSync,
+    unlinkSync,
+    writeSync,
+} from 'fs';
+import { dirname } from 'path';
+
+/**
+ * State persisted between generator instances
+ */
+export interface GeneratorState {
+    /** Machine ID as 8 hex characters */
+    machineId: string;
+
+    /**
+     * Unix milliseconds that no issued GUID timestamp exceeds. Omitted until a
+     * generator has started with the store.
+     */
+    highWaterMark?: number;
+}
+
+/**
+ * Storage backend for generator state. Calls are synchronous because the
+ * generator consults the store while issuing GUIDs.
+ */
+export interface GeneratorStateStore {
+    /** Returns the persisted state, or undefined if nothing was saved yet */
+    load(): GeneratorState | undefined;
+
+    /** Persists the state, replacing what was saved before */
+    save(state: GeneratorState): void;
+
+    /**
+     * Loads, transforms and saves the state as one step, so generators starting
+     * together cannot both resume from the same high-water mark. Stores without
+     * it are read and written with separate load and save calls.
+     */
+    update?(apply: (state: GeneratorState | undefined) => GeneratorState): GeneratorState;
+}
+
+export interface FileGeneratorStateStoreOptions {
+    /**
+     * How long to retry acquiring the lock file before giving up. Defaults to 2000 ms.
+     */
+    lockTimeoutMs?: number;
+
+    /**
+     * Age after which a lock file left behind by a crashed process is removed.
+     * Defaults to 10000 ms.
+     */
+    staleLockMs?: number;
+}
+
+/**
+ * Stores generator state as JSON in a file.
+ *
+ * Writes go to a temporary file that is fsynced and renamed over the target, so
+ * readers see either the old or the new state, never a partial one. Each write,
+ * and each update from load to save, holds an exclusive `<path>.lock` file,
+ * serialising writers across processes.
+ */
+export class FileGeneratorStateStore implements GeneratorStateStore {
+    private readonly lockPath: string;
+    private readonly lockTimeoutMs: number;
+    private readonly staleLockMs: number;
+
+    constructor(private readonly path: string, options: FileGeneratorStateStoreOptions = {}) {
+        this.lockPath = `${path}.lock`;
+        this.lockTimeoutMs = options.lockTimeoutMs ?? 2000;
+        this.staleLockMs = options.staleLockMs ?? 10000;
+    }
+
+    public load(): GeneratorState | undefined {
+        let content: string;
+        try {
+            content = readFileSync(this.path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return undefined;
+            }
+            throw error;
+        }
+
+        let state: unknown;
+        try {
+            state = JSON.parse(content);
+        } catch {
+            throw new Error(`Generator state file is not valid JSON: ${this.path}`);
+        }
+
+        const { machineId, highWaterMark }: { machineId?: unknown; highWaterMark?: unknown } =
+            typeof state === 'object' && state !== null ? state : {};
+
+        if (typeof machineId !== 'string' || !/^[0-9A-Fa-f]{8}$/.test(machineId)) {
+            throw new Error(`Generator state file has an invalid machine ID: ${this.path}`);
+        }
+
+        if (highWaterMark !== undefined && (typeof highWaterMark !== 'number' || !Number.isSafeInteger(highWaterMark))) {
+            throw new Error(`Generator state file has an invalid high-water mark: ${this.path}`);
+        }
+
+        return { machineId: machineId.toUpperCase(), highWaterMark };
+    }
+
+    public save(state: GeneratorState): void {
+        mkdirSync(dirname(this.path), { recursive: true });
+
+        this.withLock(() => this.write(state));
+    }
+
+    public update(apply: (state: GeneratorState | undefined) => GeneratorState): GeneratorState {
+        mkdirSync(dirname(this.path), { recursive: true });
+
+        let next: GeneratorState | undefined;
+        this.withLock(() => {
+            next = apply(this.load());
+            this.write(next);
+        });
+        return next!;
+    }
+
+    /**
+     * Replaces the state file through a fsynced temporary file; the lock must be held
+     */
+    private write(state: GeneratorState): void {
+        const tempPath = `${this.path}.${process.pid}.tmp`;
+        const fd = openSync(tempPath, 'w');
+        try {
+            writeSync(fd, JSON.stringify(state, null, 2) + '\n');
+            fsyncSync(fd);
+        } finally {
+            closeSync(fd);
+        }
+        renameSync(tempPath, this.path);
+    }
+
+    /**
+     * Runs `action` while holding the lock file, retrying until lockTimeoutMs
+     */
+    private withLock(action: () => void): void {
+        const deadline = Date.now() + this.lockTimeoutMs;
+
+        for (;;) {
+            let fd: number;
+            try {
+                fd = openSync(this.lockPath, 'wx');
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+
+                if (this.removeStaleLock()) {
+                    continue;
+                }
+
+                if (Date.now() >= deadline) {
+                    throw new Error(`Timed out waiting for generator state lock: ${this.lockPath}`);
+                }
+
+                sleepSync(10);
+                continue;
+            }
+
+            try {
+                writeSync(fd, String(process.pid));
+                closeSync(fd);
+                action();
+            } finally {
+                unlinkSync(this.lockPath);
+            }
+            return;
+        }
+    }
+
+    /**
+     * Removes the lock file if it is older than staleLockMs. Returns true if removed.
+     */
+    private removeStaleLock(): boolean {
+        try {
+            if (Date.now() - statSync(this.lockPath).mtimeMs < this.staleLockMs) {
+                return false;
+            }
+            unlinkSync(this.lockPath);
+            return true;
+        } catch (error) {
+            // Released (or removed by another process) in the meantime
+            return (error as NodeJS.ErrnoException).code === 'ENOENT';
+        }
+    }
+}
+
+function sleepSync(ms: number): void {
+    Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
@@ -0,0 +1,71 @@
+/**
+ * Tests for GUID byte order conversion
+ */
+
+import { convertByteOrder, fromBytes, toBytes } from './GuidBytes';
+import { SequentialGuidGenerator } from './SequentialGuidGenerator';
+import { createSeededRandomSource, createSteppingClock } from './testing';
+
+describe('GuidBytes', () => {
+  const guid = '00112233-4455-6677-8899-AABBCCDDEEFF';
+
+  it('should return bytes in string order by default', () => {
+    expect(toBytes(guid).toString('hex')).toBe('00112233445566778899aabbccddeeff');
+  });
+
+  it('should match .NET Guid.ToByteArray() for the dotnet and sqlserver orders', () => {
+    expect(toBytes(guid, { order: 'dotnet' }).toString('hex')).toBe('33221100554477668899aabbccddeeff');
+    expect(toBytes(guid, { order: 'sqlserver' })).toEqual(toBytes(guid, { order: 'dotnet' }));
+  });
+
+  it('should round-trip through every byte order', () => {
+    for (const order of ['rfc', 'dotnet', 'sqlserver'] as const) {
+      expect(fromBytes(toBytes(guid.toLowerCase(), { order }), { order })).toBe(guid);
+    }
+  });
+
+  it('should convert between orders without mutating the input', () => {
+    const rfc = toBytes(guid);
+    const dotnet = convertByteOrder(rfc, 'rfc', 'dotnet');
+
+    expect(rfc.toString('hex')).toBe('00112233445566778899aabbccddeeff');
+    expect(convertByteOrder(dotnet, 'dotnet', 'rfc')).toEqual(rfc);
+    expect(convertByteOrder(dotnet, 'dotnet', 'sqlserver')).toEqual(dotnet);
+  });
+
+  it('should reject malformed input', () => {
+    expect(() => toBytes('not-a-guid')).toThrow('Invalid GUID format');
+    expect(() => fromBytes(Buffer.alloc(15))).toThrow('GUID buffer must be exactly 16 bytes');
+    expect(() => toBytes(guid, { order: 'network' as any })).toThrow('Unsupported byte order: network');
+  });
+});
+
+describe('SequentialGuidGenerator binary output', () => {
+  const options = () => ({
+    machineId: Buffer.from('0A0B0C0D', 'hex'),
+    clock: createSteppingClock('2025-01-01T00:00:00Z'),
+    randomSource: createSeededRandomSource(3),
+  });
+
+  it('should generate the same values as the string API', () => {
+    const strings = new SequentialGuidGenerator(options()).generateBatch(5);
+    const buffers = new SequentialGuidGenerator(options()).generateBatchBuffers(5);
+
+    expect(buffers.map(buffer => fromBytes(buffer))).toEqual(strings);
+  });
+
+  it('should emit the requested byte order', () => {
+    const guid = new SequentialGuidGenerator(options()).generate();
+    const buffer = new SequentialGuidGenerator({ ...options(), layout: 'sqlserver' }).generateBuffer({ order: 'dotnet' });
+
+    expect(buffer).toHaveLength(16);
+    expect(fromBytes(new SequentialGuidGenerator(options()).generateBuffer())).toBe(guid);
+    expect(SequentialGuidGenerator.isValidGuid(fromBytes(buffer, { order: 'dotnet' }))).toBe(true);
+  });
+
+  it('should produce COMB GUIDs as buffers', () => {
+    const buffer = new SequentialGuidGenerator({ ...options(), layout: 'comb' }).generateBuffer();
+
+    expect(SequentialGuidGenerator.isCombGuid(fromBytes(buffer))).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * GUID byte order conversion
+ *
+ * The string form of a GUID lists its bytes in RFC 9562 order. .NET's
+ * `Guid.ToByteArray()` / `new Guid(byte[])` and SQL Server's binary form of a
+ * uniqueidentifier (`CAST(id AS BINARY(16))`, driver parameters) instead store
+ * the first three groups little-endian:
+ *
+ *   string       00112233-4455-6677-8899-AABBCCDDEEFF
+ *   rfc          00 11 22 33 44 55 66 77 88 99 AA BB CC DD EE FF
+ *   dotnet       33 22 11 00 55 44 77 66 88 99 AA BB CC DD EE FF
+ *   sqlserver    same bytes as dotnet
+ */
+
+export type GuidByteOrder = 'rfc' | 'dotnet' | 'sqlserver';
+
+export const GUID_BYTE_ORDERS: readonly GuidByteOrder[] = ['rfc', 'dotnet', 'sqlserver'];
+
+export interface GuidByteOptions {
+    /** Byte order of the binary value. Defaults to `rfc`. */
+    order?: GuidByteOrder;
+}
+
+/**
+ * Position in RFC order of each byte in mixed-endian (.NET/SQL Server) order.
+ * The permutation is its own inverse.
+ */
+const MIXED_ENDIAN_ORDER: readonly number[] = [3, 2, 1, 0, 5, 4, 7, 6, 8, 9, 10, 11, 12, 13, 14, 15];
+
+/**
+ * Converts a GUID string to its 16 bytes in the requested order
+ */
+export function toBytes(guid: string, options: GuidByteOptions = {}): Buffer {
+    if (!/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(guid)) {
+        throw new Error('Invalid GUID format');
+    }
+
+    return convertByteOrder(Buffer.from(guid.replace(/-/g, ''), 'hex'), 'rfc', options.order || 'rfc');
+}
+
+/**
+ * Converts 16 bytes in the given order back to an uppercase GUID string
+ */
+export function fromBytes(bytes: Uint8Array, options: GuidByteOptions = {}): string {
+    const rfc = convertByteOrder(bytes, options.order || 'rfc', 'rfc');
+    const hex = rfc.toString('hex').toUpperCase();
+
+    return [
+        hex.substring(0, 8),
+        hex.substring(8, 12),
+        hex.substring(12, 16),
+        hex.substring(16, 20),
+        hex.substring(20, 32),
+    ].join('-');
+}
+
+/**
+ * Reorders a 16-byte GUID value from one byte order to another. Always returns a
+ * new buffer.
+ */
+export function convertByteOrder(bytes: Uint8Array, from: GuidByteOrder, to: GuidByteOrder): Buffer {
+    if (bytes.length !== 16) {
+        throw new Error('GUID buffer must be exactly 16 bytes');
+    }
+
+    for (const order of [from, to]) {
+        if (!GUID_BYTE_ORDERS.includes(order)) {
+            throw new Error(`Unsupported byte order: ${order}`);
+        }
+    }
+
+    const source = Buffer.from(bytes);
+    if ((from === 'rfc') === (to === 'rfc')) {
+        return source;
+    }
+
+    const result = Buffer.alloc(16);
+    MIXED_ENDIAN_ORDER.forEach((position, index) => {
+        result[index] = source[position];
+    });
+    return result;
+}
@@ -0,0 +1,145 @@
+/**
+ * Tests for structural GUID classification
+ */
+
+import { classifyGuid } from './GuidClassifier';
+import { SequentialGuidGenerator, generateRandomGuid } from './SequentialGuidGenerator';
+import { UuidV7Generator } from './UuidV7Generator';
+import { generateUuidV3, generateUuidV5 } from './NameBasedUuid';
+import { createFixedClock, createSeededRandomSource } from './testing';
+
+describe('classifyGuid', () => {
+  const now = Date.parse('2025-06-01T12:00:00.000Z');
+
+  it.each([
+    ['00000000-0000-0000-0000-000000000000', 'nil'],
+    ['FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF', 'max'],
+  ] as const)('should recognize %s as %s', (guid, type) => {
+    expect(classifyGuid(guid)).toMatchObject({ type, confidence: 1, alternatives: [] });
+  });
+
+  describe('RFC 9562 test vectors', () => {
+    it('should decode the v1 timestamp, clock sequence and node', () => {
+      const result = classifyGuid('C232AB00-9414-11EC-B3C8-9F6BDECED846', { now });
+
+      expect(result).toMatchObject({ type: 'uuid_v1', version: 1, variant: 'rfc9562', sequentialIn: [] });
+      expect(result.fields).toMatchObject({
+        timestamp: '2022-02-22T19:22:22.000Z',
+        clockSequence: 0x33C8,
+        node: '9F6BDECED846',
+        nodeIsRandom: true,
+      });
+    });
+
+    it('should decode the v6 timestamp', () => {
+      const result = classifyGuid('1EC9414C-232A-6B00-B3C8-9F6BDECED846', { now });
+
+      expect(result.type).toBe('uuid_v6');
+      expect(result.fields.timestamp).toBe('2022-02-22T19:22:22.000Z');
+      expect(result.sequentialIn).toEqual(['postgresql', 'oracle', 'sqlite']);
+    });
+
+    it('should decode the v7 timestamp', () => {
+      const result = classifyGuid('017F22E2-79B0-7CC3-98C4-DC0C0C07398F', { now });
+
+      expect(result.type).toBe('uuid_v7');
+      expect(result.confidence).toBeGreaterThan(0.9);
+      expect(result.fields).toMatchObject({ timestamp: '2022-02-22T19:22:22.000Z', counter: 0xCC3 });
+      expect(result.sequentialIn).not.toContain('sqlserver');
+    });
+  });
+
+  it('should recognize NEWSEQUENTIALID output by its byte-swapped version nibble', () => {
+    const result = classifyGuid('7AE2A3B1-C2D7-E811-80C4-00155D00A30A', { now });
+
+    expect(result.type).toBe('newsequentialid');
+    expect(result.fields).toMatchObject({ timestamp: '2018-10-24T19:26:23.873Z', node: '00155D00A30A', nodeIsRandom: false });
+    expect(result.sequentialIn).toEqual(['sqlserver']);
+  });
+
+  it('should recognize UUIDv7 output', () => {
+    const uuid = new UuidV7Generator({ clock: createFixedClock(now) }).generate();
+
+    expect(classifyGuid(uuid, { now })).toMatchObject({ type: 'uuid_v7', fields: { timestampMs: now } });
+  });
+
+  it('should recognize COMB GUIDs', () => {
+    const guid = new SequentialGuidGenerator({ layout: 'comb', clock: createFixedClock(now) }).generate();
+    const result = classifyGuid(guid, { now });
+
+    expect(result.type).toBe('comb');
+    expect(result.fields.layout).toBe('comb');
+    expect(Math.abs(result.fields.timestampMs! - now)).toBeLessThan(4);
+    expect(result.alternatives).toContainEqual({ type: 'uuid_v4', confidence: 0.4 });
+  });
+
+  it.each(['standard', 'sqlserver', 'mysql'] as const)('should recognize this package\'s %s layout', layout => {
+    const generator = new SequentialGuidGenerator({ layout, machineId: Buffer.from('A1B2C3D4', 'hex'), clock: createFixedClock(now) });
+    const guids = generator.generateBatch(16);
+
+    for (const guid of guids) {
+      const result = classifyGuid(guid, { now });
+      expect(result.type).toBe('sequential');
+      expect(result.fields).toMatchObject({ layout, machineId: 'A1B0C3D4', timestampMs: now });
+    }
+    expect(classifyGuid(guids[3], { now }).fields.sequence).toBe(3);
+  });
+
+  it('should be confident about GUIDs carrying a known machine ID', () => {
+    const guid = new SequentialGuidGenerator({ layout: 'sqlserver', machineId: Buffer.from('A1B2C3D4', 'hex') }).generate();
+
+    expect(classifyGuid(guid, { knownMachineIds: ['A1B2C3D4'] })).toMatchObject({ type: 'sequential', confidence: 0.99 });
+    expect(classifyGuid(guid).confidence).toBeLessThan(0.99);
+    expect(() => classifyGuid(guid, { knownMachineIds: ['xyz'] })).toThrow('Machine ID must be 8 hex characters');
+  });
+
+  it('should honour a custom epoch', () => {
+    const epoch = new Date('2020-01-01T00:00:00Z');
+    const guid = new SequentialGuidGenerator({ epoch, clock: createFixedClock(now) }).generate();
+
+    expect(classifyGuid(guid, { epoch, now }).fields.timestampMs).toBe(now);
+  });
+
+  it('should classify random and name-based GUIDs', () => {
+    const random = createSeededRandomSource('classifier');
+    const counts: Record<string, number> = {};
+
+    for (let i = 0; i < 500; i++) {
+      const type = classifyGuid(generateRandomGuid({ randomSource: random }), { now }).type;
+      counts[type] = (counts[type] ?? 0) + 1;
+    }
+
+    expect(counts.uuid_v4).toBeGreaterThanOrEqual(490);
+    expect(classifyGuid(generateUuidV5('www.example.com', 'dns'))).toMatchObject({ type: 'uuid_v5', fields: { hash: 'SHA-1' } });
+    expect(classifyGuid(generateUuidV3('www.example.com', 'dns'))).toMatchObject({ type: 'uuid_v3', fields: { hash: 'MD5' } });
+  });
+
+  it('should only let a recent timestamp outweigh version bits', () => {
+    const random = createSeededRandomSource('classifier-probe');
+    let misclassified = 0;
+
+    for (let i = 0; i < 10000; i++) {
+      const type = classifyGuid(generateRandomGuid({ randomSource: random }), { now }).type;
+      if (type === 'sequential' || type === 'comb') {
+        misclassified++;
+      }
+    }
+
+    // Falls in the last year for about one GUID in 7000; any plausible date was one in 170
+    expect(misclassified).toBeLessThan(5);
+  });
+
+  it('should break layout ties by the timestamp closest to now', () => {
+    const random = createSeededRandomSource('classifier-layouts');
+
+    for (let i = 0; i < 500; i++) {
+      const guid = new SequentialGuidGenerator({ layout: 'sqlserver', clock: createFixedClock(now), randomSource: random }).generate();
+      expect(classifyGuid(guid, { now }).fields).toMatchObject({ layout: 'sqlserver', timestampMs: now });
+    }
+  });
+
+  it('should report other variants', () => {
+    expect(classifyGuid('00000000-0000-0000-C000-000000000046')).toMatchObject({ variant: 'microsoft', version: null });
+    expect(classifyGuid('00000000-0000-0000-0000-000000000001')).toMatchObject({ variant: 'ncs', type: 'unknown', confidence: 0 });
+  });
+});
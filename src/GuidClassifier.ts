@@ -0,0 +1,346 @@
+/**
+ * Structural GUID classification
+ *
+ * Decodes the variant and version bits and the time fields each known generator
+ * writes, then scores every structure the GUID is consistent with:
+ * - RFC 9562 versions 1-8, with the timestamps of v1, v6 and v7 decoded
+ * - SQL Server NEWSEQUENTIALID(): a version 1 GUID with its first three groups
+ *   stored little-endian, so the version nibble appears in byte 7
+ * - NHibernate COMB: a version 4 GUID with a 1900-based date in bytes 10-15
+ * - This package's own layouts (standard, sqlserver, mysql): a 48-bit millisecond
+ *   timestamp from the generator epoch, followed by machine ID and sequence
+ * - The nil and max GUIDs
+ *
+ * A timestamp only counts as evidence when it falls between 2000-01-01 and one day
+ * from now. Structures without version bits (this package's layouts) can only be
+ * recognized by that timestamp, so they score lower unless the machine ID is known.
+ * Random bits land in that window about once in 350 GUIDs per layout, so they only
+ * outweigh RFC version bits with a known machine ID or a timestamp within a year of
+ * now; the same applies to COMB dates in a version 4 GUID.
+ */
+
+import { GuidLayout, SequentialGuidGenerator } from './SequentialGuidGenerator.js';
+import { ByteOrderLayout, LAYOUT_BYTE_ORDER, SQL_DIALECTS, SqlDialectName, getDialect } from './SqlDialect.js';
+
+export type GuidType =
+    | 'nil'
+    | 'max'
+    | 'uuid_v1'
+    | 'uuid_v2'
+    | 'uuid_v3'
+    | 'uuid_v4'
+    | 'uuid_v5'
+    | 'uuid_v6'
+    | 'uuid_v7'
+    | 'uuid_v8'
+    | 'newsequentialid'
+    | 'comb'
+    | 'sequential'
+    | 'unknown';
+
+export type GuidVariant = 'ncs' | 'rfc9562' | 'microsoft' | 'future';
+
+/**
+ * Fields decoded for the detected type; only the ones the type carries are set
+ */
+export interface GuidFields {
+    /** Creation time (ISO 8601) */
+    timestamp?: string;
+    /** Creation time in milliseconds since the Unix epoch */
+    timestampMs?: number;
+    /** Layout of a GUID issued by this package */
+    layout?: GuidLayout;
+    /** Machine ID of a GUID issued by this package (sequence bits zeroed) */
+    machineId?: string;
+    /** Sequence counter of a GUID issued by this package */
+    sequence?: number;
+    /** Monotonic counter in rand_a of a UUIDv7 */
+    counter?: number;
+    /** 14-bit clock sequence of a v1/v6/NEWSEQUENTIALID GUID */
+    clockSequence?: number;
+    /** 48-bit node of a v1/v6/NEWSEQUENTIALID GUID, usually a MAC address */
+    node?: string;
+    /** Whether the node has the multicast bit set, marking it as random rather than a MAC */
+    nodeIsRandom?: boolean;
+    /** Hash algorithm of a name-based GUID */
+    hash?: 'MD5' | 'SHA-1';
+    /** Number of random bits */
+    randomBits?: number;
+}
+
+export interface GuidCandidate {
+    type: GuidType;
+    /** Between 0 and 1 */
+    confidence: number;
+}
+
+export interface GuidClassification {
+    guid: string;
+    type: GuidType;
+    /** Between 0 and 1 */
+    confidence: number;
+    variant: GuidVariant;
+    /** RFC 9562 version nibble, or null for other variants */
+    version: number | null;
+    fields: GuidFields;
+    /** Dialects whose index order keeps values of this type sequential */
+    sequentialIn: SqlDialectName[];
+    /** Other structures the GUID is consistent with, best first */
+    alternatives: GuidCandidate[];
+}
+
+export interface GuidClassifierOptions {
+    /**
+     * Machine IDs (8 hex characters) of known generators. A GUID carrying one of them
+     * is classified as this package's output with high confidence.
+     */
+    knownMachineIds?: string[];
+    /** Sequence width of the known generators. Defaults to 4. */
+    sequenceBits?: number;
+    /** Epoch of this package's generators. Defaults to 1900-01-01T00:00:00Z. */
+    epoch?: Date;
+    /** Current time in milliseconds, for the plausibility window. Defaults to Date.now(). */
+    now?: number;
+}
+
+interface ScoredCandidate extends GuidCandidate {
+    fields: GuidFields;
+    sortLayout?: GuidLayout;
+}
+
+const EARLIEST_PLAUSIBLE = Date.UTC(2000, 0, 1);
+const MILLISECONDS_PER_DAY = 86400000;
+/** How far back a timestamp is recent enough to outweigh RFC version bits */
+const RECENT_MILLISECONDS = 366 * MILLISECONDS_PER_DAY;
+const COMB_MILLISECONDS_PER_TICK = 3.333333;
+/** 100 ns intervals between the Gregorian epoch (1582-10-15) and the Unix epoch */
+const GREGORIAN_OFFSET = 122192928000000000n;
+const OWN_LAYOUTS: readonly ByteOrderLayout[] = ['standard', 'sqlserver', 'mysql'];
+
+/**
+ * Classifies a GUID by its structure
+ */
+export function classifyGuid(guid: string, options: GuidClassifierOptions = {}): GuidClassification {
+    const bytes = SequentialGuidGenerator.guidToBuffer(guid);
+    const variant = getVariant(bytes[8]);
+    const version = variant === 'rfc9562' ? bytes[6] >> 4 : null;
+
+    const own = classifyOwnLayouts(bytes, version, options);
+    // A recent 48-bit timestamp, or a known machine ID, is rare in random or hashed
+    // bits, so it outweighs version bits that carry no recent timestamp of their own
+    const decisive = own.some(candidate => candidate.confidence === 0.99 || isRecent(candidate.fields.timestampMs!, options));
+    const versioned = [
+        ...classifyRfc(guid, bytes, version, options),
+        ...classifyNewSequentialId(bytes, variant, options),
+    ].map(candidate =>
+        decisive && !(candidate.fields.timestampMs !== undefined && isRecent(candidate.fields.timestampMs, options))
+            ? { ...candidate, confidence: Math.min(candidate.confidence, 0.5) }
+            : candidate);
+
+    // Ties (e.g. two layouts decoding to plausible times) go to the time closest to now
+    const now = options.now ?? Date.now();
+    const distance = (candidate: ScoredCandidate) =>
+        candidate.fields.timestampMs === undefined ? Infinity : Math.abs(now - candidate.fields.timestampMs);
+    const candidates = [
+        ...classifySpecial(bytes),
+        ...versioned,
+        ...own,
+    ].sort((a, b) => b.confidence - a.confidence || distance(a) - distance(b));
+
+    const best = candidates[0] ?? { type: 'unknown' as const, confidence: 0, fields: {} };
+
+    return {
+        guid,
+        type: best.type,
+        confidence: best.confidence,
+        variant,
+        version,
+        fields: best.fields,
+        sequentialIn: best.sortLayout ? dialectsKeepingOrder(best.sortLayout) : [],
+        alternatives: candidates.slice(1).map(({ type, confidence }) => ({ type, confidence })),
+    };
+}
+
+function getVariant(byte: number): GuidVariant {
+    if ((byte & 0x80) === 0) {
+        return 'ncs';
+    }
+    if ((byte & 0xC0) === 0x80) {
+        return 'rfc9562';
+    }
+    return (byte & 0xE0) === 0xC0 ? 'microsoft' : 'future';
+}
+
+function classifySpecial(bytes: Buffer): ScoredCandidate[] {
+    if (bytes.every(byte => byte === 0x00)) {
+        return [{ type: 'nil', confidence: 1, fields: {} }];
+    }
+    if (bytes.every(byte => byte === 0xFF)) {
+        return [{ type: 'max', confidence: 1, fields: {} }];
+    }
+    return [];
+}
+
+function classifyRfc(guid: string, bytes: Buffer, version: number | null, options: GuidClassifierOptions): ScoredCandidate[] {
+    switch (version) {
+        case 1: {
+            const ticks = (BigInt(bytes.readUInt16BE(6) & 0x0FFF) << 48n)
+                | (BigInt(bytes.readUInt16BE(4)) << 32n)
+                | BigInt(bytes.readUInt32BE(0));
+            return [gregorianCandidate('uuid_v1', ticks, bytes, 0.9, undefined, options)];
+        }
+        case 6: {
+            const ticks = (BigInt(bytes.readUInt32BE(0)) << 28n)
+                | (BigInt(bytes.readUInt16BE(4)) << 12n)
+                | BigInt(bytes.readUInt16BE(6) & 0x0FFF);
+            return [gregorianCandidate('uuid_v6', ticks, bytes, 0.95, 'standard', options)];
+        }
+        case 7: {
+            const timestampMs = bytes.readUIntBE(0, 6);
+            return [{
+                type: 'uuid_v7',
+                confidence: isPlausible(timestampMs, options) ? 0.95 : 0.6,
+                fields: { ...timeFields(timestampMs), counter: bytes.readUInt16BE(6) & 0x0FFF, randomBits: 62 },
+                sortLayout: 'standard',
+            }];
+        }
+        case 4: {
+            if (isComb(guid, bytes, options)) {
+                const timestampMs = SequentialGuidGenerator.extractCombTimestamp(guid).getTime();
+                // An older date is no stronger evidence than the version bits
+                const recent = isRecent(timestampMs, options);
+                return [{
+                    type: 'comb',
+                    confidence: recent ? 0.85 : 0.6,
+                    fields: { ...timeFields(timestampMs), layout: 'comb', randomBits: 74 },
+                    sortLayout: 'comb',
+                }, { type: 'uuid_v4', confidence: recent ? 0.4 : 0.9, fields: { randomBits: 122 } }];
+            }
+            return [{ type: 'uuid_v4', confidence: 0.9, fields: { randomBits: 122 } }];
+        }
+        case 3:
+            return [{ type: 'uuid_v3', confidence: 0.9, fields: { hash: 'MD5' } }];
+        case 5:
+            return [{ type: 'uuid_v5', confidence: 0.9, fields: { hash: 'SHA-1' } }];
+        case 2:
+            return [{ type: 'uuid_v2', confidence: 0.7, fields: clockFields(bytes) }];
+        case 8:
+            return [{ type: 'uuid_v8', confidence: 0.7, fields: {} }];
+        default:
+            return [];
+    }
+}
+
+/**
+ * NEWSEQUENTIALID() returns a UuidCreateSequential (v1) value with time_low,
+ * time_mid and time_hi_and_version byte-swapped
+ */
+function classifyNewSequentialId(bytes: Buffer, variant: GuidVariant, options: GuidClassifierOptions): ScoredCandidate[] {
+    if (variant !== 'rfc9562' || bytes[7] >> 4 !== 1) {
+        return [];
+    }
+
+    const ticks = (BigInt(bytes.readUInt16LE(6) & 0x0FFF) << 48n)
+        | (BigInt(bytes.readUInt16LE(4)) << 32n)
+        | BigInt(bytes.readUInt32LE(0));
+    const candidate = gregorianCandidate('newsequentialid', ticks, bytes, 0.85, 'sqlserver', options);
+
+    // Without a plausible time this is most likely a random value with a matching nibble
+    return candidate.fields.timestamp ? [candidate] : [];
+}
+
+function classifyOwnLayouts(bytes: Buffer, version: number | null, options: GuidClassifierOptions): ScoredCandidate[] {
+    const epoch = (options.epoch ?? new Date(Date.UTC(1900, 0, 1))).getTime();
+    const sequenceMask = (1 << (options.sequenceBits ?? 4)) - 1;
+    const known = (options.knownMachineIds ?? []).map(machineId => maskMachineId(machineId, sequenceMask));
+    const candidates: ScoredCandidate[] = [];
+
+    for (const layout of OWN_LAYOUTS) {
+        const ordered = Buffer.alloc(16);
+        LAYOUT_BYTE_ORDER[layout].forEach((position, index) => {
+            ordered[index] = bytes[position];
+        });
+
+        const timestampMs = epoch + ordered.readUIntBE(0, 6);
+        const machineId = maskMachineId(ordered.toString('hex', 6, 10), sequenceMask);
+        const isKnown = known.includes(machineId);
+
+        if (!isKnown && !isPlausible(timestampMs, options)) {
+            continue;
+        }
+
+        candidates.push({
+            type: 'sequential',
+            // Version bits that happen to look valid make another structure just as likely
+            confidence: isKnown ? 0.99 : version === null ? 0.85 : 0.6,
+            fields: {
+                ...timeFields(timestampMs),
+                layout,
+                machineId,
+                sequence: ordered.readUInt16BE(6) & sequenceMask,
+                randomBits: 48,
+            },
+            sortLayout: layout,
+        });
+    }
+    return candidates;
+}
+
+function gregorianCandidate(
+    type: GuidType,
+    ticks: bigint,
+    bytes: Buffer,
+    confidence: number,
+    sortLayout: GuidLayout | undefined,
+    options: GuidClassifierOptions
+): ScoredCandidate {
+    const timestampMs = Number((ticks - GREGORIAN_OFFSET) / 10000n);
+    const plausible = isPlausible(timestampMs, options);
+
+    return {
+        type,
+        confidence: plausible ? confidence : confidence - 0.3,
+        fields: { ...(plausible ? timeFields(timestampMs) : {}), ...clockFields(bytes) },
+        sortLayout,
+    };
+}
+
+function clockFields(bytes: Buffer): GuidFields {
+    return {
+        clockSequence: bytes.readUInt16BE(8) & 0x3FFF,
+        node: bytes.toString('hex', 10, 16).toUpperCase(),
+        nodeIsRandom: (bytes[10] & 0x01) === 1,
+    };
+}
+
+function timeFields(timestampMs: number): GuidFields {
+    return { timestamp: new Date(timestampMs).toISOString(), timestampMs };
+}
+
+function isPlausible(timestampMs: number, options: GuidClassifierOptions): boolean {
+    return timestampMs >= EARLIEST_PLAUSIBLE && timestampMs <= (options.now ?? Date.now()) + MILLISECONDS_PER_DAY;
+}
+
+function isRecent(timestampMs: number, options: GuidClassifierOptions): boolean {
+    const now = options.now ?? Date.now();
+    return timestampMs >= now - RECENT_MILLISECONDS && timestampMs <= now + MILLISECONDS_PER_DAY;
+}
+
+function isComb(guid: string, bytes: Buffer, options: GuidClassifierOptions): boolean {
+    return bytes.readUInt32BE(12) * COMB_MILLISECONDS_PER_TICK < MILLISECONDS_PER_DAY
+        && isPlausible(SequentialGuidGenerator.extractCombTimestamp(guid).getTime(), options);
+}
+
+function maskMachineId(machineId: string, sequenceMask: number): string {
+    if (!/^[0-9A-Fa-f]{8}$/.test(machineId)) {
+        throw new Error('Machine ID must be 8 hex characters');
+    }
+
+    const bytes = Buffer.from(machineId, 'hex');
+    bytes.writeUInt16BE(bytes.readUInt16BE(0) & ~sequenceMask & 0xFFFF, 0);
+    return bytes.toString('hex').toUpperCase();
+}
+
+function dialectsKeepingOrder(layout: GuidLayout): SqlDialectName[] {
+    return SQL_DIALECTS.filter(dialect => getDialect(dialect).layouts.includes(layout));
+}
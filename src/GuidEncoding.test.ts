@@ -0,0 +1,79 @@
+/**
+ * Tests for GUID text encodings
+ */
+
+import { GUID_FORMATS, GUID_FORMAT_INFO, decodeGuid, detectGuidFormat, encodeGuid } from './GuidEncoding';
+import { generateRandomGuidBatch } from './SequentialGuidGenerator';
+import { UuidV7Generator } from './UuidV7Generator';
+
+describe('GuidEncoding', () => {
+  const guid = '0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A';
+
+  it.each([
+    ['canonical', '0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A'],
+    ['compact', '0190A6E17B5C7D3A9F2E4B8C1D0E5F6A'],
+    ['braced', '{0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A}'],
+    ['urn', 'urn:uuid:0190a6e1-7b5c-7d3a-9f2e-4b8c1d0e5f6a'],
+    ['base32', '01J2KE2YTWFMX9YBJBHGEGWQVA'],
+    ['base58', '1CD85C3oP4m11evTRW8P7F'],
+    ['base64url', 'AZCm4XtcfTqfLkuMHQ5fag'],
+  ] as const)('should encode and decode %s', (format, encoded) => {
+    expect(encodeGuid(guid, format)).toBe(encoded);
+    expect(encoded).toHaveLength(GUID_FORMAT_INFO[format].length);
+    expect(decodeGuid(encoded, format)).toBe(guid);
+  });
+
+  it('should round-trip random GUIDs through every format', () => {
+    for (const random of generateRandomGuidBatch(100)) {
+      for (const format of GUID_FORMATS) {
+        expect(decodeGuid(encodeGuid(random, format), format)).toBe(random);
+      }
+    }
+  });
+
+  it('should use the ULID alphabet for Crockford Base32', () => {
+    // ULID spec example and its UUID form
+    expect(decodeGuid('01ARZ3NDEKTSV4RRFFQ69G5FAV', 'base32')).toBe('01563E3A-B5D3-D676-4C61-EFB99302BD5B');
+    expect(decodeGuid('01arz3ndektsv4rrffq69g5fav', 'base32')).toBe('01563E3A-B5D3-D676-4C61-EFB99302BD5B');
+    expect(encodeGuid('FFFFFFFF-FFFF-FFFF-FFFF-FFFFFFFFFFFF', 'base32')).toBe('7ZZZZZZZZZZZZZZZZZZZZZZZZZ');
+  });
+
+  it('should keep the sort order in order-preserving formats', () => {
+    const uuids = new UuidV7Generator().generateBatch(200);
+    const ordered = [...generateRandomGuidBatch(200), ...uuids].sort();
+
+    for (const format of GUID_FORMATS.filter(format => GUID_FORMAT_INFO[format].preservesOrder)) {
+      const encoded = ordered.map(value => encodeGuid(value, format));
+      expect([...encoded].sort()).toEqual(encoded);
+    }
+  });
+
+  it('should detect the encoding of a value', () => {
+    // Its Base64url form (0ZCm...) is not valid Base58, so detection is unambiguous
+    const detectable = 'D190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A';
+
+    for (const format of GUID_FORMATS) {
+      const encoded = encodeGuid(detectable, format);
+      expect(detectGuidFormat(encoded)).toBe(format);
+      expect(decodeGuid(encoded)).toBe(detectable);
+    }
+    expect(detectGuidFormat('hello')).toBeNull();
+  });
+
+  it('should refuse to guess between Base58 and Base64url', () => {
+    const value = 'AZCm4XtcfTqfLkuMHQ5fag';
+
+    expect(() => detectGuidFormat(value)).toThrow('GUID encoding is ambiguous');
+    expect(() => decodeGuid(value)).toThrow('specify the format');
+    expect(decodeGuid(value, 'base64url')).not.toBe(decodeGuid(value, 'base58'));
+  });
+
+  it('should reject invalid or overflowing values', () => {
+    expect(() => decodeGuid('hello')).toThrow(/^Unrecognized GUID encoding for a value of 5 characters$/);
+    expect(() => decodeGuid('8ZZZZZZZZZZZZZZZZZZZZZZZZZ', 'base32')).toThrow('exceeds 128 bits');
+    expect(() => decodeGuid('zzzzzzzzzzzzzzzzzzzzzz', 'base58')).toThrow('exceeds 128 bits');
+    expect(() => decodeGuid('0OIl000000000000000000', 'base58')).toThrow('Invalid Base58 character: 0');
+    expect(() => decodeGuid('AZCm4XtcfTqfLkuMHQ5fah', 'base64url')).toThrow('not canonically encoded');
+    expect(() => encodeGuid(guid, 'base36' as any)).toThrow('Unsupported GUID format: base36');
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Textual encodings of GUIDs
+ *
+ * All encodings are lossless and work on the bytes in string (RFC) order. Fixed
+ * width encodings whose alphabet is in ASCII order keep the sort order of the
+ * canonical form, so GUIDs from the standard layout and UUIDv7 still sort by time:
+ *
+ * | Format      | Example                                       | Length | Keeps order |
+ * |-------------|-----------------------------------------------|--------|-------------|
+ * | `canonical` | 0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A          | 36     | yes         |
+ * | `compact`   | 0190A6E17B5C7D3A9F2E4B8C1D0E5F6A              | 32     | yes         |
+ * | `braced`    | {0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A}        | 38     | yes         |
+ * | `urn`       | urn:uuid:0190a6e1-7b5c-7d3a-9f2e-4b8c1d0e5f6a | 45     | yes         |
+ * | `base32`    | 01J2KE2YTWFMX9YBJBHGEGWQVA (Crockford/ULID)   | 26     | yes         |
+ * | `base58`    | 1CD85C3oP4m11evTRW8P7F (Bitcoin alphabet)     | 22     | yes         |
+ * | `base64url` | AZCm4XtcfTqfLkuMHQ5fag                        | 22     | no          |
+ *
+ * Base64url uses the RFC 4648 alphabet, which is not in ASCII order; prefer base32
+ * or base58 for sortable short IDs.
+ */
+
+import { fromBytes, toBytes } from './GuidBytes.js';
+
+export type GuidFormat = 'canonical' | 'compact' | 'braced' | 'urn' | 'base32' | 'base58' | 'base64url';
+
+export const GUID_FORMATS: readonly GuidFormat[] = ['canonical', 'compact', 'braced', 'urn', 'base32', 'base58', 'base64url'];
+
+export interface GuidFormatInfo {
+    length: number;
+    /** Whether encoded values sort (by code unit) like the canonical form */
+    preservesOrder: boolean;
+    description: string;
+}
+
+export const GUID_FORMAT_INFO: Readonly<Record<GuidFormat, GuidFormatInfo>> = {
+    canonical: { length: 36, preservesOrder: true, description: 'Uppercase 8-4-4-4-12 hex' },
+    compact: { length: 32, preservesOrder: true, description: 'Uppercase hex without dashes' },
+    braced: { length: 38, preservesOrder: true, description: 'Canonical form in braces, as printed by .NET Guid.ToString("B")' },
+    urn: { length: 45, preservesOrder: true, description: 'RFC 9562 URN, lowercase' },
+    base32: { length: 26, preservesOrder: true, description: 'Crockford Base32 (ULID alphabet)' },
+    base58: { length: 22, preservesOrder: true, description: 'Base58 (Bitcoin alphabet), left-padded to 22 characters' },
+    base64url: { length: 22, preservesOrder: false, description: 'RFC 4648 Base64url without padding' },
+};
+
+const CROCKFORD_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+const MAX_VALUE = (1n << 128n) - 1n;
+
+/**
+ * Encodes a GUID (in any supported format) as `format`
+ */
+export function encodeGuid(guid: string, format: GuidFormat): string {
+    const bytes = toBytes(decodeGuid(guid));
+    const canonical = fromBytes(bytes);
+
+    switch (format) {
+        case 'canonical':
+            return canonical;
+        case 'compact':
+            return bytes.toString('hex').toUpperCase();
+        case 'braced':
+            return `{${canonical}}`;
+        case 'urn':
+            return `urn:uuid:${canonical.toLowerCase()}`;
+        case 'base32':
+            return encodeBigInt(toBigInt(bytes), CROCKFORD_ALPHABET, 26);
+        case 'base58':
+            return encodeBigInt(toBigInt(bytes), BASE58_ALPHABET, 22);
+        case 'base64url':
+            return bytes.toString('base64url');
+        default:
+            throw new Error(`Unsupported GUID format: ${format}`);
+    }
+}
+
+/**
+ * Decodes a GUID from `format` back to the canonical form. Without a format the
+ * encoding is detected from the value.
+ */
+export function decodeGuid(value: string, format?: GuidFormat): string {
+    const resolved = format ?? detectGuidFormat(value);
+
+    if (!resolved) {
+        throw new Error(`Unrecognized GUID encoding for a value of ${value.length} characters`);
+    }
+
+    switch (resolved) {
+        case 'canonical':
+            return fromBytes(toBytes(value));
+        case 'compact':
+            return fromBytes(hexToBytes(value));
+        case 'braced':
+            if (!value.startsWith('{') || !value.endsWith('}')) {
+                throw new Error('Braced GUID must be wrapped in { }');
+            }
+            return fromBytes(toBytes(value.slice(1, -1)));
+        case 'urn':
+            if (!/^urn:uuid:/i.test(value)) {
+                throw new Error('URN must start with urn:uuid:');
+            }
+            return fromBytes(toBytes(value.substring(9)));
+        case 'base32':
+            return fromBytes(fromBigInt(decodeBigInt(normalizeCrockford(value), CROCKFORD_ALPHABET, 26, 'Crockford Base32')));
+        case 'base58':
+            return fromBytes(fromBigInt(decodeBigInt(value, BASE58_ALPHABET, 22, 'Base58')));
+        case 'base64url':
+            return fromBytes(base64UrlToBytes(value));
+        default:
+            throw new Error(`Unsupported GUID format: ${resolved}`);
+    }
+}
+
+/**
+ * Detects the encoding of a value, or returns null when it matches none.
+ *
+ * Base58 and Base64url are both 22 characters long. A 128-bit Base64url value
+ * always ends in A, Q, g or w, and about 7% of Base58 GUIDs do too; a value that
+ * decodes as both throws, since guessing would return a different GUID half the
+ * time. Pass the format explicitly for those.
+ */
+export function detectGuidFormat(value: string): GuidFormat | null {
+    if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+        return 'canonical';
+    }
+    if (/^\{[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\}$/i.test(value)) {
+        return 'braced';
+    }
+    if (/^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) {
+        return 'urn';
+    }
+    if (/^[0-9a-f]{32}$/i.test(value)) {
+        return 'compact';
+    }
+    if (/^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i.test(value.replace(/[ILO]/gi, '0'))) {
+        return 'base32';
+    }
+
+    const base64url = /^[A-Za-z0-9_-]{21}[AQgw]$/.test(value);
+    const base58 = isBase58(value);
+    if (base64url && base58) {
+        throw new Error('GUID encoding is ambiguous: the value is valid Base58 and Base64url; specify the format');
+    }
+    if (base64url) {
+        return 'base64url';
+    }
+    if (base58) {
+        return 'base58';
+    }
+    return null;
+}
+
+/**
+ * Checks whether a value is a 22-character Base58 number that fits in 128 bits
+ */
+function isBase58(value: string): boolean {
+    try {
+        decodeBigInt(value, BASE58_ALPHABET, 22, 'Base58');
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+function toBigInt(bytes: Buffer): bigint {
+    return BigInt(`0x${bytes.toString('hex')}`);
+}
+
+function fromBigInt(value: bigint): Buffer {
+    return Buffer.from(value.toString(16).padStart(32, '0'), 'hex');
+}
+
+function encodeBigInt(value: bigint, alphabet: string, width: number): string {
+    const base = BigInt(alphabet.length);
+    let result = '';
+    for (let i = 0; i < width; i++) {
+        result = alphabet[Number(value % base)] + result;
+        value /= base;
+    }
+    return result;
+}
+
+function decodeBigInt(value: string, alphabet: string, width: number, name: string): bigint {
+    if (value.length !== width) {
+        throw new Error(`${name} GUID must be ${width} characters`);
+    }
+
+    const base = BigInt(alphabet.length);
+    let result = 0n;
+    for (const char of value) {
+        const digit = alphabet.indexOf(char);
+        if (digit < 0) {
+            throw new Error(`Invalid ${name} character: ${char}`);
+        }
+        result = result * base + BigInt(digit);
+    }
+
+    if (result > MAX_VALUE) {
+        throw new Error(`${name} value exceeds 128 bits`);
+    }
+    return result;
+}
+
+/**
+ * Crockford decoding is case-insensitive and reads I/L as 1 and O as 0
+ */
+function normalizeCrockford(value: string): string {
+    return value.toUpperCase().replace(/[IL]/g, '1').replace(/O/g, '0');
+}
+
+function hexToBytes(value: string): Buffer {
+    if (!/^[0-9a-f]{32}$/i.test(value)) {
+        throw new Error('Compact GUID must be 32 hex characters');
+    }
+    return Buffer.from(value, 'hex');
+}
+
+function base64UrlToBytes(value: string): Buffer {
+    if (!/^[A-Za-z0-9_-]{22}$/.test(value)) {
+        throw new Error('Base64url GUID must be 22 characters');
+    }
+
+    const bytes = Buffer.from(value, 'base64url');
+    // Reject values whose unused trailing bits are set, so every GUID has one encoding
+    if (bytes.toString('base64url') !== value) {
+        throw new Error('Base64url GUID is not canonically encoded');
+    }
+    return bytes;
+}
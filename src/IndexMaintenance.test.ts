@@ -0,0 +1,193 @@
+/**
+ * Tests for index maintenance plans built from index physical stats
+ */
+
+import { generateMaintenancePlan, IndexPhysicalStats, parseIndexStats } from './IndexMaintenance';
+import { SqlIdentifierError } from './SqlIdentifier';
+
+describe('IndexMaintenance', () => {
+  const stats: IndexPhysicalStats[] = [
+    { schemaName: 'sales', tableName: 'Orders', indexName: 'IX_Orders_CustomerId', fragmentationPercent: 18.25, pageCount: 40000 },
+    { schemaName: 'sales', tableName: 'Orders', indexName: 'PK_Orders', fragmentationPercent: 45, pageCount: 120000, fillFactor: 0 },
+    { tableName: 'Customers', indexName: 'PK_Customers', fragmentationPercent: 99.1, pageCount: 5000, fillFactor: 90 },
+    { tableName: 'Events', indexName: 'PK_Events', fragmentationPercent: 60, pageCount: 8000, sequentialKey: true, fillFactor: 80 },
+    { tableName: 'Lookups', indexName: 'PK_Lookups', fragmentationPercent: 80, pageCount: 12 },
+    { tableName: 'Audit', indexName: null, indexType: 'HEAP', fragmentationPercent: 40, pageCount: 9000 },
+    { tableName: 'Facts', indexName: 'CCI_Facts', indexType: 'CLUSTERED COLUMNSTORE', fragmentationPercent: 0, pageCount: 9000 },
+    { tableName: 'Settings', indexName: 'PK_Settings', fragmentationPercent: 4, pageCount: 2000 },
+  ];
+
+  describe('parseIndexStats', () => {
+    const expected = [
+      { schemaName: 'sales', tableName: 'Orders', indexName: 'PK_Orders', indexType: 'CLUSTERED', fragmentationPercent: 45.5, pageCount: 120000, fillFactor: 0 },
+      { schemaName: 'dbo', tableName: 'Audit, 2024', indexName: null, indexType: 'HEAP', fragmentationPercent: 0, pageCount: 10, fillFactor: 0 },
+    ];
+
+    it('should read the fragmentation query output as JSON', () => {
+      const json = JSON.stringify([
+        { SchemaName: 'sales', TableName: 'Orders', IndexName: 'PK_Orders', IndexType: 'CLUSTERED', fill_factor: 0, avg_fragmentation_in_percent: 45.5, page_count: 120000 },
+        { SchemaName: 'dbo', TableName: 'Audit, 2024', IndexName: null, IndexType: 'HEAP', fill_factor: 0, avg_fragmentation_in_percent: 0, page_count: 10 },
+      ]);
+
+      expect(parseIndexStats(json)).toEqual(expected);
+    });
+
+    it.each([',', '\t', ';'])('should read delimited text with a header row (%j)', delimiter => {
+      const text = [
+        ['SchemaName', 'TableName', 'IndexName', 'IndexType', 'fill_factor', 'avg_fragmentation_in_percent', 'page_count'],
+        ['sales', 'Orders', 'PK_Orders', 'CLUSTERED', '0', '45.5', '120000'],
+        ['dbo', '"Audit, 2024"', 'NULL', 'HEAP', '0', '0', '10'],
+      ].map(row => row.join(delimiter)).join('\r\n');
+
+      expect(parseIndexStats(`\n${text}\n`)).toEqual(expected);
+    });
+
+    it('should accept the camelCase field names and a sequential key column', () => {
+      const [row] = parseIndexStats('tableName,indexName,fragmentationPercent,pageCount,IsSequentialKey\nOrders,PK,12,2000,yes');
+
+      expect(row).toMatchObject({ tableName: 'Orders', indexName: 'PK', sequentialKey: true });
+    });
+
+    it.each([
+      ['', 'empty'],
+      ['[{"TableName": "T"', 'not valid JSON'],
+      ['[{"IndexName": "PK"}]', 'missing a TableName column'],
+      ['TableName,IndexName,avg_fragmentation_in_percent,page_count\nT,PK,high,10', 'avg_fragmentation_in_percent must be a number'],
+      ['TableName,IndexName,avg_fragmentation_in_percent,page_count\nT,PK,10', 'expected 4 values, got 3'],
+      ['TableName,IndexName\n"T,PK', 'Unterminated quoted value in row 1'],
+      ['"TableName"x,IndexName\nT,PK', 'Unexpected text after a quoted value in the header'],
+    ])('should reject %j', (text, message) => {
+      expect(() => parseIndexStats(text)).toThrow(message);
+    });
+
+    it('should not quote the text in errors', () => {
+      for (const text of ['[{"TableName": "secret"', 'TableName,IndexName\n"secret"x,PK']) {
+        expect(() => parseIndexStats(text)).toThrow(expect.objectContaining({ message: expect.not.stringContaining('secret') }));
+      }
+    });
+  });
+
+  describe('generateMaintenancePlan', () => {
+    it('should order actions by out-of-order pages and list skipped indexes last', () => {
+      const { steps } = generateMaintenancePlan(stats);
+
+      expect(steps.map(step => [step.indexName, step.action, step.priority])).toEqual([
+        ['PK_Orders', 'REBUILD', 54000],
+        ['IX_Orders_CustomerId', 'REORGANIZE', 7300],
+        ['PK_Customers', 'REBUILD', 4955],
+        ['PK_Events', 'REBUILD', 4800],
+        ['PK_Lookups', 'NONE', 10],
+        [null, 'NONE', 3600],
+        ['CCI_Facts', 'NONE', 0],
+        ['PK_Settings', 'NONE', 80],
+      ]);
+      expect(steps.slice(4).map(step => step.reason)).toEqual([
+        'Only 12 pages (minimum 1,000)',
+        'Heap; ALTER INDEX does not apply',
+        'Columnstore index; check sys.dm_db_column_store_row_group_physical_stats instead',
+        '4% fragmented, below the 10% reorganize threshold',
+      ]);
+    });
+
+    it('should suggest a fill factor from the key type and the current setting', () => {
+      const fillFactors = Object.fromEntries(generateMaintenancePlan(stats).steps.map(step => [step.indexName, step.fillFactor]));
+
+      // Random keys leave free space, and more of it when they fragmented anyway
+      expect(fillFactors.PK_Orders).toBe(90);
+      expect(fillFactors.PK_Customers).toBe(80);
+      expect(fillFactors.PK_Events).toBe(100);
+      expect(fillFactors.IX_Orders_CustomerId).toBeUndefined();
+
+      const sequential = generateMaintenancePlan(stats, { sequentialKey: true }).steps;
+      expect(sequential.find(step => step.indexName === 'PK_Customers')?.fillFactor).toBe(100);
+      expect(generateMaintenancePlan([{ ...stats[2], fillFactor: 70 }]).steps[0].fillFactor).toBe(70);
+    });
+
+    it('should produce the maintenance script', () => {
+      const { script } = generateMaintenancePlan(stats.slice(0, 3), { minPageCount: 100, reorganizeThreshold: 5 });
+
+      expect(script).toBe([
+        '-- Index maintenance plan: 2 rebuild(s), 1 reorganization(s), 0 skipped',
+        '-- REORGANIZE from 5%, REBUILD from 30% fragmentation; indexes under 100 pages are skipped',
+        '',
+        '-- 1. [sales].[Orders].[PK_Orders]: 45% fragmented, at or above the 30% rebuild threshold, 120,000 pages',
+        '--    FILLFACTOR 90: random key, leaves room for inserts between existing rows',
+        'ALTER INDEX [PK_Orders] ON [sales].[Orders] REBUILD WITH (FILLFACTOR = 90);',
+        'GO',
+        '',
+        '-- 2. [sales].[Orders].[IX_Orders_CustomerId]: 18.3% fragmented, at or above the 5% reorganize threshold, 40,000 pages',
+        'ALTER INDEX [IX_Orders_CustomerId] ON [sales].[Orders] REORGANIZE;',
+        'GO',
+        '',
+        '-- 3. [dbo].[Customers].[PK_Customers]: 99.1% fragmented, at or above the 30% rebuild threshold, 5,000 pages',
+        '--    FILLFACTOR 80: random key, leaves room for inserts between existing rows',
+        'ALTER INDEX [PK_Customers] ON [dbo].[Customers] REBUILD WITH (FILLFACTOR = 80);',
+        'GO',
+      ].join('\n'));
+    });
+
+    it('should add online and resumable rebuild options', () => {
+      const [online] = generateMaintenancePlan(stats, { online: true }).steps;
+      const [resumable] = generateMaintenancePlan(stats, { resumable: true, maxDurationMinutes: 60 }).steps;
+
+      expect(online.statement).toBe('ALTER INDEX [PK_Orders] ON [sales].[Orders] REBUILD WITH (FILLFACTOR = 90, ONLINE = ON);');
+      expect(resumable.statement).toBe(
+        'ALTER INDEX [PK_Orders] ON [sales].[Orders] REBUILD WITH (FILLFACTOR = 90, ONLINE = ON, RESUMABLE = ON, MAX_DURATION = 60 MINUTES);'
+      );
+    });
+
+    it('should apply configured thresholds', () => {
+      const actions = generateMaintenancePlan(stats, { reorganizeThreshold: 20, rebuildThreshold: 50, minPageCount: 10 }).steps
+        .map(step => [step.indexName, step.action]);
+
+      expect(actions).toContainEqual(['PK_Orders', 'REORGANIZE']);
+      expect(actions).toContainEqual(['IX_Orders_CustomerId', 'NONE']);
+      expect(actions).toContainEqual(['PK_Lookups', 'REBUILD']);
+    });
+
+    it('should combine the rows of a partitioned index', () => {
+      const { steps } = generateMaintenancePlan([
+        { tableName: 'Orders', indexName: 'PK_Orders', fragmentationPercent: 50, pageCount: 3000 },
+        { tableName: 'Orders', indexName: 'PK_Orders', fragmentationPercent: 10, pageCount: 1000 },
+      ]);
+
+      expect(steps).toHaveLength(1);
+      expect(steps[0]).toMatchObject({ fragmentationPercent: 40, pageCount: 4000, action: 'REBUILD' });
+    });
+
+    it('should keep hostile names inside quotes', () => {
+      const { script } = generateMaintenancePlan([
+        { schemaName: "x'; DROP TABLE Users; --", tableName: '[T]]; DROP TABLE Users; --', indexName: "PK]; DROP TABLE Users; --", fragmentationPercent: 50, pageCount: 5000 },
+      ]);
+      const stripped = script
+        .split('\n')
+        .filter(line => !line.startsWith('--'))
+        .join('\n')
+        .replace(/\[(?:[^\]]|\]\])*\]/g, '<id>');
+
+      expect(stripped).not.toMatch(/DROP TABLE/);
+      expect(() => generateMaintenancePlan([{ tableName: 'T\nGO', indexName: 'PK', fragmentationPercent: 50, pageCount: 5000 }]))
+        .toThrow(SqlIdentifierError);
+    });
+
+    it.each([
+      [{ reorganizeThreshold: 40 }, 'Thresholds must be percentages'],
+      [{ rebuildThreshold: 101 }, 'Thresholds must be percentages'],
+      [{ minPageCount: -1 }, 'Minimum page count'],
+      [{ resumable: true, online: false }, 'Resumable rebuilds must be online'],
+      [{ maxDurationMinutes: 30 }, 'only applies to resumable rebuilds'],
+      [{ resumable: true, maxDurationMinutes: 0 }, 'maxDurationMinutes must be an integer'],
+    ])('should reject options %j', (options, message) => {
+      expect(() => generateMaintenancePlan(stats, options)).toThrow(message);
+    });
+
+    it.each([
+      [{ tableName: '', indexName: 'PK', fragmentationPercent: 1, pageCount: 1 }, 'Row 1: tableName is required'],
+      [{ tableName: 'T', indexName: 'PK', fragmentationPercent: 120, pageCount: 1 }, 'fragmentationPercent must be between 0 and 100'],
+      [{ tableName: 'T', indexName: 'PK', fragmentationPercent: 1, pageCount: 1.5 }, 'pageCount must be a non-negative integer'],
+      [{ tableName: 'T', indexName: 'PK', fragmentationPercent: 1, pageCount: 1, fillFactor: 101 }, 'fillFactor must be an integer'],
+    ])('should reject invalid row %#', (row, message) => {
+      expect(() => generateMaintenancePlan([row as IndexPhysicalStats])).toThrow(message);
+    });
+  });
+});
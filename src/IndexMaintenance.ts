@@ -0,0 +1,447 @@
+/**
+ * Index maintenance plans from sys.dm_db_index_physical_stats output
+ *
+ * parseIndexStats() reads the rows returned by the fragmentation query of
+ * SqlServerOptimizations.generatePerformanceQueries(), pasted back as JSON or as
+ * CSV/tab-separated text with a header row. generateMaintenancePlan() then picks
+ * an action per index with the usual thresholds (REORGANIZE from 10% logical
+ * fragmentation, REBUILD from 30%), skips indexes too small for fragmentation to
+ * matter, and orders the statements by the number of out-of-order pages so the
+ * most expensive indexes come first.
+ *
+ * Rebuilds set a FILLFACTOR suited to the index key. A sequential key only inserts
+ * at the end of the index, so pages are filled completely. A random key inserts
+ * all over it, so pages keep free space, and an index that fragmented past the
+ * rebuild threshold despite a lowered fill factor gets 10 points more.
+ */
+
+import { quoteIdentifier } from './SqlIdentifier.js';
+
+export interface IndexPhysicalStats {
+    /** Defaults to dbo */
+    schemaName?: string;
+    tableName: string;
+    /** NULL for a heap */
+    indexName: string | null;
+    /** sys.indexes type_desc, e.g. CLUSTERED or NONCLUSTERED COLUMNSTORE */
+    indexType?: string;
+    /** avg_fragmentation_in_percent */
+    fragmentationPercent: number;
+    pageCount: number;
+    /** Current fill factor; 0 means 100 */
+    fillFactor?: number;
+    /** Whether the index key is sequential. Defaults to the plan's sequentialKey option. */
+    sequentialKey?: boolean;
+}
+
+export type IndexMaintenanceAction = 'REBUILD' | 'REORGANIZE' | 'NONE';
+
+export interface IndexMaintenanceOptions {
+    /** Fragmentation percentage from which indexes are reorganized. Defaults to 10. */
+    reorganizeThreshold?: number;
+    /** Fragmentation percentage from which indexes are rebuilt. Defaults to 30. */
+    rebuildThreshold?: number;
+    /** Indexes with fewer pages are left alone. Defaults to 1,000. */
+    minPageCount?: number;
+    /** Whether index keys are sequential, for rows that do not say. Defaults to false. */
+    sequentialKey?: boolean;
+    /** Rebuild with ONLINE = ON (Enterprise edition). Defaults to resumable. */
+    online?: boolean;
+    /** Rebuild with RESUMABLE = ON (SQL Server 2017+), which requires online. Defaults to false. */
+    resumable?: boolean;
+    /** MAX_DURATION of resumable rebuilds, in minutes */
+    maxDurationMinutes?: number;
+}
+
+export interface IndexMaintenanceStep {
+    schemaName: string;
+    tableName: string;
+    indexName: string | null;
+    action: IndexMaintenanceAction;
+    reason: string;
+    fragmentationPercent: number;
+    pageCount: number;
+    /** Pages out of logical order; steps with more run first */
+    priority: number;
+    sequentialKey: boolean;
+    /** Fill factor the rebuild sets */
+    fillFactor?: number;
+    statement?: string;
+}
+
+export interface IndexMaintenancePlan {
+    /** Rebuilds and reorganizations by priority, then skipped indexes */
+    steps: IndexMaintenanceStep[];
+    script: string;
+}
+
+/** Rows with these (normalized) column names map to each field */
+const COLUMN_ALIASES: Readonly<Record<keyof IndexPhysicalStats, readonly string[]>> = {
+    schemaName: ['schemaname', 'schema'],
+    tableName: ['tablename', 'table', 'objectname'],
+    indexName: ['indexname', 'index', 'name'],
+    indexType: ['indextype', 'typedesc', 'indextypedesc'],
+    fragmentationPercent: ['fragmentationpercent', 'avgfragmentationinpercent', 'fragmentation'],
+    pageCount: ['pagecount', 'pages'],
+    fillFactor: ['fillfactor'],
+    sequentialKey: ['sequentialkey', 'issequentialkey', 'sequential'],
+};
+
+/** Lowest fill factor suggested for random keys; below it reads cost more than splits */
+const MIN_RANDOM_FILL_FACTOR = 70;
+
+const MAX_DURATION_MINUTES = 10080;
+
+/**
+ * Parses index statistics pasted back as a JSON array of row objects, or as
+ * comma, semicolon or tab separated text whose first line names the columns
+ */
+export function parseIndexStats(text: string): IndexPhysicalStats[] {
+    const trimmed = text.trim();
+    if (trimmed.length === 0) {
+        throw new Error('Index statistics are empty');
+    }
+
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+        let rows: unknown;
+        try {
+            rows = JSON.parse(trimmed);
+        } catch {
+            // The parser's message quotes the text, which may come from a file
+            throw new Error('Index statistics are not valid JSON');
+        }
+        return toIndexStats(Array.isArray(rows) ? rows : [rows]);
+    }
+
+    const lines = trimmed.split(/\r?\n/).filter(line => line.trim().length > 0);
+    const delimiter = ['\t', ';', ','].find(candidate => lines[0].includes(candidate)) ?? ',';
+    const header = splitDelimited(lines[0], delimiter, 'the header');
+    const rows = lines.slice(1).map((line, i) => {
+        const values = splitDelimited(line, delimiter, `row ${i + 1}`);
+        if (values.length !== header.length) {
+            throw new Error(`Row ${i + 1}: expected ${header.length} values, got ${values.length}`);
+        }
+        return Object.fromEntries(header.map((column, j) => [column, values[j]]));
+    });
+    return toIndexStats(rows);
+}
+
+/**
+ * Builds the maintenance plan for the given index statistics. Rows for the same
+ * index (one per partition or allocation unit) are combined first.
+ */
+export function generateMaintenancePlan(stats: IndexPhysicalStats[], options: IndexMaintenanceOptions = {}): IndexMaintenancePlan {
+    if (!Array.isArray(stats)) {
+        throw new Error('Index statistics must be an array');
+    }
+
+    const reorganizeThreshold = options.reorganizeThreshold ?? 10;
+    const rebuildThreshold = options.rebuildThreshold ?? 30;
+    if (!isPercentage(reorganizeThreshold) || !isPercentage(rebuildThreshold) || reorganizeThreshold > rebuildThreshold) {
+        throw new Error('Thresholds must be percentages with the reorganize threshold at most the rebuild threshold');
+    }
+
+    const minPageCount = options.minPageCount ?? 1000;
+    if (!Number.isInteger(minPageCount) || minPageCount < 0) {
+        throw new Error('Minimum page count must be a non-negative integer');
+    }
+
+    const resumable = options.resumable ?? false;
+    const online = options.online ?? resumable;
+    if (resumable && !online) {
+        throw new Error('Resumable rebuilds must be online');
+    }
+
+    const maxDuration = options.maxDurationMinutes;
+    if (maxDuration !== undefined) {
+        if (!resumable) {
+            throw new Error('maxDurationMinutes only applies to resumable rebuilds');
+        }
+        if (!Number.isInteger(maxDuration) || maxDuration < 1 || maxDuration > MAX_DURATION_MINUTES) {
+            throw new Error(`maxDurationMinutes must be an integer between 1 and ${MAX_DURATION_MINUTES}`);
+        }
+    }
+
+    const rebuildOptions = [
+        ...(online ? ['ONLINE = ON'] : []),
+        ...(resumable ? ['RESUMABLE = ON'] : []),
+        ...(maxDuration !== undefined ? [`MAX_DURATION = ${maxDuration} MINUTES`] : []),
+    ];
+
+    const steps = combineRows(stats.map(validateRow)).map((row): IndexMaintenanceStep => {
+        const sequentialKey = row.sequentialKey ?? options.sequentialKey ?? false;
+        const step: IndexMaintenanceStep = {
+            schemaName: row.schemaName,
+            tableName: row.tableName,
+            indexName: row.indexName,
+            action: 'NONE',
+            reason: '',
+            fragmentationPercent: row.fragmentationPercent,
+            pageCount: row.pageCount,
+            priority: Math.round(row.fragmentationPercent / 100 * row.pageCount),
+            sequentialKey,
+        };
+        const fragmentation = `${formatPercent(row.fragmentationPercent)} fragmented`;
+
+        if (row.indexName === null || row.indexType?.toUpperCase() === 'HEAP') {
+            step.reason = 'Heap; ALTER INDEX does not apply';
+        } else if (/COLUMNSTORE/i.test(row.indexType ?? '')) {
+            step.reason = 'Columnstore index; check sys.dm_db_column_store_row_group_physical_stats instead';
+        } else if (row.pageCount < minPageCount) {
+            step.reason = `Only ${row.pageCount.toLocaleString('en-US')} pages (minimum ${minPageCount.toLocaleString('en-US')})`;
+        } else if (row.fragmentationPercent < reorganizeThreshold) {
+            step.reason = `${fragmentation}, below the ${formatPercent(reorganizeThreshold)} reorganize threshold`;
+        } else {
+            const target = `${quoteIdentifier(row.indexName)} ON ${quoteIdentifier(row.schemaName)}.${quoteIdentifier(row.tableName)}`;
+
+            if (row.fragmentationPercent >= rebuildThreshold) {
+                step.action = 'REBUILD';
+                step.reason = `${fragmentation}, at or above the ${formatPercent(rebuildThreshold)} rebuild threshold`;
+                step.fillFactor = suggestFillFactor(row.fillFactor, sequentialKey);
+                step.statement = `ALTER INDEX ${target} REBUILD WITH (${[`FILLFACTOR = ${step.fillFactor}`, ...rebuildOptions].join(', ')});`;
+            } else {
+                step.action = 'REORGANIZE';
+                step.reason = `${fragmentation}, at or above the ${formatPercent(reorganizeThreshold)} reorganize threshold`;
+                step.statement = `ALTER INDEX ${target} REORGANIZE;`;
+            }
+        }
+        return step;
+    });
+
+    const actions = steps
+        .filter(step => step.action !== 'NONE')
+        .sort((a, b) => b.priority - a.priority);
+    const skipped = steps.filter(step => step.action === 'NONE');
+
+    return {
+        steps: [...actions, ...skipped],
+        script: formatScript(actions, skipped, reorganizeThreshold, rebuildThreshold, minPageCount),
+    };
+}
+
+/**
+ * Fill factor for rebuilding an index: full pages for sequential keys, free space
+ * for random ones, and more of it when the current fill factor was not enough
+ */
+function suggestFillFactor(current: number | undefined, sequentialKey: boolean): number {
+    if (sequentialKey) {
+        return 100;
+    }
+
+    const effective = current === undefined || current === 0 ? 100 : current;
+    return effective >= 100 ? 90 : Math.max(MIN_RANDOM_FILL_FACTOR, effective - 10);
+}
+
+function formatScript(
+    actions: IndexMaintenanceStep[],
+    skipped: IndexMaintenanceStep[],
+    reorganizeThreshold: number,
+    rebuildThreshold: number,
+    minPageCount: number
+): string {
+    const rebuilds = actions.filter(step => step.action === 'REBUILD').length;
+    const lines = [
+        `-- Index maintenance plan: ${rebuilds} rebuild(s), ${actions.length - rebuilds} reorganization(s), ${skipped.length} skipped`,
+        `-- REORGANIZE from ${formatPercent(reorganizeThreshold)}, REBUILD from ${formatPercent(rebuildThreshold)} fragmentation; `
+            + `indexes under ${minPageCount.toLocaleString('en-US')} pages are skipped`,
+    ];
+
+    actions.forEach((step, i) => {
+        lines.push(
+            '',
+            `-- ${i + 1}. ${describeIndex(step)}: ${step.reason}, ${step.pageCount.toLocaleString('en-US')} pages`,
+        );
+        if (step.fillFactor !== undefined) {
+            lines.push(step.sequentialKey
+                ? `--    FILLFACTOR ${step.fillFactor}: sequential key, new rows only go to the last page`
+                : `--    FILLFACTOR ${step.fillFactor}: random key, leaves room for inserts between existing rows`);
+        }
+        lines.push(step.statement!, 'GO');
+    });
+
+    if (skipped.length > 0) {
+        lines.push('', '-- Skipped:');
+        for (const step of skipped) {
+            lines.push(`--    ${describeIndex(step)}: ${step.reason}`);
+        }
+    }
+    return lines.join('\n');
+}
+
+function describeIndex(step: IndexMaintenanceStep): string {
+    const table = `${quoteIdentifier(step.schemaName)}.${quoteIdentifier(step.tableName)}`;
+    return step.indexName === null ? table : `${table}.${quoteIdentifier(step.indexName)}`;
+}
+
+type ValidatedRow = Omit<IndexPhysicalStats, 'schemaName'> & { schemaName: string };
+
+function validateRow(row: IndexPhysicalStats, index: number): ValidatedRow {
+    const where = `Row ${index + 1}`;
+    if (!row || typeof row !== 'object') {
+        throw new Error(`${where}: must be an object`);
+    }
+    if (typeof row.tableName !== 'string' || row.tableName.length === 0) {
+        throw new Error(`${where}: tableName is required`);
+    }
+    if (row.indexName !== null && typeof row.indexName !== 'string') {
+        throw new Error(`${where}: indexName must be a string, or null for a heap`);
+    }
+    if (!isPercentage(row.fragmentationPercent)) {
+        throw new Error(`${where}: fragmentationPercent must be between 0 and 100`);
+    }
+    if (!Number.isInteger(row.pageCount) || row.pageCount < 0) {
+        throw new Error(`${where}: pageCount must be a non-negative integer`);
+    }
+    if (row.fillFactor !== undefined && (!Number.isInteger(row.fillFactor) || row.fillFactor < 0 || row.fillFactor > 100)) {
+        throw new Error(`${where}: fillFactor must be an integer between 0 and 100`);
+    }
+
+    // Validates the names here so a bad row is reported by number
+    const schemaName = row.schemaName ?? 'dbo';
+    quoteIdentifier(schemaName);
+    quoteIdentifier(row.tableName);
+    if (row.indexName !== null) {
+        quoteIdentifier(row.indexName);
+    }
+    return { ...row, schemaName };
+}
+
+/**
+ * Merges the rows of partitioned indexes and of LOB allocation units into one row
+ * per index, weighting fragmentation by page count
+ */
+function combineRows(rows: ValidatedRow[]): ValidatedRow[] {
+    const byIndex = new Map<string, ValidatedRow>();
+    for (const row of rows) {
+        const key = JSON.stringify([row.schemaName, row.tableName, row.indexName]);
+        const existing = byIndex.get(key);
+        if (!existing) {
+            byIndex.set(key, { ...row });
+            continue;
+        }
+
+        const pageCount = existing.pageCount + row.pageCount;
+        existing.fragmentationPercent = pageCount === 0
+            ? Math.max(existing.fragmentationPercent, row.fragmentationPercent)
+            : (existing.fragmentationPercent * existing.pageCount + row.fragmentationPercent * row.pageCount) / pageCount;
+        existing.pageCount = pageCount;
+        existing.sequentialKey = existing.sequentialKey ?? row.sequentialKey;
+        existing.fillFactor = existing.fillFactor ?? row.fillFactor;
+    }
+    return [...byIndex.values()];
+}
+
+function toIndexStats(rows: unknown[]): IndexPhysicalStats[] {
+    return rows.map((row, i) => {
+        if (!row || typeof row !== 'object') {
+            throw new Error(`Row ${i + 1}: must be an object`);
+        }
+
+        const values = new Map<string, unknown>();
+        for (const [column, value] of Object.entries(row)) {
+            values.set(column.toLowerCase().replace(/[^a-z]/g, ''), value);
+        }
+        const field = (name: keyof IndexPhysicalStats): unknown => {
+            const alias = COLUMN_ALIASES[name].find(candidate => values.has(candidate));
+            const value = alias === undefined ? undefined : values.get(alias);
+            return value === '' || (typeof value === 'string' && value.toUpperCase() === 'NULL') ? null : value;
+        };
+
+        const tableName = field('tableName');
+        const indexName = field('indexName');
+        if (typeof tableName !== 'string') {
+            throw new Error(`Row ${i + 1}: missing a TableName column`);
+        }
+
+        return {
+            schemaName: optional(field('schemaName'), String),
+            tableName,
+            indexName: indexName === undefined || indexName === null ? null : String(indexName),
+            indexType: optional(field('indexType'), String),
+            fragmentationPercent: toNumber(field('fragmentationPercent'), 'avg_fragmentation_in_percent', i),
+            pageCount: toNumber(field('pageCount'), 'page_count', i),
+            fillFactor: optional(field('fillFactor'), value => toNumber(value, 'fill_factor', i)),
+            sequentialKey: optional(field('sequentialKey'), value => toBoolean(value, i)),
+        };
+    });
+}
+
+function optional<T>(value: unknown, convert: (value: unknown) => T): T | undefined {
+    return value === undefined || value === null ? undefined : convert(value);
+}
+
+function toNumber(value: unknown, column: string, index: number): number {
+    const number = typeof value === 'string' && value.trim().length > 0 ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+        throw new Error(`Row ${index + 1}: ${column} must be a number`);
+    }
+    return number;
+}
+
+function toBoolean(value: unknown, index: number): boolean {
+    if (typeof value === 'boolean') {
+        return value;
+    }
+
+    const text = String(value).trim().toLowerCase();
+    if (['true', '1', 'yes'].includes(text)) {
+        return true;
+    }
+    if (['false', '0', 'no'].includes(text)) {
+        return false;
+    }
+    throw new Error(`Row ${index + 1}: sequential key must be true or false`);
+}
+
+/**
+ * Splits one line of delimited text, honouring double-quoted values. Errors name
+ * the line by `where` rather than quoting it.
+ */
+function splitDelimited(line: string, delimiter: string, where: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+    let wasQuoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (quoted) {
+            if (char === '"' && line[i + 1] === '"') {
+                current += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                current += char;
+            }
+        } else if (char === '"' && current.trim().length === 0) {
+            quoted = true;
+            wasQuoted = true;
+            current = '';
+        } else if (char === delimiter) {
+            values.push(wasQuoted ? current : current.trim());
+            current = '';
+            wasQuoted = false;
+        } else if (wasQuoted) {
+            if (char.trim().length > 0) {
+                throw new Error(`Unexpected text after a quoted value in ${where}`);
+            }
+        } else {
+            current += char;
+        }
+    }
+
+    if (quoted) {
+        throw new Error(`Unterminated quoted value in ${where}`);
+    }
+    values.push(wasQuoted ? current : current.trim());
+    return values;
+}
+
+function isPercentage(value: unknown): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+}
+
+function formatPercent(value: number): string {
+    return `${Number(value.toFixed(1))}%`;
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for the primary key migration script generator
+ */
+
+import { createBackfillGuid, generateKeyMigration, KeyMigrationDefinition } from './KeyMigration';
+import { classifyGuid } from './GuidClassifier';
+import { compareGuids } from './SqlDialect';
+import { SequentialGuidGenerator } from './SequentialGuidGenerator';
+import { SqlIdentifierError } from './SqlIdentifier';
+import { createFixedClock } from './testing';
+
+describe('KeyMigration', () => {
+  const orders: KeyMigrationDefinition = {
+    table: 'sales.Orders',
+    keyColumn: 'OrderId',
+    keyType: 'INT',
+    referencingKeys: [
+      { table: 'sales.OrderLines', column: 'OrderId', constraintName: 'FK_OrderLines_Orders', onDelete: 'CASCADE', indexName: 'IX_OrderLines_OrderId' },
+      { table: 'Shipments', column: 'OrderId', constraintName: 'FK_Shipments_Orders', nullable: true },
+    ],
+    batchSize: 5000,
+    fillFactor: 95,
+  };
+
+  describe('createBackfillGuid', () => {
+    const batchTime = Date.parse('2025-06-01T12:00:00.000Z');
+
+    it('should produce keys in this package\'s sqlserver layout', () => {
+      const guid = createBackfillGuid(batchTime, 0x01020304, Buffer.from('AABBCCDDEEFF', 'hex'));
+      const result = classifyGuid(guid, { now: batchTime });
+
+      expect(result.type).toBe('sequential');
+      expect(result.fields).toMatchObject({ layout: 'sqlserver', timestampMs: batchTime });
+    });
+
+    it('should sort by batch, then row number, then after later generated GUIDs', () => {
+      const random = Buffer.from('FFFFFFFFFFFF', 'hex');
+      const keys = [
+        createBackfillGuid(batchTime, 1, random),
+        createBackfillGuid(batchTime, 2),
+        createBackfillGuid(batchTime, 300, random),
+        createBackfillGuid(batchTime, 70000),
+        createBackfillGuid(batchTime + 1, 1),
+      ];
+      const generated = new SequentialGuidGenerator({ layout: 'sqlserver', clock: createFixedClock(batchTime + 2) }).generate();
+
+      for (const [a, b] of [...keys.slice(1), generated].map((key, i) => [keys[i], key])) {
+        expect(compareGuids(a, b, 'sqlserver')).toBeLessThan(0);
+      }
+    });
+
+    it('should validate its arguments', () => {
+      expect(() => createBackfillGuid(batchTime, 0)).toThrow('Row number');
+      expect(() => createBackfillGuid(Date.UTC(1899, 0, 1), 1)).toThrow('Timestamp');
+      expect(() => createBackfillGuid(batchTime, 1, new Uint8Array(5))).toThrow('exactly 6 bytes');
+    });
+  });
+
+  describe('generateKeyMigration', () => {
+    it('should produce five phases with verification queries', () => {
+      const { phases, script } = generateKeyMigration(orders);
+
+      expect(phases.map(phase => phase.phase)).toEqual([1, 2, 3, 4, 5]);
+      for (const phase of phases) {
+        expect(script).toContain(`-- Phase ${phase.phase}: ${phase.name}\n${phase.script}\nGO\n-- Verify phase ${phase.phase}\n${phase.verification}\nGO`);
+      }
+    });
+
+    it('should add the new columns only before the swap', () => {
+      const [addColumns] = generateKeyMigration(orders).phases;
+
+      expect(addColumns.script).toContain(
+        "IF COL_LENGTH(N'[sales].[Orders]', N'OrderId_New') IS NULL AND COL_LENGTH(N'[sales].[Orders]', N'OrderId_Old') IS NULL\n"
+        + '    ALTER TABLE [sales].[Orders] ADD [OrderId_New] UNIQUEIDENTIFIER NULL;'
+      );
+      expect(addColumns.script).toContain('ALTER TABLE [dbo].[Shipments] ADD [OrderId_New] UNIQUEIDENTIFIER NULL;');
+    });
+
+    it('should backfill in batches through guarded dynamic SQL', () => {
+      const backfill = generateKeyMigration({ ...orders, orderBy: ['CreatedAt'] }).phases[1];
+
+      expect(backfill.script).toMatch(/^IF COL_LENGTH\(N'\[sales\]\.\[Orders\]', N'OrderId_New'\) IS NOT NULL\n    EXEC sp_executesql N'/);
+      expect(backfill.script).toContain("DATEDIFF_BIG(MILLISECOND, ''19000101'', SYSUTCDATETIME())");
+      expect(backfill.script).toContain('ROW_NUMBER() OVER (ORDER BY [CreatedAt], [OrderId])');
+      expect(backfill.script).toMatch(/N'@BatchSize INT', @BatchSize = 5000;$/);
+      expect(backfill.verification).toContain('OutOfOrderKeys');
+    });
+
+    it('should map child rows through the parent key', () => {
+      const children = generateKeyMigration(orders).phases[2];
+
+      expect(children.script).toContain('INNER JOIN [sales].[Orders] AS parent ON parent.[OrderId] = child.[OrderId]');
+      expect(children.script).toContain('FROM [dbo].[Shipments] AS child');
+      expect(children.verification).toContain('UnmappedRows');
+    });
+
+    it('should swap columns and constraints in one checked transaction', () => {
+      const swap = generateKeyMigration(orders).phases[3].script;
+      const order = [
+        'SET XACT_ABORT ON;',
+        'run phase 2 again',
+        'BEGIN TRANSACTION;',
+        'DROP CONSTRAINT [FK_OrderLines_Orders]',
+        "IF OBJECT_ID(N'[dbo].[FK_Shipments_Orders]', N'F') IS NOT NULL",
+        'DROP CONSTRAINT [PK_Orders]',
+        "EXEC sp_rename N'[sales].[Orders].[OrderId]', N'OrderId_Old', N'COLUMN';",
+        "EXEC sp_rename N'[sales].[Orders].[OrderId_New]', N'OrderId', N'COLUMN';",
+        'ADD CONSTRAINT [PK_Orders] PRIMARY KEY CLUSTERED ([OrderId] ASC) WITH (FILLFACTOR = 95);',
+        'ALTER TABLE [sales].[OrderLines] ALTER COLUMN [OrderId_Old] INT NULL;',
+        'FOREIGN KEY ([OrderId]) REFERENCES [sales].[Orders] ([OrderId]) ON DELETE CASCADE;',
+        'CREATE NONCLUSTERED INDEX [IX_OrderLines_OrderId] ON [sales].[OrderLines] ([OrderId] ASC);',
+        'ALTER TABLE [dbo].[Shipments] ALTER COLUMN [OrderId] UNIQUEIDENTIFIER NULL;',
+        'COMMIT TRANSACTION;',
+      ].map(fragment => swap.indexOf(fragment));
+
+      expect(order).not.toContain(-1);
+      expect([...order].sort((a, b) => a - b)).toEqual(order);
+      // IDENTITY columns cannot be made nullable
+      expect(swap).not.toContain('[OrderId_Old] UNIQUEIDENTIFIER NULL');
+    });
+
+    it('should make a random GUID key nullable once it is replaced', () => {
+      const swap = generateKeyMigration({ table: 'Customers', keyColumn: 'Id', keyType: 'UNIQUEIDENTIFIER', clustered: false }).phases[3].script;
+
+      expect(swap).toContain('ALTER TABLE [dbo].[Customers] ALTER COLUMN [Id_Old] UNIQUEIDENTIFIER NULL;');
+      expect(swap).toContain('PRIMARY KEY NONCLUSTERED ([Id] ASC);');
+    });
+
+    it('should rebuild every table involved', () => {
+      const rebuild = generateKeyMigration({ ...orders, online: true }).phases[4];
+
+      expect(rebuild.script).toBe([
+        'ALTER INDEX ALL ON [sales].[Orders] REBUILD WITH (FILLFACTOR = 95, ONLINE = ON);',
+        'ALTER INDEX ALL ON [sales].[OrderLines] REBUILD WITH (FILLFACTOR = 95, ONLINE = ON);',
+        'ALTER INDEX ALL ON [dbo].[Shipments] REBUILD WITH (FILLFACTOR = 95, ONLINE = ON);',
+      ].join('\n'));
+      expect(rebuild.verification).toContain('sys.dm_db_index_physical_stats');
+    });
+
+    it('should keep hostile names inside quotes, including nested dynamic SQL', () => {
+      const { script } = generateKeyMigration({
+        table: "[Orders'; DROP TABLE Users; --]",
+        keyColumn: "[Id]]'); DROP TABLE Users; --]",
+        keyType: 'INT',
+        referencingKeys: [{ table: 'Lines', column: "Order'Id", constraintName: "FK'; DROP TABLE Users; --" }],
+      });
+      const strip = (sql: string) => sql.replace(/\[(?:[^\]]|\]\])*\]|N?'(?:[^']|'')*'/g, '<quoted>');
+      const batches = [script];
+      const dynamic = /sp_executesql N'((?:[^']|'')*)'/g;
+      for (let match = dynamic.exec(script); match; match = dynamic.exec(script)) {
+        batches.push(match[1].split("''").join("'"));
+      }
+
+      expect(batches.length).toBeGreaterThan(5);
+      for (const sql of batches) {
+        expect(strip(sql)).not.toMatch(/DROP TABLE/);
+      }
+    });
+
+    it.each([
+      [{ ...orders, keyType: 'VARCHAR' }, 'Key type must be one of'],
+      [{ ...orders, batchSize: 0 }, 'Batch size must be an integer'],
+      [{ ...orders, fillFactor: 101 }, 'Fill factor must be an integer'],
+      [{ ...orders, orderBy: [] }, 'orderBy needs at least one column'],
+      [{ ...orders, referencingKeys: [{ table: 'T', column: 'C', constraintName: 'FK', onDelete: 'DROP' }] }, 'Referential action'],
+    ])('should reject invalid definition %#', (definition, message) => {
+      expect(() => generateKeyMigration(definition as KeyMigrationDefinition)).toThrow(message);
+    });
+
+    it('should reject names that cannot be quoted safely', () => {
+      expect(() => generateKeyMigration({ ...orders, table: 'db.sales.Orders' })).toThrow(SqlIdentifierError);
+      expect(() => generateKeyMigration({ ...orders, keyColumn: 'Id\n; DROP TABLE x' })).toThrow(SqlIdentifierError);
+    });
+  });
+});
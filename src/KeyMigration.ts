@@ -0,0 +1,483 @@
+/**
+ * Phased T-SQL migration of an INT IDENTITY or random GUID primary key to
+ * sequential GUIDs
+ *
+ * generateKeyMigration() takes the current key and the foreign keys referencing it
+ * and produces five phases, each followed by verification queries:
+ *   1. add a nullable `<key>_New` UNIQUEIDENTIFIER column to the table and children
+ *   2. backfill it in batches, in key (or `orderBy`) order
+ *   3. copy the new keys into the child tables in batches
+ *   4. in one transaction, rename `<key>` to `<key>_Old` and `<key>_New` to `<key>`,
+ *      then recreate the primary key and foreign keys on the new columns
+ *   5. rebuild the indexes of every table involved
+ *
+ * Every phase is guarded by the state it leaves behind, so the whole script can be
+ * run again after a failure or to pick up rows inserted since the last run.
+ * Statements that read columns which may not exist yet (or any more) run through
+ * sp_executesql, because SQL Server resolves DML columns when a batch compiles.
+ *
+ * Backfilled keys use this package's sqlserver layout: the batch's UTC time in ms
+ * since 1900-01-01 in the bytes SQL Server compares first, then the row number in
+ * the batch where the generator keeps its machine ID and sequence, then random
+ * bytes. They sort in the order rows were backfilled and before any GUID generated
+ * afterwards, so new inserts keep appending to the end of the index.
+ */
+
+import { parseMultipartName, quoteIdentifier, quoteString } from './SqlIdentifier.js';
+import { REFERENTIAL_ACTIONS, ReferentialAction } from './TableDdl.js';
+import { fromBytes } from './GuidBytes.js';
+
+export type KeyMigrationSourceType = 'INT' | 'BIGINT' | 'SMALLINT' | 'UNIQUEIDENTIFIER';
+
+export const KEY_MIGRATION_SOURCE_TYPES: readonly KeyMigrationSourceType[] = ['INT', 'BIGINT', 'SMALLINT', 'UNIQUEIDENTIFIER'];
+
+export interface ReferencingKeyDefinition {
+    /** Child table, optionally schema-qualified */
+    table: string;
+    /** Foreign key column in the child table */
+    column: string;
+    /** Name of the existing foreign key constraint */
+    constraintName: string;
+    /** Whether the foreign key column allows NULL. Defaults to false. */
+    nullable?: boolean;
+    onDelete?: ReferentialAction;
+    onUpdate?: ReferentialAction;
+    /** Index on the foreign key column, recreated on the new column */
+    indexName?: string;
+}
+
+export interface KeyMigrationDefinition {
+    /** Table whose key is migrated, optionally schema-qualified */
+    table: string;
+    /** Current primary key column */
+    keyColumn: string;
+    /** Current key type */
+    keyType: KeyMigrationSourceType;
+    /** Name of the primary key constraint. Defaults to PK_<table>. */
+    primaryKeyName?: string;
+    /** Whether the new primary key is clustered. Defaults to true. */
+    clustered?: boolean;
+    /**
+     * Columns giving the order of the backfilled keys. Defaults to the key column;
+     * pass a creation time column when migrating from random GUIDs.
+     */
+    orderBy?: string[];
+    referencingKeys?: ReferencingKeyDefinition[];
+    /** Rows updated per batch in phases 2 and 3. Defaults to 10,000. */
+    batchSize?: number;
+    /** Fill factor for the new primary key and the index rebuilds */
+    fillFactor?: number;
+    /** Rebuild indexes with ONLINE = ON (Enterprise edition). Defaults to false. */
+    online?: boolean;
+}
+
+export interface KeyMigrationPhase {
+    phase: number;
+    name: string;
+    script: string;
+    verification: string;
+}
+
+export interface KeyMigrationScript {
+    phases: KeyMigrationPhase[];
+    /** All phases as one script, separated by GO */
+    script: string;
+}
+
+const MAX_BATCH_SIZE = 1000000;
+
+const EPOCH_MS = Date.UTC(1900, 0, 1);
+
+interface TableName {
+    /** Quoted, schema-qualified name */
+    sql: string;
+    /** The quoted name as a string literal, for OBJECT_ID and COL_LENGTH */
+    literal: string;
+    schema: string;
+    name: string;
+}
+
+interface ResolvedReference {
+    table: TableName;
+    column: string;
+    constraintName: string;
+    nullable: boolean;
+    onDelete: ReferentialAction;
+    onUpdate: ReferentialAction;
+    indexName?: string;
+}
+
+/**
+ * Generates the phased migration script for a primary key and its foreign keys
+ */
+export function generateKeyMigration(definition: KeyMigrationDefinition): KeyMigrationScript {
+    if (!definition || typeof definition !== 'object') {
+        throw new Error('Key migration definition must be an object');
+    }
+
+    const table = resolveTableName(definition.table);
+    const key = parseMultipartName(definition.keyColumn)[0];
+    const keyType = typeof definition.keyType === 'string' ? definition.keyType.toUpperCase() as KeyMigrationSourceType : definition.keyType;
+    if (!KEY_MIGRATION_SOURCE_TYPES.includes(keyType)) {
+        throw new Error(`Key type must be one of: ${KEY_MIGRATION_SOURCE_TYPES.join(', ')}`);
+    }
+
+    const batchSize = definition.batchSize ?? 10000;
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > MAX_BATCH_SIZE) {
+        throw new Error(`Batch size must be an integer between 1 and ${MAX_BATCH_SIZE}`);
+    }
+
+    const fillFactor = definition.fillFactor;
+    if (fillFactor !== undefined && (!Number.isInteger(fillFactor) || fillFactor < 1 || fillFactor > 100)) {
+        throw new Error('Fill factor must be an integer between 1 and 100');
+    }
+
+    const orderBy = definition.orderBy !== undefined ? definition.orderBy.map(column => parseMultipartName(column)[0]) : [key];
+    if (orderBy.length === 0) {
+        throw new Error('orderBy needs at least one column');
+    }
+    if (!orderBy.includes(key)) {
+        // Ties in the order columns still get a deterministic order
+        orderBy.push(key);
+    }
+
+    const references = (definition.referencingKeys ?? []).map(reference => resolveReference(reference));
+    const primaryKeyName = parseMultipartName(definition.primaryKeyName ?? `PK_${table.name}`)[0];
+
+    const phases = [
+        addColumnsPhase(table, key, references),
+        backfillPhase(table, key, orderBy, batchSize),
+        childTablesPhase(table, key, references, batchSize),
+        swapPhase(table, key, keyType, primaryKeyName, definition.clustered ?? true, fillFactor, references),
+        rebuildPhase(table, references, fillFactor, definition.online ?? false),
+    ];
+
+    const header = [
+        `-- Migrate ${table.sql}.${quoteIdentifier(key)} from ${keyType} to sequential UNIQUEIDENTIFIER keys`,
+        '-- Every phase is re-runnable; run phases 2 and 3 again to pick up rows inserted meanwhile.',
+        '-- Afterwards generate new keys with the sqlserver layout, and drop the _Old columns once nothing reads them.',
+    ].join('\n');
+
+    return {
+        phases,
+        script: [header, ...phases.map(phase => [
+            `-- Phase ${phase.phase}: ${phase.name}`,
+            phase.script,
+            'GO',
+            `-- Verify phase ${phase.phase}`,
+            phase.verification,
+            'GO',
+        ].join('\n'))].join('\n\n'),
+    };
+}
+
+/**
+ * Returns the key the backfill phase assigns to a row, for checking migrated values
+ *
+ * @param timestamp - Time of the batch that backfilled the row
+ * @param rowNumber - 1-based position of the row in its batch
+ * @param randomBytes - The 6 random bytes; defaults to zeros
+ */
+export function createBackfillGuid(timestamp: Date | number, rowNumber: number, randomBytes: Uint8Array = new Uint8Array(6)): string {
+    const ms = (timestamp instanceof Date ? timestamp.getTime() : timestamp) - EPOCH_MS;
+    if (!Number.isInteger(ms) || ms < 0 || ms >= 2 ** 48) {
+        throw new Error('Timestamp must be a whole millisecond between 1900 and 10819');
+    }
+    if (!Number.isInteger(rowNumber) || rowNumber < 1 || rowNumber > 0xFFFFFFFF) {
+        throw new Error('Row number must be an integer between 1 and 4294967295');
+    }
+    if (randomBytes.length !== 6) {
+        throw new Error('Random bytes must be exactly 6 bytes');
+    }
+
+    // Same byte concatenation as the backfill UPDATE, in SQL Server's binary order
+    const row = Buffer.alloc(4);
+    row.writeUInt32BE(rowNumber);
+    const time = Buffer.alloc(6);
+    time.writeUIntBE(ms, 0, 6);
+
+    return fromBytes(Buffer.concat([randomBytes, row.subarray(2, 4), row.subarray(0, 2), time]), { order: 'sqlserver' });
+}
+
+function addColumnsPhase(table: TableName, key: string, references: ResolvedReference[]): KeyMigrationPhase {
+    const targets = [{ table, column: key }, ...references.map(reference => ({ table: reference.table, column: reference.column }))];
+
+    return {
+        phase: 1,
+        name: 'Add the new UNIQUEIDENTIFIER columns',
+        script: targets.map(target => [
+            `IF ${columnMissing(target.table, `${target.column}_New`)} AND ${columnMissing(target.table, `${target.column}_Old`)}`,
+            `    ALTER TABLE ${target.table.sql} ADD ${quoteIdentifier(`${target.column}_New`)} UNIQUEIDENTIFIER NULL;`,
+        ].join('\n')).join('\n\n'),
+        verification: [
+            '-- Expect 16 for every column until phase 4 renames them',
+            targets.map(target => `SELECT ${target.table.literal} AS TableName, ${quoteString(`${target.column}_New`)} AS ColumnName, `
+                + `COL_LENGTH(${target.table.literal}, ${quoteString(`${target.column}_New`)}) AS ColumnLength`).join('\nUNION ALL\n') + ';',
+        ].join('\n'),
+    };
+}
+
+function backfillPhase(table: TableName, key: string, orderBy: string[], batchSize: number): KeyMigrationPhase {
+    const newKey = quoteIdentifier(`${key}_New`);
+    const order = orderBy.map(column => quoteIdentifier(column)).join(', ');
+
+    const backfill = `DECLARE @Rows INT = 1, @Timestamp BIGINT, @LastTimestamp BIGINT = 0;
+
+WHILE @Rows > 0
+BEGIN
+    -- One timestamp per batch, strictly increasing, so batches sort in the order they ran
+    SET @Timestamp = DATEDIFF_BIG(MILLISECOND, '19000101', SYSUTCDATETIME());
+    IF @Timestamp <= @LastTimestamp
+        SET @Timestamp = @LastTimestamp + 1;
+    SET @LastTimestamp = @Timestamp;
+
+    WITH batch AS (
+        SELECT TOP (@BatchSize) ${newKey}, ROW_NUMBER() OVER (ORDER BY ${order}) AS RowNumber
+        FROM ${table.sql}
+        WHERE ${newKey} IS NULL
+        ORDER BY ${order}
+    )
+    UPDATE batch
+    SET ${newKey} = CONVERT(UNIQUEIDENTIFIER,
+        SUBSTRING(CONVERT(BINARY(16), NEWID()), 1, 6)
+        + SUBSTRING(CONVERT(BINARY(4), RowNumber), 3, 2)
+        + SUBSTRING(CONVERT(BINARY(4), RowNumber), 1, 2)
+        + CONVERT(BINARY(6), @Timestamp));
+
+    SET @Rows = @@ROWCOUNT;
+END`;
+
+    const verification = `SELECT
+    COUNT_BIG(*) AS TotalRows,
+    COUNT_BIG(${newKey}) AS BackfilledRows,
+    COUNT_BIG(*) - COUNT_BIG(${newKey}) AS RemainingRows,
+    COUNT_BIG(DISTINCT ${newKey}) AS DistinctKeys
+FROM ${table.sql};
+
+-- Keys out of order relative to ${order}; expect 0
+SELECT COUNT_BIG(*) AS OutOfOrderKeys
+FROM (
+    SELECT ${newKey}, LAG(${newKey}) OVER (ORDER BY ${order}) AS PreviousKey
+    FROM ${table.sql}
+    WHERE ${newKey} IS NOT NULL
+) AS keys
+WHERE keys.PreviousKey > keys.${newKey};`;
+
+    return {
+        phase: 2,
+        name: `Backfill ${table.sql}.${newKey} in batches of ${batchSize}`,
+        script: `IF ${columnExists(table, `${key}_New`)}\n    ${dynamicSql(backfill, `N'@BatchSize INT', @BatchSize = ${batchSize}`)};`,
+        verification: `IF ${columnExists(table, `${key}_New`)}\n    ${dynamicSql(verification)};`,
+    };
+}
+
+function childTablesPhase(table: TableName, key: string, references: ResolvedReference[], batchSize: number): KeyMigrationPhase {
+    if (references.length === 0) {
+        return {
+            phase: 3,
+            name: 'Update child tables',
+            script: '-- No foreign keys reference this table',
+            verification: '-- Nothing to verify',
+        };
+    }
+
+    const parentNewKey = quoteIdentifier(`${key}_New`);
+    const guard = (reference: ResolvedReference) => `IF ${columnExists(table, `${key}_New`)} AND ${columnExists(reference.table, `${reference.column}_New`)}`;
+
+    return {
+        phase: 3,
+        name: `Copy the new keys into child tables in batches of ${batchSize}`,
+        script: references.map(reference => {
+            const column = quoteIdentifier(reference.column);
+            const newColumn = quoteIdentifier(`${reference.column}_New`);
+            const update = `DECLARE @Rows INT = 1;
+
+WHILE @Rows > 0
+BEGIN
+    UPDATE TOP (@BatchSize) child
+    SET child.${newColumn} = parent.${parentNewKey}
+    FROM ${reference.table.sql} AS child
+    INNER JOIN ${table.sql} AS parent ON parent.${quoteIdentifier(key)} = child.${column}
+    WHERE child.${newColumn} IS NULL
+        AND parent.${parentNewKey} IS NOT NULL;
+
+    SET @Rows = @@ROWCOUNT;
+END`;
+            return `${guard(reference)}\n    ${dynamicSql(update, `N'@BatchSize INT', @BatchSize = ${batchSize}`)};`;
+        }).join('\n\n'),
+        verification: [
+            '-- Child rows still missing their new key; expect 0 before phase 4',
+            ...references.map(reference => {
+                const query = `SELECT ${quoteString(reference.table.sql)} AS TableName, COUNT_BIG(*) AS UnmappedRows
+FROM ${reference.table.sql}
+WHERE ${quoteIdentifier(reference.column)} IS NOT NULL
+    AND ${quoteIdentifier(`${reference.column}_New`)} IS NULL;`;
+                return `${guard(reference)}\n    ${dynamicSql(query)};`;
+            }),
+        ].join('\n'),
+    };
+}
+
+function swapPhase(
+    table: TableName,
+    key: string,
+    keyType: KeyMigrationSourceType,
+    primaryKeyName: string,
+    clustered: boolean,
+    fillFactor: number | undefined,
+    references: ResolvedReference[]
+): KeyMigrationPhase {
+    const keyColumn = quoteIdentifier(key);
+    const newKey = `${key}_New`;
+    const oldKey = `${key}_Old`;
+    const primaryKey = quoteIdentifier(primaryKeyName);
+    const objectLiteral = (schema: string, name: string) => quoteString(`${quoteIdentifier(schema)}.${quoteIdentifier(name)}`);
+
+    const checks = [
+        `IF EXISTS (SELECT 1 FROM ${table.sql} WHERE ${quoteIdentifier(newKey)} IS NULL)
+    THROW 50000, ${quoteString(`${table.sql} has rows without ${newKey}; run phase 2 again`)}, 1;`,
+        ...references.map(reference => `IF EXISTS (SELECT 1 FROM ${reference.table.sql} WHERE ${quoteIdentifier(reference.column)} IS NOT NULL AND ${quoteIdentifier(`${reference.column}_New`)} IS NULL)
+    THROW 50000, ${quoteString(`${reference.table.sql} has rows without ${reference.column}_New; run phase 3 again`)}, 1;`),
+    ].join('\n');
+
+    const rename = (target: TableName, from: string, to: string) =>
+        `    EXEC sp_rename ${quoteString(`${target.sql}.${quoteIdentifier(from)}`)}, ${quoteString(to)}, N'COLUMN';`;
+
+    const lines = [
+        'SET XACT_ABORT ON;',
+        '',
+        `IF ${columnExists(table, newKey)}`,
+        'BEGIN',
+        '    -- Stop before changing anything if phase 2 or 3 has rows left',
+        `    ${dynamicSql(checks)};`,
+        '',
+        '    BEGIN TRANSACTION;',
+        '',
+        ...references.map(reference => [
+            `    IF OBJECT_ID(${objectLiteral(reference.table.schema, reference.constraintName)}, N'F') IS NOT NULL`,
+            `        ALTER TABLE ${reference.table.sql} DROP CONSTRAINT ${quoteIdentifier(reference.constraintName)};`,
+        ].join('\n')),
+        `    IF OBJECT_ID(${objectLiteral(table.schema, primaryKeyName)}, N'PK') IS NOT NULL`,
+        `        ALTER TABLE ${table.sql} DROP CONSTRAINT ${primaryKey};`,
+        '',
+        rename(table, key, oldKey),
+        rename(table, newKey, key),
+        ...(keyType === 'UNIQUEIDENTIFIER'
+            // IDENTITY columns cannot be nullable; a GUID key must stop being required
+            ? [`    ALTER TABLE ${table.sql} ALTER COLUMN ${quoteIdentifier(oldKey)} UNIQUEIDENTIFIER NULL;`]
+            : []),
+        `    ALTER TABLE ${table.sql} ALTER COLUMN ${keyColumn} UNIQUEIDENTIFIER NOT NULL;`,
+        `    ALTER TABLE ${table.sql} ADD CONSTRAINT ${primaryKey} PRIMARY KEY ${clustered ? 'CLUSTERED' : 'NONCLUSTERED'} (${keyColumn} ASC)`
+            + `${fillFactor !== undefined ? ` WITH (FILLFACTOR = ${fillFactor})` : ''};`,
+    ];
+
+    for (const reference of references) {
+        const column = quoteIdentifier(reference.column);
+        lines.push(
+            '',
+            rename(reference.table, reference.column, `${reference.column}_Old`),
+            rename(reference.table, `${reference.column}_New`, reference.column),
+            `    ALTER TABLE ${reference.table.sql} ALTER COLUMN ${quoteIdentifier(`${reference.column}_Old`)} ${keyType} NULL;`,
+            `    ALTER TABLE ${reference.table.sql} ALTER COLUMN ${column} UNIQUEIDENTIFIER ${reference.nullable ? 'NULL' : 'NOT NULL'};`,
+            `    ALTER TABLE ${reference.table.sql} WITH CHECK ADD CONSTRAINT ${quoteIdentifier(reference.constraintName)} `
+                + `FOREIGN KEY (${column}) REFERENCES ${table.sql} (${keyColumn})`
+                + (reference.onDelete !== 'NO ACTION' ? ` ON DELETE ${reference.onDelete}` : '')
+                + (reference.onUpdate !== 'NO ACTION' ? ` ON UPDATE ${reference.onUpdate}` : '')
+                + ';'
+        );
+
+        if (reference.indexName) {
+            const index = quoteIdentifier(reference.indexName);
+            lines.push(
+                `    DROP INDEX IF EXISTS ${index} ON ${reference.table.sql};`,
+                `    CREATE NONCLUSTERED INDEX ${index} ON ${reference.table.sql} (${column} ASC);`
+            );
+        }
+    }
+
+    lines.push('', '    COMMIT TRANSACTION;', 'END');
+
+    return {
+        phase: 4,
+        name: 'Swap the key columns and recreate the constraints',
+        script: lines.join('\n'),
+        verification: `-- Expect UNIQUEIDENTIFIER key columns and trusted constraints
+SELECT OBJECT_SCHEMA_NAME(c.object_id) AS SchemaName, OBJECT_NAME(c.object_id) AS TableName, c.name AS ColumnName, TYPE_NAME(c.user_type_id) AS TypeName, c.is_nullable
+FROM sys.columns AS c
+WHERE c.object_id IN (${[table, ...references.map(reference => reference.table)].map(target => `OBJECT_ID(${target.literal})`).join(', ')})
+    AND c.name IN (${unique([key, oldKey, ...references.flatMap(reference => [reference.column, `${reference.column}_Old`])]).map(name => quoteString(name)).join(', ')});
+
+SELECT name AS ConstraintName, type_desc, is_not_trusted = CAST(NULL AS BIT)
+FROM sys.key_constraints
+WHERE parent_object_id = OBJECT_ID(${table.literal}) AND name = ${quoteString(primaryKeyName)}
+UNION ALL
+SELECT name, type_desc, is_not_trusted
+FROM sys.foreign_keys
+WHERE referenced_object_id = OBJECT_ID(${table.literal}) AND name IN (${references.length > 0 ? references.map(reference => quoteString(reference.constraintName)).join(', ') : 'NULL'});`,
+    };
+}
+
+function rebuildPhase(table: TableName, references: ResolvedReference[], fillFactor: number | undefined, online: boolean): KeyMigrationPhase {
+    const tables = Array.from(new Map([table, ...references.map(reference => reference.table)].map(target => [target.sql, target])).values());
+    const options = [
+        fillFactor !== undefined ? `FILLFACTOR = ${fillFactor}` : undefined,
+        online ? 'ONLINE = ON' : undefined,
+    ].filter(option => option !== undefined);
+
+    return {
+        phase: 5,
+        name: 'Rebuild indexes',
+        script: tables.map(target => `ALTER INDEX ALL ON ${target.sql} REBUILD${options.length > 0 ? ` WITH (${options.join(', ')})` : ''};`).join('\n'),
+        verification: `SELECT OBJECT_NAME(ips.object_id) AS TableName, i.name AS IndexName, ips.avg_fragmentation_in_percent, ips.avg_page_space_used_in_percent, ips.page_count
+FROM sys.dm_db_index_physical_stats(DB_ID(), NULL, NULL, NULL, 'SAMPLED') AS ips
+INNER JOIN sys.indexes AS i ON i.object_id = ips.object_id AND i.index_id = ips.index_id
+WHERE ips.object_id IN (${tables.map(target => `OBJECT_ID(${target.literal})`).join(', ')})
+ORDER BY TableName, IndexName;`,
+    };
+}
+
+function resolveReference(reference: ReferencingKeyDefinition): ResolvedReference {
+    if (!reference || typeof reference !== 'object') {
+        throw new Error('Each referencing key must be an object');
+    }
+
+    for (const action of [reference.onDelete, reference.onUpdate]) {
+        if (action !== undefined && !REFERENTIAL_ACTIONS.includes(action)) {
+            throw new Error(`Referential action must be one of: ${REFERENTIAL_ACTIONS.join(', ')}`);
+        }
+    }
+
+    return {
+        table: resolveTableName(reference.table),
+        column: parseMultipartName(reference.column)[0],
+        constraintName: parseMultipartName(reference.constraintName)[0],
+        nullable: reference.nullable ?? false,
+        onDelete: reference.onDelete ?? 'NO ACTION',
+        onUpdate: reference.onUpdate ?? 'NO ACTION',
+        indexName: reference.indexName !== undefined ? parseMultipartName(reference.indexName)[0] : undefined,
+    };
+}
+
+function resolveTableName(tableName: string): TableName {
+    const parts = parseMultipartName(tableName, { maxParts: 2 });
+    const [schema, name] = parts.length === 2 ? parts : ['dbo', parts[0]];
+    const sql = `${quoteIdentifier(schema)}.${quoteIdentifier(name)}`;
+
+    return { sql, literal: quoteString(sql), schema, name };
+}
+
+function columnExists(table: TableName, column: string): string {
+    return `COL_LENGTH(${table.literal}, ${quoteString(column)}) IS NOT NULL`;
+}
+
+function columnMissing(table: TableName, column: string): string {
+    return `COL_LENGTH(${table.literal}, ${quoteString(column)}) IS NULL`;
+}
+
+function dynamicSql(sql: string, parameters?: string): string {
+    return `EXEC sp_executesql ${quoteString(sql)}${parameters ? `, ${parameters}` : ''}`;
+}
+
+function unique<T>(values: T[]): T[] {
+    return Array.from(new Set(values));
+}
@@ -0,0 +1,110 @@
+/**
+ * Tests for machine ID strategies
+ */
+
+import { NetworkInterfaceInfo } from 'os';
+import { resolveMachineId } from './MachineId';
+import { FileGeneratorStateStore } from './GeneratorStateStore';
+import { SequentialGuidGenerator } from './SequentialGuidGenerator';
+
+function nic(mac: string, internal = false): NetworkInterfaceInfo {
+  return { address: '10.0.0.5', netmask: '255.255.255.0', family: 'IPv4', mac, internal, cidr: '10.0.0.5/24' };
+}
+
+describe('resolveMachineId', () => {
+  const interfaces = {
+    lo: [nic('00:00:00:00:00:00', true)],
+    eth1: [nic('02:42:ac:11:00:03')],
+    eth0: [nic('02:42:AC:11:00:02')],
+  };
+
+  it('should read an explicit ID from GUID_MACHINE_ID', () => {
+    const resolved = resolveMachineId('env', { env: { GUID_MACHINE_ID: '0a0b0c0d' } });
+
+    expect(resolved.machineId.toString('hex')).toBe('0a0b0c0d');
+    expect(resolved.strategy).toBe('env');
+  });
+
+  it('should reject a missing or malformed GUID_MACHINE_ID', () => {
+    expect(() => resolveMachineId('env', { env: {} })).toThrow('GUID_MACHINE_ID is not set');
+    expect(() => resolveMachineId('env', { env: { GUID_MACHINE_ID: 'node-1' } })).toThrow('must be 8 hex characters');
+  });
+
+  it('should hash the hostname case-insensitively and deterministically', () => {
+    const first = resolveMachineId('hostname', { hostname: 'db-Replica-01' });
+    const second = resolveMachineId('hostname', { hostname: 'DB-REPLICA-01' });
+    const other = resolveMachineId('hostname', { hostname: 'db-replica-02' });
+
+    expect(first.machineId).toEqual(second.machineId);
+    expect(first.machineId).not.toEqual(other.machineId);
+    expect(first.source).toBe('db-Replica-01');
+  });
+
+  it('should hash the MAC address of the first non-internal interface by name', () => {
+    const resolved = resolveMachineId('mac', { networkInterfaces: interfaces });
+
+    expect(resolved.source).toBe('eth0 02:42:AC:11:00:02');
+    expect(resolved.machineId).toHaveLength(4);
+    expect(() => resolveMachineId('mac', { networkInterfaces: { lo: interfaces.lo } }))
+      .toThrow('No non-internal network interface');
+  });
+
+  it('should place the StatefulSet ordinal in the last two bytes', () => {
+    const pod0 = resolveMachineId('pod-ordinal', { env: { POD_NAME: 'guid-api-0' } });
+    const pod7 = resolveMachineId('pod-ordinal', { env: {}, hostname: 'guid-api-7' });
+
+    expect(pod7.machineId.readUInt16BE(2)).toBe(7);
+    expect(pod7.machineId.subarray(0, 2)).toEqual(pod0.machineId.subarray(0, 2));
+    expect(() => resolveMachineId('pod-ordinal', { env: {}, hostname: 'workstation' }))
+      .toThrow('does not end with a StatefulSet ordinal');
+  });
+
+  it('should try env, pod ordinal, MAC address and hostname in order for auto', () => {
+    expect(resolveMachineId('auto', { env: { GUID_MACHINE_ID: '0A0B0C0D' }, networkInterfaces: interfaces }).strategy).toBe('env');
+    expect(resolveMachineId('auto', {
+      env: { KUBERNETES_SERVICE_HOST: '10.96.0.1' },
+      hostname: 'guid-api-3',
+      networkInterfaces: interfaces,
+    }).strategy).toBe('pod-ordinal');
+    expect(resolveMachineId('auto', { env: {}, hostname: 'guid-api-3', networkInterfaces: interfaces }).strategy).toBe('mac');
+    expect(resolveMachineId('auto', { env: {}, hostname: 'build-agent', networkInterfaces: {} }).strategy).toBe('hostname');
+  });
+});
+
+describe('SequentialGuidGenerator machine ID strategies', () => {
+  it('should report how the machine ID was obtained', () => {
+    expect(new SequentialGuidGenerator().getMachineIdInfo().strategy).toBe('random');
+    expect(new SequentialGuidGenerator({ machineId: Buffer.from('0A0B0C0D', 'hex') }).getMachineIdInfo())
+      .toEqual({ machineId: '0A0B0C0D', strategy: 'explicit' });
+    expect(new SequentialGuidGenerator({
+      machineIdStrategy: 'hostname',
+      hostIdentity: { hostname: 'db-replica-01' },
+    }).getMachineIdInfo()).toEqual({
+      machineId: resolveMachineId('hostname', { hostname: 'db-replica-01' }).machineId.toString('hex').toUpperCase(),
+      strategy: 'hostname',
+      source: 'db-replica-01',
+    });
+  });
+
+  it('should prefer a configured strategy over a persisted machine ID', () => {
+    const store = new FileGeneratorStateStore('/unused');
+    jest.spyOn(store, 'load').mockReturnValue({ machineId: '11111111' });
+    jest.spyOn(store, 'save').mockImplementation(() => undefined);
+
+    expect(new SequentialGuidGenerator({ stateStore: store }).getMachineIdInfo().strategy).toBe('persisted');
+    expect(new SequentialGuidGenerator({
+      stateStore: store,
+      machineIdStrategy: 'env',
+      hostIdentity: { env: { GUID_MACHINE_ID: '0A0B0C0D' } },
+    }).getMachineId()).toBe('0A0B0C0D');
+  });
+
+  it('should extract the machine ID bits from generated GUIDs', () => {
+    const generator = new SequentialGuidGenerator({ machineId: Buffer.from('12345678', 'hex'), layout: 'sqlserver', sequenceBits: 8 });
+
+    expect(SequentialGuidGenerator.extractMachineId(generator.generate(), { layout: 'sqlserver', sequenceBits: 8 }))
+      .toBe('12005678');
+    expect(() => SequentialGuidGenerator.extractMachineId(generator.generate(), { layout: 'comb' }))
+      .toThrow('COMB GUIDs do not encode a machine ID');
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Machine ID strategies
+ *
+ * A random machine ID can collide between replicas and says nothing about which
+ * host issued a GUID. These strategies derive a stable ID from the host instead:
+ * - `env`: explicit 8 hex characters in GUID_MACHINE_ID
+ * - `hostname`: SHA-256 of the hostname
+ * - `mac`: SHA-256 of the first non-internal MAC address (by interface name)
+ * - `pod-ordinal`: Kubernetes StatefulSet pod (`<set>-<ordinal>`); the set name is
+ *   hashed into the first two bytes and the ordinal fills the last two, so up to
+ *   65536 replicas of one set never collide
+ * - `auto`: the first of env, pod-ordinal (inside Kubernetes), mac and hostname
+ *   that applies
+ * - `random`: 4 random bytes
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { NetworkInterfaceInfo, hostname, networkInterfaces } from 'os';
+
+export type MachineIdStrategy = 'auto' | 'random' | 'env' | 'hostname' | 'mac' | 'pod-ordinal';
+
+export const MACHINE_ID_STRATEGIES: readonly MachineIdStrategy[] = ['auto', 'random', 'env', 'hostname', 'mac', 'pod-ordinal'];
+
+/**
+ * Environment variable read by the `env` strategy
+ */
+export const MACHINE_ID_ENV_VAR = 'GUID_MACHINE_ID';
+
+/**
+ * Host facts the strategies read. Each one defaults to the running process/host;
+ * override them to resolve IDs for another host or in tests.
+ */
+export interface HostIdentity {
+    env?: Record<string, string | undefined>;
+    hostname?: string;
+    networkInterfaces?: NodeJS.Dict<NetworkInterfaceInfo[]>;
+}
+
+/**
+ * Result of resolving a machine ID
+ */
+export interface MachineIdResolution {
+    machineId: Buffer;
+    /** Strategy that produced the ID; never `auto` */
+    strategy: Exclude<MachineIdStrategy, 'auto'>;
+    /** What the ID was derived from, e.g. the hostname or interface and MAC address */
+    source?: string;
+}
+
+/**
+ * Resolves a machine ID with the given strategy. Throws if the strategy does not
+ * apply to this host (e.g. `env` without GUID_MACHINE_ID set).
+ */
+export function resolveMachineId(strategy: MachineIdStrategy = 'auto', host: HostIdentity = {}): MachineIdResolution {
+    const env = host.env || process.env;
+
+    switch (strategy) {
+        case 'env':
+            return fromEnvironment(env);
+        case 'hostname': {
+            const name = host.hostname ?? hostname();
+            return { machineId: hash(name.toLowerCase()).subarray(0, 4), strategy, source: name };
+        }
+        case 'mac':
+            return fromMacAddress(host.networkInterfaces || networkInterfaces());
+        case 'pod-ordinal':
+            return fromPodOrdinal(podName(env, host));
+        case 'random':
+            return { machineId: randomBytes(4), strategy };
+        case 'auto':
+            if (env[MACHINE_ID_ENV_VAR]) {
+                return fromEnvironment(env);
+            }
+            if (env.KUBERNETES_SERVICE_HOST && parsePodName(podName(env, host))) {
+                return fromPodOrdinal(podName(env, host));
+            }
+            if (findMacAddress(host.networkInterfaces || networkInterfaces())) {
+                return fromMacAddress(host.networkInterfaces || networkInterfaces());
+            }
+            return resolveMachineId('hostname', host);
+        default:
+            throw new Error(`Unsupported machine ID strategy: ${strategy}`);
+    }
+}
+
+function fromEnvironment(env: Record<string, string | undefined>): MachineIdResolution {
+    const value = env[MACHINE_ID_ENV_VAR];
+
+    if (!value) {
+        throw new Error(`${MACHINE_ID_ENV_VAR} is not set`);
+    }
+
+    if (!/^[0-9A-Fa-f]{8}$/.test(value)) {
+        throw new Error(`${MACHINE_ID_ENV_VAR} must be 8 hex characters`);
+    }
+
+    return { machineId: Buffer.from(value, 'hex'), strategy: 'env', source: MACHINE_ID_ENV_VAR };
+}
+
+function fromMacAddress(interfaces: NodeJS.Dict<NetworkInterfaceInfo[]>): MachineIdResolution {
+    const found = findMacAddress(interfaces);
+
+    if (!found) {
+        throw new Error('No non-internal network interface with a MAC address found');
+    }
+
+    return {
+        machineId: hash(found.mac.toLowerCase()).subarray(0, 4),
+        strategy: 'mac',
+        source: `${found.name} ${found.mac}`,
+    };
+}
+
+/**
+ * Picks the first non-internal interface (sorted by name, so the choice is stable)
+ * that has a real MAC address
+ */
+function findMacAddress(interfaces: NodeJS.Dict<NetworkInterfaceInfo[]>): { name: string; mac: string } | undefined {
+    for (const name of Object.keys(interfaces).sort()) {
+        const address = interfaces[name]?.find(info => !info.internal && info.mac && info.mac !== '00:00:00:00:00:00');
+        if (address) {
+            return { name, mac: address.mac };
+        }
+    }
+    return undefined;
+}
+
+function fromPodOrdinal(pod: string): MachineIdResolution {
+    const parsed = parsePodName(pod);
+
+    if (!parsed) {
+        throw new Error(`Pod name does not end with a StatefulSet ordinal: ${pod}`);
+    }
+
+    const machineId = Buffer.alloc(4);
+    hash(parsed.set).copy(machineId, 0, 0, 2);
+    machineId.writeUInt16BE(parsed.ordinal, 2);
+
+    return { machineId, strategy: 'pod-ordinal', source: pod };
+}
+
+function parsePodName(pod: string): { set: string; ordinal: number } | undefined {
+    const match = /^(.+)-(\d+)$/.exec(pod);
+    if (!match) {
+        return undefined;
+    }
+
+    const ordinal = Number(match[2]);
+    return ordinal <= 0xFFFF ? { set: match[1], ordinal } : undefined;
+}
+
+/**
+ * StatefulSet pods get their name as hostname; POD_NAME (downward API) wins if set
+ */
+function podName(env: Record<string, string | undefined>, host: HostIdentity): string {
+    return env.POD_NAME || host.hostname || env.HOSTNAME || hostname();
+}
+
+function hash(value: string): Buffer {
+    return createHash('sha256').update(value).digest();
+}
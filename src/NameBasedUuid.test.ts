@@ -0,0 +1,75 @@
+/**
+ * Tests for name-based UUIDv3/v5 generation
+ */
+
+import {
+  UUID_NAMESPACES,
+  generateNameBasedUuid,
+  generateUuidV3,
+  generateUuidV3Batch,
+  generateUuidV5,
+  generateUuidV5Batch,
+  resolveNamespace,
+} from './NameBasedUuid';
+import { getGuidVersion } from './SequentialGuidGenerator';
+
+describe('NameBasedUuid', () => {
+  describe('RFC 9562 Appendix A test vectors', () => {
+    it('should generate the UUIDv5 for www.example.com in the DNS namespace', () => {
+      expect(generateUuidV5('www.example.com', 'dns')).toBe('2ED6657D-E927-568B-95E1-2665A8AEA6A2');
+    });
+
+    it('should generate the UUIDv3 for www.example.com in the DNS namespace', () => {
+      expect(generateUuidV3('www.example.com', 'dns')).toBe('5DF41881-3AED-3515-88A7-2F4A814CF09E');
+    });
+  });
+
+  it.each([
+    ['python.org', 'dns', 5, '886313E1-3B8A-5372-9B90-0C9AEE199E5D'],
+    ['python.org', 'dns', 3, '6FA459EA-EE8A-3CA4-894E-DB77E160355E'],
+    ['https://example.com/orders/42', 'url', 5, 'E28AF53E-3CA6-5BF0-9D0A-E41AE43F323A'],
+    ['1.3.6.1', 'oid', 5, '1447FA61-5277-5FEF-A9B3-FBC6E44F4AF3'],
+    ['cn=John Doe', 'x500', 5, '6B28D549-D26E-5BFC-AE5E-9A39AF63DC3F'],
+    ['münchen.de', 'dns', 5, 'B96171FC-8A59-5368-96CF-911FC2E53CC2'],
+  ] as const)('should derive %s in the %s namespace (v%d)', (name, namespace, version, expected) => {
+    expect(generateNameBasedUuid(name, namespace, version)).toBe(expected);
+  });
+
+  it('should accept a custom namespace UUID in any case', () => {
+    const namespace = '0190a6e1-7b5c-7d3a-9f2e-4b8c1d0e5f6a';
+
+    expect(generateUuidV5('tenant-7/ext-123', namespace)).toBe('318E0894-F827-59AD-8091-CF8DD52F3E9A');
+    expect(generateUuidV5('tenant-7/ext-123', namespace.toUpperCase())).toBe('318E0894-F827-59AD-8091-CF8DD52F3E9A');
+  });
+
+  it('should set the version and variant bits', () => {
+    expect(getGuidVersion(generateUuidV5('a', 'url'))).toBe(5);
+    expect(getGuidVersion(generateUuidV3('a', 'url'))).toBe(3);
+  });
+
+  it('should resolve predefined namespaces case-insensitively', () => {
+    expect(resolveNamespace('DNS')).toBe(UUID_NAMESPACES.dns);
+    expect(resolveNamespace(UUID_NAMESPACES.x500.toLowerCase())).toBe(UUID_NAMESPACES.x500);
+  });
+
+  it('should reject unknown namespaces and versions', () => {
+    expect(() => generateUuidV5('a', 'email')).toThrow('Namespace must be one of');
+    for (const inherited of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      expect(() => resolveNamespace(inherited)).toThrow('Namespace must be one of');
+    }
+    expect(() => generateNameBasedUuid('a', 'dns', 4 as any)).toThrow('version must be 3 or 5');
+  });
+
+  describe('batch', () => {
+    it('should map every name in input order', () => {
+      const names = ['www.example.com', 'python.org', 'www.example.com'];
+
+      expect(generateUuidV5Batch(names, 'dns')).toEqual(names.map(name => generateUuidV5(name, 'dns')));
+      expect(generateUuidV3Batch(names, 'dns')).toEqual(names.map(name => generateUuidV3(name, 'dns')));
+    });
+
+    it('should reject an empty list', () => {
+      expect(() => generateUuidV5Batch([], 'dns')).toThrow('At least one name is required');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Name-based UUIDs (RFC 9562 versions 3 and 5)
+ *
+ * Derives a stable UUID from a namespace UUID and a name, so the same natural key
+ * always maps to the same ID (idempotent imports, deduplication):
+ * - version 5: SHA-1 of namespace bytes + UTF-8 name, truncated to 128 bits
+ * - version 3: MD5 of the same input; only for compatibility with existing IDs
+ *
+ * The hash output is not time ordered, so these IDs fragment clustered indexes like
+ * random GUIDs do.
+ */
+
+import { createHash } from 'crypto';
+import { fromBytes, toBytes } from './GuidBytes.js';
+
+export type NameBasedUuidVersion = 3 | 5;
+
+export type PredefinedNamespace = 'dns' | 'url' | 'oid' | 'x500';
+
+/**
+ * Namespaces predefined by RFC 9562 Section 6.6
+ */
+export const UUID_NAMESPACES: Readonly<Record<PredefinedNamespace, string>> = {
+    dns: '6BA7B810-9DAD-11D1-80B4-00C04FD430C8',
+    url: '6BA7B811-9DAD-11D1-80B4-00C04FD430C8',
+    oid: '6BA7B812-9DAD-11D1-80B4-00C04FD430C8',
+    x500: '6BA7B814-9DAD-11D1-80B4-00C04FD430C8',
+};
+
+/**
+ * Resolves a predefined namespace name (case-insensitive) or a custom namespace
+ * UUID to its canonical form
+ */
+export function resolveNamespace(namespace: string): string {
+    const key = namespace.toLowerCase();
+    if (Object.prototype.hasOwnProperty.call(UUID_NAMESPACES, key)) {
+        return UUID_NAMESPACES[key as PredefinedNamespace];
+    }
+
+    try {
+        return fromBytes(toBytes(namespace));
+    } catch {
+        throw new Error(`Namespace must be one of ${Object.keys(UUID_NAMESPACES).join(', ')} or a UUID`);
+    }
+}
+
+/**
+ * Generates the name-based UUID of `name` within `namespace`
+ */
+export function generateNameBasedUuid(name: string, namespace: string, version: NameBasedUuidVersion = 5): string {
+    if (version !== 3 && version !== 5) {
+        throw new Error('Name-based UUID version must be 3 or 5');
+    }
+
+    const hash = createHash(version === 5 ? 'sha1' : 'md5')
+        .update(toBytes(resolveNamespace(namespace)))
+        .update(Buffer.from(name, 'utf8'))
+        .digest()
+        .subarray(0, 16);
+
+    // Set the version nibble and the RFC 9562 variant (10xx)
+    hash[6] = (hash[6] & 0x0F) | (version << 4);
+    hash[8] = (hash[8] & 0x3F) | 0x80;
+
+    return fromBytes(hash);
+}
+
+/**
+ * Generates a UUIDv5 (SHA-1) for a name
+ */
+export function generateUuidV5(name: string, namespace: string): string {
+    return generateNameBasedUuid(name, namespace, 5);
+}
+
+/**
+ * Generates a UUIDv3 (MD5) for a name
+ */
+export function generateUuidV3(name: string, namespace: string): string {
+    return generateNameBasedUuid(name, namespace, 3);
+}
+
+/**
+ * Generates one UUIDv5 per name, in input order
+ */
+export function generateUuidV5Batch(names: string[], namespace: string): string[] {
+    return generateNameBasedUuidBatch(names, namespace, 5);
+}
+
+/**
+ * Generates one UUIDv3 per name, in input order
+ */
+export function generateUuidV3Batch(names: string[], namespace: string): string[] {
+    return generateNameBasedUuidBatch(names, namespace, 3);
+}
+
+function generateNameBasedUuidBatch(names: string[], namespace: string, version: NameBasedUuidVersion): string[] {
+    if (names.length === 0) {
+        throw new Error('At least one name is required');
+    }
+
+    const resolved = resolveNamespace(namespace);
+    return names.map(name => generateNameBasedUuid(name, resolved, version));
+}
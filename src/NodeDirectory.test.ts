@@ -0,0 +1,44 @@
+/**
+ * Tests for NodeDirectory
+ */
+
+import { NodeDirectory } from './NodeDirectory';
+import { SequentialGuidGenerator } from './SequentialGuidGenerator';
+
+describe('NodeDirectory', () => {
+  let directory: NodeDirectory;
+
+  beforeEach(() => {
+    directory = new NodeDirectory();
+    directory.register('api-0', '5A3C0000');
+    directory.register('api-1', '5A3C0001');
+  });
+
+  it('should map a GUID back to the node that issued it', () => {
+    const guid = new SequentialGuidGenerator({ machineId: Buffer.from('5A3C0001', 'hex') }).generate();
+
+    expect(directory.identify(guid)).toEqual([{ name: 'api-1', machineId: '5A3C0001' }]);
+  });
+
+  it('should decode GUIDs issued with the sqlserver layout', () => {
+    const guid = new SequentialGuidGenerator({ machineId: Buffer.from('5A3C0000', 'hex'), layout: 'sqlserver' }).generate();
+
+    expect(directory.identify(guid, { layout: 'sqlserver' }).map(node => node.name)).toEqual(['api-0']);
+  });
+
+  it('should return every node that only differs in sequence bits', () => {
+    directory.register('api-0-clone', '5A350000');
+    const guid = new SequentialGuidGenerator({ machineId: Buffer.from('5A3C0000', 'hex'), sequenceBits: 8 }).generate();
+
+    expect(directory.identify(guid, { sequenceBits: 8 }).map(node => node.name)).toEqual(['api-0', 'api-0-clone']);
+  });
+
+  it('should return no match for unknown machine IDs', () => {
+    expect(directory.identify(new SequentialGuidGenerator().generate())).toEqual([]);
+  });
+
+  it('should validate registrations', () => {
+    expect(() => directory.register('', '5A3C0000')).toThrow('Node name is required');
+    expect(() => directory.register('api-2', 'api-2')).toThrow('Machine ID must be 8 hex characters');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Maps machine IDs to node names, so a GUID can be traced back to the node that
+ * issued it
+ */
+
+import { GuidLayout, SequentialGuidGenerator } from './SequentialGuidGenerator.js';
+
+export interface NodeRegistration {
+    name: string;
+    /** Machine ID as 8 hex characters */
+    machineId: string;
+}
+
+export class NodeDirectory {
+    private readonly nodes = new Map<string, string>();
+
+    /**
+     * Registers a node name for a machine ID, replacing an earlier registration
+     * of the same name
+     */
+    public register(name: string, machineId: string): void {
+        if (!name || !name.trim()) {
+            throw new Error('Node name is required');
+        }
+
+        if (!/^[0-9A-Fa-f]{8}$/.test(machineId)) {
+            throw new Error('Machine ID must be 8 hex characters');
+        }
+
+        this.nodes.set(name, machineId.toUpperCase());
+    }
+
+    public unregister(name: string): boolean {
+        return this.nodes.delete(name);
+    }
+
+    public list(): NodeRegistration[] {
+        return [...this.nodes].map(([name, machineId]) => ({ name, machineId }));
+    }
+
+    /**
+     * Returns the registered nodes whose machine ID matches the one encoded in the
+     * GUID. The bits shared with the sequence counter cannot be compared, so more
+     * than one node may match when their IDs differ only in those bits.
+     */
+    public identify(guid: string, options: { layout?: GuidLayout; sequenceBits?: number } = {}): NodeRegistration[] {
+        const encoded = SequentialGuidGenerator.extractMachineId(guid, options);
+        const sequenceMask = (1 << (options.sequenceBits ?? 4)) - 1;
+
+        return this.list().filter(node => {
+            const machineId = Buffer.from(node.machineId, 'hex');
+            machineId.writeUInt16BE(machineId.readUInt16BE(0) & ~sequenceMask & 0xFFFF, 0);
+            return machineId.toString('hex').toUpperCase() === encoded;
+        });
+    }
+}
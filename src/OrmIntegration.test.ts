@@ -0,0 +1,92 @@
+/**
+ * Tests for ORM integration code generation
+ *
+ * Rendered integrations are compared with src/__fixtures__/orm/<orm>-<dialect>.md;
+ * run with UPDATE_FIXTURES=1 to rewrite them after an intended template change.
+ */
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { formatOrmIntegration, generateOrmIntegration, OrmIntegrationOptions } from './OrmIntegration';
+import { LAYOUT_BYTE_ORDER } from './SqlDialect';
+import { SqlIdentifierError } from './SqlIdentifier';
+
+const FIXTURE_DIR = join(__dirname, '__fixtures__', 'orm');
+
+describe('OrmIntegration', () => {
+  describe('fixtures', () => {
+    const cases: OrmIntegrationOptions[] = [
+      { orm: 'efcore', dialect: 'sqlserver', table: 'sales.Orders' },
+      { orm: 'efcore', dialect: 'sqlite', entity: 'Event', machineId: '0a1b2c3d' },
+      { orm: 'typeorm', dialect: 'mysql', table: 'orders' },
+      { orm: 'prisma', dialect: 'postgresql', table: 'sales.orders', machineId: '0A1B2C3D' },
+      { orm: 'prisma', dialect: 'mysql', table: 'orders' },
+      { orm: 'sequelize', dialect: 'sqlserver', table: 'Orders' },
+      { orm: 'knex', dialect: 'oracle', entity: 'Invoice', table: 'BILLING.INVOICES', keyColumn: 'ID' },
+    ];
+
+    it.each(cases)('should render $orm for $dialect', options => {
+      const file = join(FIXTURE_DIR, `${options.orm}-${options.dialect}.md`);
+      const rendered = `${formatOrmIntegration(generateOrmIntegration(options))}\n`;
+
+      if (process.env.UPDATE_FIXTURES) {
+        mkdirSync(FIXTURE_DIR, { recursive: true });
+        writeFileSync(file, rendered);
+      }
+      expect(rendered).toBe(readFileSync(file, 'utf8'));
+    });
+  });
+
+  describe('generateOrmIntegration', () => {
+    it('should pick the column type, layout and storage of the dialect', () => {
+      const summary = (['sqlserver', 'postgresql', 'mysql', 'oracle', 'sqlite'] as const)
+        .map(dialect => generateOrmIntegration({ orm: 'typeorm', dialect }))
+        .map(({ dialect, layout, columnType, storage }) => [dialect, layout, columnType, storage]);
+
+      expect(summary).toEqual([
+        ['sqlserver', 'sqlserver', 'UNIQUEIDENTIFIER', 'native'],
+        ['postgresql', 'standard', 'uuid', 'native'],
+        ['mysql', 'mysql', 'BINARY(16)', 'binary'],
+        ['oracle', 'standard', 'RAW(16)', 'binary'],
+        ['sqlite', 'standard', 'BLOB', 'binary'],
+      ]);
+    });
+
+    it.each(['sqlserver', 'postgresql', 'mysql'] as const)('should port the %s byte order to the EF Core value generator', dialect => {
+      const [generator] = generateOrmIntegration({ orm: 'efcore', dialect }).files;
+      const layout = dialect === 'postgresql' ? 'standard' : dialect;
+
+      expect(generator.content).toContain(`private static readonly int[] ByteOrder = { ${LAYOUT_BYTE_ORDER[layout].join(', ')} };`);
+    });
+
+    it('should share one generator module between the TypeScript integrations', () => {
+      for (const orm of ['typeorm', 'prisma', 'sequelize', 'knex'] as const) {
+        const { files } = generateOrmIntegration({ orm, dialect: 'postgresql' });
+
+        expect(files[0].path).toBe('src/db/sequentialGuid.ts');
+        expect(files[0].content).toContain("new SequentialGuidGenerator({ dialect: 'postgresql', machineIdStrategy: 'auto' })");
+      }
+    });
+
+    it('should escape table names in string literals', () => {
+      const { files } = generateOrmIntegration({ orm: 'typeorm', dialect: 'postgresql', table: '"it\'s ""odd"""' });
+
+      expect(files[1].content).toContain("@Entity({ name: 'it\\'s \"odd\"' })");
+    });
+
+    it.each([
+      [{ orm: 'hibernate' }, 'ORM must be one of'],
+      [{ orm: 'prisma', dialect: 'oracle' }, 'Prisma does not support Oracle'],
+      [{ orm: 'efcore', dialect: 'db2' }, 'Unsupported SQL dialect'],
+      [{ orm: 'efcore', entity: 'Order Line' }, 'Entity must be a letter'],
+      [{ orm: 'knex', keyColumn: 'id; drop' }, 'Key column must be a letter'],
+      [{ orm: 'knex', machineId: '12345' }, 'Machine ID must be 8 hex characters'],
+    ])('should reject options %j', (options, message) => {
+      expect(() => generateOrmIntegration(options as OrmIntegrationOptions)).toThrow(message);
+    });
+
+    it('should reject table names that cannot be parsed', () => {
+      expect(() => generateOrmIntegration({ orm: 'knex', table: 'db.sales.Orders' })).toThrow(SqlIdentifierError);
+    });
+  });
+});
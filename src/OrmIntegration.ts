@@ -0,0 +1,676 @@
+/**
+ * Integration code for ORMs and query builders using sequential GUID keys
+ *
+ * generateOrmIntegration() renders the files that wire a generator into one ORM
+ * for one database: the key mapping with the dialect's column type, the hook that
+ * assigns keys on insert, and, where the key is stored as BINARY(16), RAW(16) or
+ * BLOB, conversions between the GUID string and the stored bytes.
+ *
+ * The TypeScript integrations (TypeORM, Prisma, Sequelize, Knex) share a module
+ * creating one generator for the dialect. EF Core gets a C# ValueGenerator that
+ * ports the generator's layout: the same 48-bit timestamp, sequence and machine ID
+ * fields, written into the byte positions the dialect's engine compares first.
+ */
+
+import { GuidLayout } from './SequentialGuidGenerator.js';
+import { ByteOrderLayout, LAYOUT_BYTE_ORDER, SqlDialectName, getDialect } from './SqlDialect.js';
+import { MACHINE_ID_ENV_VAR } from './MachineId.js';
+import { parseMultipartName } from './SqlIdentifier.js';
+
+export type OrmName = 'efcore' | 'typeorm' | 'prisma' | 'sequelize' | 'knex';
+
+export const ORM_NAMES: readonly OrmName[] = ['efcore', 'typeorm', 'prisma', 'sequelize', 'knex'];
+
+export interface OrmIntegrationOptions {
+    orm: OrmName;
+    /** Defaults to sqlserver */
+    dialect?: SqlDialectName;
+    /** Entity (model) class name. Defaults to Order. */
+    entity?: string;
+    /** Table name, optionally schema-qualified. Defaults to the entity name. */
+    table?: string;
+    /** Key property and column name. Defaults to Id for EF Core and id otherwise. */
+    keyColumn?: string;
+    /** Machine ID (8 hex characters) built into the generator. Defaults to one derived on each host. */
+    machineId?: string;
+}
+
+export interface OrmIntegrationFile {
+    path: string;
+    language: 'csharp' | 'typescript' | 'prisma';
+    content: string;
+}
+
+export interface OrmIntegration {
+    orm: OrmName;
+    dialect: SqlDialectName;
+    /** Generator layout that stays sequential in the dialect's index order */
+    layout: GuidLayout;
+    columnType: string;
+    /** Whether the database has a GUID type or stores the 16 bytes */
+    storage: 'native' | 'binary';
+    files: OrmIntegrationFile[];
+    notes: string[];
+}
+
+/** Name of the package the generated TypeScript imports the generator from */
+const PACKAGE_NAME = 'sequential-guid-generator-mcp';
+
+/** Dialects each ORM has a provider for */
+const ORM_DIALECTS: Readonly<Record<OrmName, readonly SqlDialectName[]>> = {
+    efcore: ['sqlserver', 'postgresql', 'mysql', 'oracle', 'sqlite'],
+    typeorm: ['sqlserver', 'postgresql', 'mysql', 'oracle', 'sqlite'],
+    prisma: ['sqlserver', 'postgresql', 'mysql', 'sqlite'],
+    sequelize: ['sqlserver', 'postgresql', 'mysql', 'oracle', 'sqlite'],
+    knex: ['sqlserver', 'postgresql', 'mysql', 'oracle', 'sqlite'],
+};
+
+const ORM_DISPLAY_NAMES: Readonly<Record<OrmName, string>> = {
+    efcore: 'Entity Framework Core',
+    typeorm: 'TypeORM',
+    prisma: 'Prisma',
+    sequelize: 'Sequelize',
+    knex: 'Knex',
+};
+
+const TYPEORM_COLUMN_TYPES: Readonly<Record<SqlDialectName, readonly string[]>> = {
+    sqlserver: ["type: 'uniqueidentifier'"],
+    postgresql: ["type: 'uuid'"],
+    mysql: ["type: 'binary'", 'length: 16'],
+    oracle: ["type: 'raw'", 'length: 16'],
+    sqlite: ["type: 'blob'"],
+};
+
+const PRISMA_FIELD_TYPES: Readonly<Partial<Record<SqlDialectName, string>>> = {
+    sqlserver: 'String @id @db.UniqueIdentifier',
+    postgresql: 'String @id @db.Uuid',
+    mysql: 'Bytes @id @db.Binary(16)',
+    sqlite: 'Bytes @id',
+};
+
+interface IntegrationContext {
+    dialect: SqlDialectName;
+    displayName: string;
+    layout: GuidLayout;
+    columnType: string;
+    binary: boolean;
+    entity: string;
+    key: string;
+    table: string;
+    schema?: string;
+    machineId?: string;
+}
+
+/**
+ * Renders the integration files for an ORM and dialect
+ */
+export function generateOrmIntegration(options: OrmIntegrationOptions): OrmIntegration {
+    if (!options || !ORM_NAMES.includes(options.orm)) {
+        throw new Error(`ORM must be one of: ${ORM_NAMES.join(', ')}`);
+    }
+
+    const dialect = getDialect(options.dialect ?? 'sqlserver');
+    if (!ORM_DIALECTS[options.orm].includes(dialect.name)) {
+        throw new Error(`${ORM_DISPLAY_NAMES[options.orm]} does not support ${dialect.displayName}`);
+    }
+
+    const entity = codeIdentifier(options.entity ?? 'Order', 'Entity');
+    const key = codeIdentifier(options.keyColumn ?? (options.orm === 'efcore' ? 'Id' : 'id'), 'Key column');
+    const tableParts = parseMultipartName(options.table ?? entity, { dialect: dialect.name, maxParts: 2 });
+
+    const machineId = options.machineId;
+    if (machineId !== undefined && (typeof machineId !== 'string' || !/^[0-9A-Fa-f]{8}$/.test(machineId))) {
+        throw new Error('Machine ID must be 8 hex characters');
+    }
+
+    const context: IntegrationContext = {
+        dialect: dialect.name,
+        displayName: dialect.displayName,
+        layout: dialect.layouts[0],
+        columnType: dialect.columnType,
+        binary: dialect.name === 'mysql' || dialect.name === 'oracle' || dialect.name === 'sqlite',
+        entity,
+        key,
+        table: tableParts[tableParts.length - 1],
+        schema: tableParts.length === 2 ? tableParts[0] : undefined,
+        machineId: machineId?.toUpperCase(),
+    };
+
+    const { files, notes } = RENDERERS[options.orm](context);
+    if (machineId === undefined) {
+        notes.push(options.orm === 'efcore'
+            ? `The machine ID comes from ${MACHINE_ID_ENV_VAR} or the host name; give each instance a distinct one`
+            : `The machine ID comes from ${MACHINE_ID_ENV_VAR}, the pod ordinal, the MAC address or the host name; give each instance a distinct one`);
+    }
+
+    return {
+        orm: options.orm,
+        dialect: dialect.name,
+        layout: context.layout,
+        columnType: context.columnType,
+        storage: context.binary ? 'binary' : 'native',
+        files,
+        notes: [...notes, ...dialect.notes],
+    };
+}
+
+/**
+ * Formats an integration as markdown, one fenced block per file
+ */
+export function formatOrmIntegration(integration: OrmIntegration): string {
+    const lines = [
+        `# ${ORM_DISPLAY_NAMES[integration.orm]} integration for ${getDialect(integration.dialect).displayName}`,
+        '',
+        `Keys use the ${integration.layout} layout and are stored as ${integration.columnType}.`,
+    ];
+
+    for (const file of integration.files) {
+        lines.push('', `## ${file.path}`, '', `\`\`\`${file.language}`, file.content, '```');
+    }
+
+    lines.push('', '## Notes', '', ...integration.notes.map(note => `- ${note}`));
+    return lines.join('\n');
+}
+
+type Renderer = (context: IntegrationContext) => { files: OrmIntegrationFile[]; notes: string[] };
+
+const RENDERERS: Readonly<Record<OrmName, Renderer>> = {
+    efcore: context => ({
+        files: [
+            { path: 'SequentialGuidValueGenerator.cs', language: 'csharp', content: renderValueGenerator(context) },
+            { path: `${context.entity}Configuration.cs`, language: 'csharp', content: renderEntityConfiguration(context) },
+        ],
+        notes: [
+            'Requires .NET 8 or later for big-endian Guid conversions',
+            `Apply the configuration with modelBuilder.ApplyConfiguration(new ${context.entity}Configuration())`,
+            ...(context.dialect === 'mysql'
+                ? ['Add GuidFormat=TimeSwapBinary16 to the MySqlConnector connection string so Guid values are stored like UUID_TO_BIN(id, 1)']
+                : []),
+        ],
+    }),
+    typeorm: context => ({
+        files: [
+            guidModule(context),
+            { path: `src/entities/${context.entity}.ts`, language: 'typescript', content: renderTypeOrmEntity(context) },
+            { path: `src/subscribers/${context.entity}Subscriber.ts`, language: 'typescript', content: renderTypeOrmSubscriber(context) },
+        ],
+        notes: [
+            `Register ${context.entity}Subscriber in the DataSource subscribers option`,
+            ...(context.binary ? ['Query builder conditions bypass the column transformer; compare keys with toStoredGuid(id)'] : []),
+        ],
+    }),
+    prisma: context => ({
+        files: [
+            guidModule(context),
+            { path: 'prisma/schema.prisma', language: 'prisma', content: renderPrismaModel(context) },
+            { path: 'src/db/prisma.ts', language: 'typescript', content: renderPrismaExtension(context) },
+        ],
+        notes: [
+            'Nested creates (create or connectOrCreate inside another model\'s write) are not intercepted; pass their keys explicitly',
+            ...(context.binary ? [`Read the key as a GUID string from the computed ${context.key}Guid field; filter with toStoredGuid(id)`] : []),
+            ...(context.schema !== undefined ? ['@@schema needs the schemas list in the datasource block (multiSchema preview feature before Prisma 6)'] : []),
+        ],
+    }),
+    sequelize: context => ({
+        files: [
+            guidModule(context),
+            { path: `src/models/${context.entity}.ts`, language: 'typescript', content: renderSequelizeModel(context) },
+        ],
+        notes: context.binary ? ['where clauses on the key need toStoredGuid(id); the getter only converts values read from rows'] : [],
+    }),
+    knex: context => ({
+        files: [
+            guidModule(context),
+            { path: `migrations/create_${context.table.toLowerCase().replace(/[^a-z0-9]+/g, '_')}.ts`, language: 'typescript', content: renderKnexMigration(context) },
+            { path: `src/db/${lowerFirst(context.entity)}s.ts`, language: 'typescript', content: renderKnexInsert(context) },
+        ],
+        notes: [
+            ...(context.binary ? ['Convert keys read back from the table with fromStoredGuid'] : []),
+            ...(context.dialect === 'sqlite' ? ['Knex cannot declare WITHOUT ROWID tables; create the table with knex.raw if you need it'] : []),
+        ],
+    }),
+};
+
+/**
+ * Shared module holding the generator and, for binary storage, the conversions
+ */
+function guidModule(context: IntegrationContext): OrmIntegrationFile {
+    const imports = [
+        ...(context.binary ? ['fromBytes'] : []),
+        ...(context.dialect === 'mysql' ? ['LAYOUT_BYTE_ORDER'] : []),
+        'SequentialGuidGenerator',
+        ...(context.binary ? ['toBytes'] : []),
+    ];
+
+    const generatorOptions = context.machineId !== undefined
+        ? `{ dialect: '${context.dialect}', machineId: Buffer.from('${context.machineId}', 'hex') }`
+        : `{ dialect: '${context.dialect}', machineIdStrategy: 'auto' }`;
+
+    const lines = [
+        '/**',
+        ` * Sequential GUID keys for ${context.displayName}: ${context.layout} layout, stored as ${context.columnType}`,
+        ' */',
+        '',
+        `import { ${imports.join(', ')} } from '${PACKAGE_NAME}';`,
+        '',
+        `export const guidGenerator = new SequentialGuidGenerator(${generatorOptions});`,
+        '',
+        'export function newSequentialGuid(): string {',
+        '    return guidGenerator.generate();',
+        '}',
+    ];
+
+    if (context.dialect === 'mysql') {
+        lines.push(
+            '',
+            '/**',
+            ' * Converts a GUID to the bytes UUID_TO_BIN(id, 1) stores',
+            ' */',
+            'export function toStoredGuid(id: string): Buffer {',
+            '    const bytes = toBytes(id);',
+            '    return Buffer.from(LAYOUT_BYTE_ORDER.mysql.map(position => bytes[position]));',
+            '}',
+            '',
+            '/**',
+            ' * Converts stored bytes back to a GUID, like BIN_TO_UUID(value, 1)',
+            ' */',
+            'export function fromStoredGuid(value: Uint8Array): string {',
+            '    const bytes = Buffer.alloc(16);',
+            '    LAYOUT_BYTE_ORDER.mysql.forEach((position, index) => {',
+            '        bytes[position] = value[index];',
+            '    });',
+            '    return fromBytes(bytes).toLowerCase();',
+            '}',
+        );
+    } else if (context.binary) {
+        lines.push(
+            '',
+            '/**',
+            ` * Converts a GUID to the bytes ${context.columnType} stores, in string order`,
+            ' */',
+            'export function toStoredGuid(id: string): Buffer {',
+            '    return toBytes(id);',
+            '}',
+            '',
+            'export function fromStoredGuid(value: Uint8Array): string {',
+            '    return fromBytes(value).toLowerCase();',
+            '}',
+        );
+    }
+
+    if (context.binary) {
+        lines.push(
+            '',
+            'export function newStoredGuid(): Buffer {',
+            '    return toStoredGuid(guidGenerator.generate());',
+            '}',
+        );
+    }
+
+    return { path: 'src/db/sequentialGuid.ts', language: 'typescript', content: lines.join('\n') };
+}
+
+function renderValueGenerator(context: IntegrationContext): string {
+    // Dialects default to byte-order layouts, never COMB
+    const byteOrder = LAYOUT_BYTE_ORDER[context.layout as ByteOrderLayout];
+    const resolveMachineId = context.machineId === undefined;
+    const converter = context.dialect === 'oracle' || context.dialect === 'sqlite';
+
+    return [
+        'using System;',
+        'using System.Buffers.Binary;',
+        ...(resolveMachineId ? ['using System.Globalization;'] : []),
+        'using System.Security.Cryptography;',
+        ...(resolveMachineId ? ['using System.Text;'] : []),
+        'using System.Threading;',
+        'using Microsoft.EntityFrameworkCore.ChangeTracking;',
+        'using Microsoft.EntityFrameworkCore.ValueGeneration;',
+        '',
+        '/// <summary>',
+        `/// Generates GUIDs in the ${context.layout} layout of ${PACKAGE_NAME}, which stay sequential`,
+        `/// in ${context.displayName} ${context.columnType} indexes: 48-bit milliseconds since 1900-01-01 UTC,`,
+        '/// a 4-bit sequence sharing two bytes with the machine ID, the rest of the machine ID',
+        '/// and 6 random bytes.',
+        '/// </summary>',
+        'public sealed class SequentialGuidValueGenerator : ValueGenerator<Guid>',
+        '{',
+        '    // Byte positions (in string order) from most to least significant',
+        `    private static readonly int[] ByteOrder = { ${byteOrder.join(', ')} };`,
+        '    private static readonly DateTime Epoch = new DateTime(1900, 1, 1, 0, 0, 0, DateTimeKind.Utc);',
+        '    private const int MaxSequence = 15;',
+        resolveMachineId
+            ? '    private static readonly uint MachineId = ResolveMachineId();'
+            : `    private const uint MachineId = 0x${context.machineId};`,
+        '    private static readonly object Sync = new object();',
+        '    private static long _lastTimestamp = -1;',
+        '    private static int _sequence;',
+        '',
+        '    public override bool GeneratesTemporaryValues => false;',
+        '',
+        '    public override Guid Next(EntityEntry entry) => NewGuid();',
+        '',
+        '    public static Guid NewGuid()',
+        '    {',
+        '        long timestamp;',
+        '        int sequence;',
+        '        lock (Sync)',
+        '        {',
+        '            timestamp = Now();',
+        '            if (timestamp > _lastTimestamp)',
+        '            {',
+        '                _sequence = 0;',
+        '            }',
+        '            else if (_sequence < MaxSequence)',
+        '            {',
+        '                // Same millisecond, or the clock moved back: keep counting on the last one',
+        '                timestamp = _lastTimestamp;',
+        '                _sequence++;',
+        '            }',
+        '            else',
+        '            {',
+        '                while ((timestamp = Now()) <= _lastTimestamp)',
+        '                {',
+        '                    Thread.SpinWait(20);',
+        '                }',
+        '                _sequence = 0;',
+        '            }',
+        '            _lastTimestamp = timestamp;',
+        '            sequence = _sequence;',
+        '        }',
+        '',
+        '        Span<byte> ordered = stackalloc byte[16];',
+        '        BinaryPrimitives.WriteUInt16BigEndian(ordered, (ushort)(timestamp >> 32));',
+        '        BinaryPrimitives.WriteUInt32BigEndian(ordered.Slice(2), (uint)timestamp);',
+        '        BinaryPrimitives.WriteUInt16BigEndian(ordered.Slice(6), (ushort)(((MachineId >> 16) & ~(uint)MaxSequence) | (uint)sequence));',
+        '        BinaryPrimitives.WriteUInt16BigEndian(ordered.Slice(8), (ushort)MachineId);',
+        '        RandomNumberGenerator.Fill(ordered.Slice(10));',
+        '',
+        '        Span<byte> bytes = stackalloc byte[16];',
+        '        for (var i = 0; i < bytes.Length; i++)',
+        '        {',
+        '            bytes[ByteOrder[i]] = ordered[i];',
+        '        }',
+        '        return new Guid(bytes, bigEndian: true);',
+        '    }',
+        ...(converter
+            ? [
+                '',
+                `    /// <summary>The bytes ${context.columnType} stores, in string order</summary>`,
+                '    public static byte[] ToBytes(Guid id) => id.ToByteArray(bigEndian: true);',
+                '',
+                '    public static Guid FromBytes(byte[] bytes) => new Guid(bytes, bigEndian: true);',
+            ]
+            : []),
+        '',
+        '    private static long Now() => (DateTime.UtcNow - Epoch).Ticks / TimeSpan.TicksPerMillisecond;',
+        ...(resolveMachineId
+            ? [
+                '',
+                `    /// <summary>${MACHINE_ID_ENV_VAR}, else SHA-256 of the lowercase host name, like the env and hostname strategies</summary>`,
+                '    private static uint ResolveMachineId()',
+                '    {',
+                `        var configured = Environment.GetEnvironmentVariable("${MACHINE_ID_ENV_VAR}");`,
+                '        if (!string.IsNullOrEmpty(configured))',
+                '        {',
+                '            return uint.Parse(configured, NumberStyles.AllowHexSpecifier, CultureInfo.InvariantCulture);',
+                '        }',
+                '',
+                '        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(Environment.MachineName.ToLowerInvariant()));',
+                '        return BinaryPrimitives.ReadUInt32BigEndian(hash);',
+                '    }',
+            ]
+            : []),
+        '}',
+    ].join('\n');
+}
+
+function renderEntityConfiguration(context: IntegrationContext): string {
+    const table = [context.table, ...(context.schema !== undefined ? [context.schema] : [])].map(csharpString).join(', ');
+    const converter = context.dialect === 'oracle' || context.dialect === 'sqlite';
+
+    return [
+        'using Microsoft.EntityFrameworkCore;',
+        'using Microsoft.EntityFrameworkCore.Metadata.Builders;',
+        '',
+        '/// <summary>',
+        `/// Maps ${context.entity}.${context.key} to a ${context.columnType} key filled by SequentialGuidValueGenerator`,
+        '/// </summary>',
+        `public sealed class ${context.entity}Configuration : IEntityTypeConfiguration<${context.entity}>`,
+        '{',
+        `    public void Configure(EntityTypeBuilder<${context.entity}> builder)`,
+        '    {',
+        `        builder.ToTable(${table});`,
+        `        builder.HasKey(e => e.${context.key});`,
+        `        builder.Property(e => e.${context.key})`,
+        `            .HasColumnType(${csharpString(context.columnType)})`,
+        '            .ValueGeneratedOnAdd()',
+        `            .HasValueGenerator<SequentialGuidValueGenerator>()${converter ? '' : ';'}`,
+        ...(converter
+            ? ['            .HasConversion(id => SequentialGuidValueGenerator.ToBytes(id), bytes => SequentialGuidValueGenerator.FromBytes(bytes));']
+            : []),
+        '    }',
+        '}',
+    ].join('\n');
+}
+
+function renderTypeOrmEntity(context: IntegrationContext): string {
+    const entityOptions = [`name: ${tsString(context.table)}`, ...(context.schema !== undefined ? [`schema: ${tsString(context.schema)}`] : [])];
+
+    return [
+        "import { Entity, PrimaryColumn } from 'typeorm';",
+        ...(context.binary ? ["import { fromStoredGuid, toStoredGuid } from '../db/sequentialGuid';"] : []),
+        '',
+        `@Entity({ ${entityOptions.join(', ')} })`,
+        `export class ${context.entity} {`,
+        '    @PrimaryColumn({',
+        ...TYPEORM_COLUMN_TYPES[context.dialect].map(option => `        ${option},`),
+        ...(context.binary
+            ? [
+                '        transformer: {',
+                '            to: (id: string | undefined) => (id === undefined ? id : toStoredGuid(id)),',
+                '            from: (value: Buffer | null) => (value === null ? value : fromStoredGuid(value)),',
+                '        },',
+            ]
+            : []),
+        '    })',
+        `    ${context.key}!: string;`,
+        '}',
+    ].join('\n');
+}
+
+function renderTypeOrmSubscriber(context: IntegrationContext): string {
+    return [
+        "import { EntitySubscriberInterface, EventSubscriber, InsertEvent } from 'typeorm';",
+        `import { ${context.entity} } from '../entities/${context.entity}';`,
+        "import { newSequentialGuid } from '../db/sequentialGuid';",
+        '',
+        '/**',
+        ` * Assigns sequential GUID keys to new ${context.entity} rows before TypeORM inserts them`,
+        ' */',
+        '@EventSubscriber()',
+        `export class ${context.entity}Subscriber implements EntitySubscriberInterface<${context.entity}> {`,
+        '    listenTo() {',
+        `        return ${context.entity};`,
+        '    }',
+        '',
+        `    beforeInsert(event: InsertEvent<${context.entity}>): void {`,
+        `        event.entity.${context.key} ??= newSequentialGuid();`,
+        '    }',
+        '}',
+    ].join('\n');
+}
+
+function renderPrismaModel(context: IntegrationContext): string {
+    const attributes = [
+        ...(context.table !== context.entity ? [`@@map(${tsString(context.table, '"')})`] : []),
+        ...(context.schema !== undefined ? [`@@schema(${tsString(context.schema, '"')})`] : []),
+    ];
+
+    return [
+        `model ${context.entity} {`,
+        `  ${context.key} ${PRISMA_FIELD_TYPES[context.dialect]}`,
+        '  // other fields',
+        ...(attributes.length > 0 ? ['', ...attributes.map(attribute => `  ${attribute}`)] : []),
+        '}',
+    ].join('\n');
+}
+
+function renderPrismaExtension(context: IntegrationContext): string {
+    const model = lowerFirst(context.entity);
+    const newKey = context.binary ? 'newStoredGuid()' : 'newSequentialGuid()';
+    const helpers = context.binary ? ['fromStoredGuid', 'newStoredGuid'] : ['newSequentialGuid'];
+
+    return [
+        "import { PrismaClient } from '@prisma/client';",
+        `import { ${helpers.join(', ')} } from './sequentialGuid';`,
+        '',
+        '/**',
+        ` * Prisma client that assigns sequential GUID keys to new ${context.entity} rows`,
+        ' */',
+        'export const prisma = new PrismaClient().$extends({',
+        '    query: {',
+        `        ${model}: {`,
+        '            create({ args, query }) {',
+        `                args.data.${context.key} ??= ${newKey};`,
+        '                return query(args);',
+        '            },',
+        '            createMany({ args, query }) {',
+        '                for (const data of Array.isArray(args.data) ? args.data : [args.data]) {',
+        `                    data.${context.key} ??= ${newKey};`,
+        '                }',
+        '                return query(args);',
+        '            },',
+        '            upsert({ args, query }) {',
+        `                args.create.${context.key} ??= ${newKey};`,
+        '                return query(args);',
+        '            },',
+        '        },',
+        '    },',
+        ...(context.binary
+            ? [
+                '    result: {',
+                `        ${model}: {`,
+                `            ${context.key}Guid: {`,
+                `                needs: { ${context.key}: true },`,
+                `                compute: row => fromStoredGuid(row.${context.key}),`,
+                '            },',
+                '        },',
+                '    },',
+            ]
+            : []),
+        '});',
+    ].join('\n');
+}
+
+function renderSequelizeModel(context: IntegrationContext): string {
+    const modelOptions = ['sequelize', `tableName: ${tsString(context.table)}`, ...(context.schema !== undefined ? [`schema: ${tsString(context.schema)}`] : [])];
+    const helpers = context.binary ? ['fromStoredGuid', 'newStoredGuid', 'toStoredGuid'] : ['newSequentialGuid'];
+    const { entity, key } = context;
+    // DataTypes.UUID is CHAR(36) on SQL Server, so its native type is named instead
+    const nativeType = context.binary || context.dialect === 'sqlserver';
+    const imports = ['CreationOptional', ...(nativeType ? [] : ['DataTypes']), 'InferAttributes', 'InferCreationAttributes', 'Model', 'Sequelize'];
+
+    return [
+        `import { ${imports.join(', ')} } from 'sequelize';`,
+        `import { ${helpers.join(', ')} } from '../db/sequentialGuid';`,
+        '',
+        `export class ${entity} extends Model<InferAttributes<${entity}>, InferCreationAttributes<${entity}>> {`,
+        `    declare ${key}: CreationOptional<string>;`,
+        '}',
+        '',
+        `export function init${entity}(sequelize: Sequelize): typeof ${entity} {`,
+        `    return ${entity}.init(`,
+        '        {',
+        `            ${key}: {`,
+        nativeType
+            ? `                type: ${tsString(context.columnType)},`
+            : '                type: DataTypes.UUID,',
+        '                primaryKey: true,',
+        context.binary
+            ? '                defaultValue: newStoredGuid,'
+            : '                defaultValue: newSequentialGuid,',
+        ...(context.binary
+            ? [
+                `                get(this: ${entity}) {`,
+                `                    const value = this.getDataValue('${key}') as unknown as Buffer | null;`,
+                '                    return value === null ? value : fromStoredGuid(value);',
+                '                },',
+                `                set(this: ${entity}, id: string) {`,
+                `                    this.setDataValue('${key}', toStoredGuid(id) as unknown as string);`,
+                '                },',
+            ]
+            : []),
+        '            },',
+        '        },',
+        `        { ${modelOptions.join(', ')} },`,
+        '    );',
+        '}',
+    ].join('\n');
+}
+
+function renderKnexMigration(context: IntegrationContext): string {
+    const schema = context.schema !== undefined ? `.withSchema(${tsString(context.schema)})` : '';
+
+    return [
+        "import type { Knex } from 'knex';",
+        '',
+        'export async function up(knex: Knex): Promise<void> {',
+        `    await knex.schema${schema}.createTable(${tsString(context.table)}, table => {`,
+        `        table.specificType(${tsString(context.key)}, ${tsString(context.columnType)}).notNullable().primary();`,
+        '        // other columns',
+        '    });',
+        '}',
+        '',
+        'export async function down(knex: Knex): Promise<void> {',
+        `    await knex.schema${schema}.dropTable(${tsString(context.table)});`,
+        '}',
+    ].join('\n');
+}
+
+function renderKnexInsert(context: IntegrationContext): string {
+    const schema = context.schema !== undefined ? `.withSchema(${tsString(context.schema)})` : '';
+    const newKey = context.binary ? 'newStoredGuid()' : 'newSequentialGuid()';
+
+    return [
+        "import type { Knex } from 'knex';",
+        `import { ${context.binary ? 'newStoredGuid' : 'newSequentialGuid'} } from './sequentialGuid';`,
+        '',
+        '/**',
+        ` * Inserts ${context.entity} rows, assigning sequential GUID keys to rows without one`,
+        ' */',
+        `export function insert${context.entity}s(knex: Knex, rows: Record<string, unknown>[]) {`,
+        `    return knex${schema}`,
+        `        .insert(rows.map(row => ({ ...row, ${context.key}: row.${context.key} ?? ${newKey} })))`,
+        `        .into(${tsString(context.table)});`,
+        '}',
+    ].join('\n');
+}
+
+/**
+ * Validates a name used as a class or property name in the generated code
+ */
+function codeIdentifier(name: string, what: string): string {
+    if (typeof name !== 'string' || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+        throw new Error(`${what} must be a letter or underscore followed by letters, digits or underscores`);
+    }
+    return name;
+}
+
+/**
+ * Quotes a string for TypeScript (or, with a double quote, Prisma schema) source
+ */
+function tsString(value: string, quote: "'" | '"' = "'"): string {
+    const json = JSON.stringify(value);
+    return quote === '"' ? json : `'${json.slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * JSON string escapes are all valid C# escapes
+ */
+function csharpString(value: string): string {
+    return JSON.stringify(value);
+}
+
+function lowerFirst(name: string): string {
+    return name.charAt(0).toLowerCase() + name.slice(1);
+}
@@ -0,0 +1,45 @@
+/**
+ * Deterministic random source
+ *
+ * A mulberry32 PRNG producing the same bytes for the same seed, for simulations
+ * that must be reproducible. It is NOT cryptographically secure; never use it to
+ * generate GUIDs in production. Exposed to tests through the `testing` entry point.
+ */
+
+import type { RandomSource } from './SequentialGuidGenerator.js';
+
+/**
+ * Creates a deterministic random source (mulberry32 PRNG). String seeds are
+ * hashed with 32-bit FNV-1a, so any label can be used as a seed.
+ */
+export function createSeededRandomSource(seed: number | string): RandomSource {
+    let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+
+    const next = (): number => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return (t ^ (t >>> 14)) >>> 0;
+    };
+
+    return (size: number): Buffer => {
+        const bytes = Buffer.alloc(size);
+        for (let offset = 0; offset < size; offset += 4) {
+            const value = next();
+            for (let i = 0; i < 4 && offset + i < size; i++) {
+                bytes[offset + i] = (value >>> (24 - i * 8)) & 0xFF;
+            }
+        }
+        return bytes;
+    };
+}
+
+function hashSeed(seed: string): number {
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
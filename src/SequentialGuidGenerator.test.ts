@@ -2,7 +2,17 @@
  * Tests for SequentialGuidGenerator
  */
 
-import { SequentialGuidGenerator, generateSequentialGuid, generateSequentialGuidBatch, isValidGuid } from './SequentialGuidGenerator';
+import {
+  ClockRegressionError,
+  ClockRegressionEvent,
+  SequentialGuidGenerator,
+  compareSqlServerGuids,
+  generateSequentialGuid,
+  generateSequentialGuidBatch,
+  isValidGuid,
+} from './SequentialGuidGenerator';
+import { compareGuids } from './SqlDialect';
+import { createSteppingClock } from './testing';
 
 describe('SequentialGuidGenerator', () => {
   let generator: SequentialGuidGenerator;
@@ -114,6 +124,511 @@ describe('SequentialGuidGenerator', () => {
   });
 });
 
+describe('timestamp encoding', () => {
+  const machineId = Buffer.from('12345678', 'hex');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each([
+    ['default (1900)', undefined],
+    ['Unix', new Date('1970-01-01T00:00:00Z')],
+    ['recent', new Date('2020-06-15T08:30:00.123Z')],
+    ['pre-1900', new Date('1753-01-01T00:00:00Z')],
+  ])('should round-trip wall-clock time with the %s epoch', (_name, epoch) => {
+    const instants = [
+      '2021-01-01T00:00:00.000Z',
+      '2024-02-29T23:59:59.999Z',
+      '2038-01-19T03:14:08.000Z',
+      '2099-12-31T12:34:56.789Z',
+    ].map(value => Date.parse(value));
+    const clock = jest.spyOn(Date, 'now');
+
+    for (const layout of ['standard', 'sqlserver'] as const) {
+      const generator = new SequentialGuidGenerator({ machineId, epoch, layout });
+      for (const instant of instants) {
+        clock.mockReturnValue(instant);
+        expect(generator.extractTimestamp(generator.generate()).getTime()).toBe(instant);
+      }
+    }
+  });
+
+  it('should round-trip the real clock', () => {
+    const generator = new SequentialGuidGenerator();
+    const before = Date.now();
+    const timestamp = generator.extractTimestamp(generator.generate()).getTime();
+
+    expect(timestamp).toBeGreaterThanOrEqual(before);
+    expect(timestamp).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('should encode milliseconds since the epoch in the first 48 bits', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('1970-01-01T00:00:01.234Z'));
+    const generator = new SequentialGuidGenerator({ machineId, epoch: new Date(0) });
+
+    expect(generator.generate().substring(0, 13)).toBe('00000000-04D2');
+  });
+
+  it('should be monotonic across the 32-bit boundary', () => {
+    const clock = jest.spyOn(Date, 'now');
+    const generator = new SequentialGuidGenerator({ machineId, epoch: new Date(0) });
+
+    const guids = [2 ** 32 - 1, 2 ** 32, 2 ** 32 + 1].map(offset => {
+      clock.mockReturnValue(offset);
+      return generator.generate();
+    });
+
+    expect([...guids].sort()).toEqual(guids);
+  });
+
+  it('should report the rollover date', () => {
+    expect(new SequentialGuidGenerator().getRolloverDate().toISOString()).toBe('+010819-08-03T05:31:50.656Z');
+    expect(new SequentialGuidGenerator({ epoch: new Date(0) }).getRolloverDate().getTime()).toBe(2 ** 48);
+  });
+
+  it('should refuse to encode times outside the 48-bit range', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-01-01T00:00:00Z'));
+
+    expect(() => new SequentialGuidGenerator({ epoch: new Date('2025-01-01T00:00:00Z') }).generate())
+      .toThrow('Current time is before the generator epoch');
+    expect(() => new SequentialGuidGenerator({ epoch: new Date(Date.parse('2024-01-01T00:00:00Z') - 2 ** 48) }).generate())
+      .toThrow('Timestamp exceeds 48 bits');
+  });
+
+  it('should reject invalid epochs', () => {
+    expect(() => new SequentialGuidGenerator({ epoch: new Date('not a date') }))
+      .toThrow('Epoch must be a valid date');
+  });
+});
+
+describe('sequence handling', () => {
+  const machineId = Buffer.from('12345678', 'hex');
+  const start = Date.parse('2024-05-01T12:00:00Z');
+
+  it('should issue 2^sequenceBits GUIDs per millisecond', () => {
+    const generator = new SequentialGuidGenerator({ machineId, sequenceBits: 10, clock: () => start });
+
+    const guids = generator.generateBatch(1024);
+
+    expect(new Set(guids).size).toBe(1024);
+    expect([...guids].sort()).toEqual(guids);
+    guids.forEach(guid => expect(generator.extractTimestamp(guid).getTime()).toBe(start));
+  });
+
+  it('should keep the remaining machine ID bits', () => {
+    const generator = new SequentialGuidGenerator({ machineId, sequenceBits: 8, clock: () => start });
+
+    const guid = generator.generate();
+
+    expect(guid.substring(14, 16)).toBe('12');
+    expect(guid.substring(19, 23)).toBe('5678');
+  });
+
+  it.each([3, 17, 4.5])('should reject a sequence width of %p bits', sequenceBits => {
+    expect(() => new SequentialGuidGenerator({ sequenceBits }))
+      .toThrow('Sequence bits must be an integer between 4 and 16');
+  });
+
+  it('should reserve a whole block of sequence numbers per clock reading', () => {
+    const clock = jest.fn(() => start);
+    const generator = new SequentialGuidGenerator({ machineId, sequenceBits: 8, clock });
+
+    generator.generateBatch(200);
+
+    expect(clock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should continue a reserved block in the next millisecond', () => {
+    let now = start;
+    const generator = new SequentialGuidGenerator({ machineId, clock: () => now++ });
+
+    const guids = generator.generateBatch(40);
+    const timestamps = guids.map(guid => generator.extractTimestamp(guid).getTime());
+
+    expect([...guids].sort()).toEqual(guids);
+    expect(timestamps.slice(0, 16)).toEqual(new Array(16).fill(start));
+    expect(timestamps[16]).toBe(start + 1);
+  });
+
+  describe('async generation', () => {
+    it('should yield to the event loop while the sequence is exhausted', async () => {
+      let now = start;
+      const generator = new SequentialGuidGenerator({ machineId, clock: () => now });
+
+      // The clock only advances from a timer, so a blocking wait would never finish
+      const pending = generator.generateBatchAsync(20);
+      setTimeout(() => { now += 1; }, 5);
+      const guids = await pending;
+
+      expect(guids).toHaveLength(20);
+      expect([...guids].sort()).toEqual(guids);
+      expect(generator.extractTimestamp(guids[19]).getTime()).toBe(start + 1);
+    });
+
+    it('should generate single GUIDs without blocking', async () => {
+      let now = start;
+      const generator = new SequentialGuidGenerator({ machineId, clock: () => now });
+      const block = generator.generateBatch(16);
+
+      const pending = generator.generateAsync();
+      setTimeout(() => { now += 1; }, 5);
+      const guid = await pending;
+
+      expect(guid > block[15]).toBe(true);
+      expect(generator.extractTimestamp(guid).getTime()).toBe(start + 1);
+    });
+
+    it('should interleave concurrent callers without duplicates', async () => {
+      const generator = new SequentialGuidGenerator({ machineId });
+
+      const batches = await Promise.all([
+        generator.generateBatchAsync(100),
+        generator.generateBatchAsync(100),
+        generator.generateAsync(),
+      ]);
+      const all = [...batches[0], ...batches[1], batches[2]];
+
+      expect(new Set(all).size).toBe(201);
+    });
+
+    it('should throw error for invalid count', async () => {
+      const generator = new SequentialGuidGenerator({ machineId });
+      await expect(generator.generateBatchAsync(0)).rejects.toThrow('Count must be a positive number');
+    });
+  });
+});
+
+describe('clock regression', () => {
+  const machineId = Buffer.from('12345678', 'hex');
+  const start = Date.parse('2024-05-01T12:00:00Z');
+
+  /**
+   * Clock that returns the queued readings in order, repeating the last one
+   */
+  function scriptedClock(...readings: number[]): () => number {
+    let index = 0;
+    return () => readings[Math.min(index++, readings.length - 1)];
+  }
+
+  /**
+   * Generates GUIDs one call at a time, so every GUID reads the clock
+   */
+  function generateEach(generator: SequentialGuidGenerator, count: number): string[] {
+    return Array.from({ length: count }, () => generator.generate());
+  }
+
+  it('should keep the last timestamp and bump the sequence with the reuse policy', () => {
+    const generator = new SequentialGuidGenerator({
+      machineId,
+      clock: scriptedClock(start, start - 5000, start - 4000),
+    });
+
+    const guids = generateEach(generator, 3);
+
+    expect([...guids].sort()).toEqual(guids);
+    guids.forEach(guid => expect(generator.extractTimestamp(guid).getTime()).toBe(start));
+  });
+
+  it('should advance logically when the sequence overflows while the clock is behind', () => {
+    const generator = new SequentialGuidGenerator({
+      machineId,
+      clockRegressionPolicy: 'reuse',
+      clock: scriptedClock(start, start - 5000),
+    });
+
+    const guids = generateEach(generator, 40);
+
+    expect([...guids].sort()).toEqual(guids);
+    expect(new Set(guids).size).toBe(40);
+    expect(generator.extractTimestamp(guids[39]).getTime()).toBe(start + 2);
+  });
+
+  it('should throw a ClockRegressionError with the throw policy', () => {
+    const generator = new SequentialGuidGenerator({
+      machineId,
+      clockRegressionPolicy: 'throw',
+      clock: scriptedClock(start, start - 250),
+    });
+
+    generator.generate();
+
+    let error: unknown;
+    try {
+      generator.generate();
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(ClockRegressionError);
+    expect((error as ClockRegressionError).regressionMs).toBe(250);
+    expect((error as ClockRegressionError).previousTimestamp.getTime()).toBe(start);
+    expect((error as ClockRegressionError).currentTimestamp.getTime()).toBe(start - 250);
+  });
+
+  it('should wait for the clock to catch up with the wait policy', () => {
+    const clock = scriptedClock(start, start - 3, start - 2, start - 1, start);
+    const generator = new SequentialGuidGenerator({ machineId, clockRegressionPolicy: 'wait', clock });
+
+    const guids = generateEach(generator, 2);
+
+    expect([...guids].sort()).toEqual(guids);
+    expect(generator.extractTimestamp(guids[1]).getTime()).toBe(start);
+  });
+
+  it('should throw instead of waiting past maxClockRegressionWaitMs', () => {
+    const generator = new SequentialGuidGenerator({
+      machineId,
+      clockRegressionPolicy: 'wait',
+      maxClockRegressionWaitMs: 100,
+      clock: scriptedClock(start, start - 101),
+    });
+
+    generator.generate();
+    expect(() => generator.generate()).toThrow(ClockRegressionError);
+  });
+
+  it('should report through the hook and issue from the regressed clock with the log policy', () => {
+    const events: ClockRegressionEvent[] = [];
+    const generator = new SequentialGuidGenerator({
+      machineId,
+      clockRegressionPolicy: 'log',
+      onClockRegression: event => events.push(event),
+      clock: scriptedClock(start, start - 1000),
+    });
+
+    generator.generate();
+    const guid = generator.generate();
+
+    expect(generator.extractTimestamp(guid).getTime()).toBe(start - 1000);
+    expect(events).toEqual([{
+      previousTimestamp: new Date(start),
+      currentTimestamp: new Date(start - 1000),
+      regressionMs: 1000,
+      policy: 'log',
+    }]);
+  });
+
+  it('should call the hook for every policy', () => {
+    const onClockRegression = jest.fn();
+    const generator = new SequentialGuidGenerator({
+      machineId,
+      onClockRegression,
+      clock: scriptedClock(start, start - 1),
+    });
+
+    generateEach(generator, 2);
+
+    expect(onClockRegression).toHaveBeenCalledTimes(1);
+    expect(onClockRegression.mock.calls[0][0].policy).toBe('reuse');
+  });
+
+  it('should reject unknown policies', () => {
+    expect(() => new SequentialGuidGenerator({ clockRegressionPolicy: 'ignore' as any }))
+      .toThrow('Unsupported clock regression policy: ignore');
+  });
+});
+
+describe('sqlserver layout', () => {
+  const machineId = Buffer.from('12345678', 'hex');
+
+  it('should default to the standard layout', () => {
+    expect(new SequentialGuidGenerator().getLayout()).toBe('standard');
+  });
+
+  it('should reject unknown layouts', () => {
+    expect(() => new SequentialGuidGenerator({ layout: 'bogus' as any }))
+      .toThrow('Unsupported GUID layout: bogus');
+  });
+
+  it('should generate GUIDs that are monotonic under SQL Server ordering', () => {
+    const generator = new SequentialGuidGenerator({ machineId, layout: 'sqlserver' });
+    const guids = generator.generateBatch(500);
+    const sorted = [...guids].sort(compareSqlServerGuids);
+
+    expect(sorted).toEqual(guids);
+    for (let i = 1; i < guids.length; i++) {
+      expect(compareSqlServerGuids(guids[i - 1], guids[i])).toBeLessThan(0);
+    }
+  });
+
+  describe('with a fixed clock', () => {
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-05-01T12:00:00Z'));
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should place the timestamp and sequence in bytes 10-15 and 8-9', () => {
+      const standard = new SequentialGuidGenerator({ machineId });
+      const sqlServer = new SequentialGuidGenerator({ machineId, layout: 'sqlserver' });
+
+      const standardBytes = SequentialGuidGenerator.guidToBuffer(standard.generate());
+      const sqlServerBytes = SequentialGuidGenerator.guidToBuffer(sqlServer.generate());
+
+      expect(sqlServerBytes.subarray(10, 16)).toEqual(standardBytes.subarray(0, 6));
+      expect(sqlServerBytes.subarray(8, 10)).toEqual(standardBytes.subarray(6, 8));
+    });
+
+    it('should extract the same timestamp as the standard layout', () => {
+      const standard = new SequentialGuidGenerator({ machineId });
+      const sqlServer = new SequentialGuidGenerator({ machineId, layout: 'sqlserver' });
+
+      expect(sqlServer.extractTimestamp(sqlServer.generate()))
+        .toEqual(standard.extractTimestamp(standard.generate()));
+    });
+  });
+});
+
+describe('comb layout', () => {
+  const now = Date.parse('2024-05-01T12:00:00Z');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should write days and 1/300 second ticks into the trailing six bytes', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const generator = new SequentialGuidGenerator({ layout: 'comb' });
+
+    const guid = generator.generate();
+
+    // 45411 days since 1900-01-01 (0xB163), 43,200,000 ms / 3.333333 = 12,960,001 (0xC5C101)
+    expect(guid.substring(24)).toBe('B16300C5C101');
+    expect(guid[14]).toBe('4');
+    expect(['8', '9', 'A', 'B']).toContain(guid[19]);
+  });
+
+  it('should round-trip timestamps to within one 1/300 second tick', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now + 12345);
+    const generator = new SequentialGuidGenerator({ layout: 'comb' });
+
+    const timestamp = generator.extractTimestamp(generator.generate()).getTime();
+
+    expect(Math.abs(timestamp - (now + 12345))).toBeLessThanOrEqual(4);
+  });
+
+  it('should decode COMB GUIDs produced by NHibernate', () => {
+    // Trailing bytes written by GuidCombGenerator for 2024-05-01T12:00:00Z
+    const guid = '3F2504E0-4F89-41D3-9A0C-B16300C5C101';
+
+    expect(SequentialGuidGenerator.isCombGuid(guid)).toBe(true);
+    expect(SequentialGuidGenerator.extractCombTimestamp(guid).toISOString()).toBe('2024-05-01T12:00:00.000Z');
+  });
+
+  it('should sort by time under SQL Server ordering', () => {
+    const clock = jest.spyOn(Date, 'now');
+    const generator = new SequentialGuidGenerator({ layout: 'comb' });
+
+    const guids = [0, 10, 20, 1000, 86400000].map(offset => {
+      clock.mockReturnValue(now + offset);
+      return generator.generate();
+    });
+
+    expect([...guids].sort(compareSqlServerGuids)).toEqual(guids);
+  });
+
+  it('should not recognize non-COMB GUIDs', () => {
+    expect(SequentialGuidGenerator.isCombGuid('550E8400-E29B-41D4-A716-446655440000')).toBe(false);
+    expect(SequentialGuidGenerator.isCombGuid('00000000-0000-0000-0000-000000000000')).toBe(false);
+  });
+});
+
+describe('time ranges', () => {
+  const start = Date.parse('2025-03-01T00:00:00.000Z');
+  const end = start + 60000;
+
+  it.each([
+    ['sqlserver', 'sqlserver'],
+    ['comb', 'sqlserver'],
+    ['standard', 'postgresql'],
+    ['mysql', 'mysql'],
+  ] as const)('should bound exactly the GUIDs a %s generator issued in the window', (layout, dialect) => {
+    const generator = new SequentialGuidGenerator({ layout, clock: createSteppingClock(start - 30000, 997) });
+    const range = generator.getTimeRange(start, end);
+    const guids = generator.generateBatch(120);
+
+    for (const guid of guids) {
+      const time = generator.extractTimestamp(guid).getTime();
+      const inside = compareGuids(guid, range.min, dialect) >= 0 && compareGuids(guid, range.upperBound, dialect) < 0;
+      // COMB time of day is stored in 1/300 second ticks
+      const tolerance = layout === 'comb' ? 4 : 0;
+
+      if (time >= start + tolerance && time < end - tolerance) {
+        expect(inside).toBe(true);
+        expect(compareGuids(guid, range.max, dialect)).toBeLessThanOrEqual(0);
+      } else if (time < start - tolerance || time >= end + tolerance) {
+        expect(inside).toBe(false);
+      }
+    }
+  });
+
+  it('should zero everything but the timestamp in the boundaries', () => {
+    const generator = new SequentialGuidGenerator({ layout: 'sqlserver', machineId: Buffer.from('A1B2C3D4', 'hex') });
+    const range = generator.getTimeRange(start, end);
+
+    expect(range).toMatchObject({ start: new Date(start), end: new Date(end), layout: 'sqlserver' });
+    expect(range.min).toBe(generator.getBoundaryGuid(start));
+    expect(range.min).toMatch(/^00000000-0000-0000-0000-[0-9A-F]{12}$/);
+    expect(range.max).toMatch(/^FFFFFFFF-FFFF-FFFF-FFFF-[0-9A-F]{12}$/);
+    expect(generator.extractTimestamp(range.min).getTime()).toBe(start);
+    expect(generator.extractTimestamp(range.max).getTime()).toBe(end - 1);
+  });
+
+  it('should fix the machine ID when asked to', () => {
+    const generator = new SequentialGuidGenerator({ layout: 'sqlserver', machineId: Buffer.from('A1B2C3D4', 'hex') });
+    const range = generator.getTimeRange(start, end, { ownMachineOnly: true });
+
+    expect(SequentialGuidGenerator.extractMachineId(range.min, { layout: 'sqlserver' })).toBe('A1B0C3D4');
+    expect(SequentialGuidGenerator.extractMachineId(range.max, { layout: 'sqlserver' })).toBe('A1B0C3D4');
+    expect(compareGuids(range.min, generator.getBoundaryGuid(start))).toBeGreaterThan(0);
+  });
+
+  it('should reject windows the layout cannot encode', () => {
+    const generator = new SequentialGuidGenerator({ layout: 'sqlserver' });
+
+    expect(() => generator.getTimeRange(end, start)).toThrow('Start must be before end');
+    expect(() => generator.getTimeRange(Date.UTC(1899, 0, 1), end)).toThrow('Start must be between 1900-01-01T00:00:00.000Z');
+    expect(() => generator.getTimeRange(start, NaN)).toThrow('End must be a valid date');
+    expect(() => new SequentialGuidGenerator({ layout: 'comb' }).getBoundaryGuid(Date.UTC(2080, 0, 1))).toThrow('2079-06-07T00:00:00.000Z');
+  });
+});
+
+describe('compareSqlServerGuids', () => {
+  it('should treat bytes 10-15 as most significant', () => {
+    const low = 'FFFFFFFF-FFFF-FFFF-FFFF-000000000000';
+    const high = '00000000-0000-0000-0000-000000000001';
+    expect(compareSqlServerGuids(low, high)).toBeLessThan(0);
+    expect(compareSqlServerGuids(high, low)).toBeGreaterThan(0);
+  });
+
+  it('should order groups 10-15, 8-9, 6-7, 4-5, 0-3', () => {
+    const ascending = [
+      '00000001-0000-0000-0000-000000000000',
+      '00000000-0001-0000-0000-000000000000',
+      '00000000-0000-0001-0000-000000000000',
+      '00000000-0000-0000-0001-000000000000',
+      '00000000-0000-0000-0000-000000000001',
+    ];
+    const shuffled = [ascending[3], ascending[0], ascending[4], ascending[2], ascending[1]];
+
+    expect(shuffled.sort(compareSqlServerGuids)).toEqual(ascending);
+  });
+
+  it('should compare the little-endian groups from their last byte', () => {
+    // Bytes 0-3 are stored little-endian, so byte 3 outweighs byte 0
+    expect(compareSqlServerGuids('FF000000-0000-0000-0000-000000000000', '00000001-0000-0000-0000-000000000000'))
+      .toBeLessThan(0);
+  });
+
+  it('should return zero for equal GUIDs regardless of case', () => {
+    expect(compareSqlServerGuids('550E8400-E29B-41D4-A716-446655440000', '550e8400-e29b-41d4-a716-446655440000'))
+      .toBe(0);
+  });
+});
+
 describe('Convenience Functions', () => {
   describe('generateSequentialGuid', () => {
     it('should generate a valid GUID', () => {
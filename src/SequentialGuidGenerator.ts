@@ -7,79 +7,405 @@
  * The format follows SQL Server's NEWSEQUENTIALID() pattern:
  * - First 8 bytes: Sequential (timestamp + machine identifier)
  * - Last 8 bytes: Random
+ *
+ * The timestamp is a 48-bit unsigned count of milliseconds since the configured
+ * epoch (1900-01-01 by default), computed with BigInt so it never wraps. It stays
+ * monotonic until epoch + 2^48 ms; for the default epoch that is 10819-08-03T05:31:50.656Z.
  */
 
 import { randomBytes } from 'crypto';
+import type { GeneratorState, GeneratorStateStore } from './GeneratorStateStore.js';
+import { HostIdentity, MachineIdResolution, MachineIdStrategy, resolveMachineId } from './MachineId.js';
+import { LAYOUT_BYTE_ORDER, SqlDialectName, compareGuids, getDialect } from './SqlDialect.js';
+import { GuidByteOptions, convertByteOrder } from './GuidBytes.js';
+
+/**
+ * Byte layout used when placing the time/sequence fields into a GUID.
+ *
+ * - `standard`: timestamp first, so GUIDs sort by their string (and byte) form
+ * - `sqlserver`: timestamp in bytes 10-15 and sequence in bytes 8-9, so GUIDs
+ *   sort by SQL Server's uniqueidentifier comparison rules
+ * - `mysql`: timestamp in bytes 6-7, 4-5 and 0-1, so GUIDs stay sequential after
+ *   MySQL's `UUID_TO_BIN(id, 1)` swaps the time fields
+ * - `comb`: NHibernate-compatible COMB GUID, a random v4 GUID whose trailing six
+ *   bytes hold days since 1900-01-01 and the time of day in 1/300 second units
+ */
+export type GuidLayout = 'standard' | 'sqlserver' | 'mysql' | 'comb';
+
+/**
+ * All supported GUID layouts
+ */
+export const GUID_LAYOUTS: readonly GuidLayout[] = ['standard', 'sqlserver', 'mysql', 'comb'];
+
+/**
+ * What a generator does when the clock reads earlier than the last timestamp it issued:
+ *
+ * - `wait`: block until the clock catches up (up to `maxClockRegressionWaitMs`)
+ * - `reuse`: keep the last timestamp and bump the sequence, so order is preserved
+ * - `throw`: throw a ClockRegressionError
+ * - `log`: report through `onClockRegression` and issue from the regressed clock
+ */
+export type ClockRegressionPolicy = 'wait' | 'reuse' | 'throw' | 'log';
+
+/**
+ * All supported clock regression policies
+ */
+export const CLOCK_REGRESSION_POLICIES: readonly ClockRegressionPolicy[] = ['wait', 'reuse', 'throw', 'log'];
+
+/**
+ * Details of a detected clock regression
+ */
+export interface ClockRegressionEvent {
+    /** Timestamp of the last GUID issued */
+    previousTimestamp: Date;
+    /** Time the clock reported */
+    currentTimestamp: Date;
+    /** How far the clock moved backwards, in milliseconds */
+    regressionMs: number;
+    /** Policy applied to the regression */
+    policy: ClockRegressionPolicy;
+}
+
+/**
+ * Thrown when the clock moves backwards and the policy does not allow recovering
+ */
+export class ClockRegressionError extends Error {
+    public readonly previousTimestamp: Date;
+    public readonly currentTimestamp: Date;
+    public readonly regressionMs: number;
+
+    constructor(event: ClockRegressionEvent) {
+        super(`Clock moved backwards by ${event.regressionMs}ms (from ${event.previousTimestamp.toISOString()} to ${event.currentTimestamp.toISOString()})`);
+        this.name = 'ClockRegressionError';
+        this.previousTimestamp = event.previousTimestamp;
+        this.currentTimestamp = event.currentTimestamp;
+        this.regressionMs = event.regressionMs;
+    }
+}
+
+/**
+ * Source of random bytes; must return a buffer of exactly `size` bytes.
+ * Defaults to crypto.randomBytes.
+ */
+export type RandomSource = (size: number) => Buffer;
+
+/**
+ * Reads `size` bytes from a random source into a new buffer, checking the length
+ * it returned
+ */
+export function readRandom(randomSource: RandomSource, size: number): Buffer {
+    const bytes = randomSource(size);
+    if (!Buffer.isBuffer(bytes) || bytes.length !== size) {
+        throw new Error(`Random source must return exactly ${size} bytes`);
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * A run of consecutive sequence numbers reserved within one timestamp tick
+ */
+interface SequenceBlock {
+    kind: 'block';
+    ticks: bigint;
+    first: number;
+    size: number;
+}
+
+/**
+ * Result of a reservation attempt: either a block, or the tick the clock must pass
+ * before trying again
+ */
+type Reservation = SequenceBlock | { kind: 'wait'; untilAfter: bigint };
+
+/**
+ * Where a generator's machine ID came from
+ */
+export interface MachineIdInfo {
+    machineId: string;
+    /**
+     * `explicit` for the machineId option, `persisted` for a state store, otherwise
+     * the machine ID strategy that produced it
+     */
+    strategy: 'explicit' | 'persisted' | MachineIdResolution['strategy'];
+    source?: string;
+}
+
+/**
+ * GUIDs bounding a time window in a layout's index order
+ */
+export interface GuidTimeRange {
+    /** Start of the window (inclusive) */
+    start: Date;
+    /** End of the window (exclusive) */
+    end: Date;
+    layout: GuidLayout;
+    /** Smallest GUID of the window; use as `Id >= @min` */
+    min: string;
+    /** Largest GUID of the window; use as `Id <= @max` */
+    max: string;
+    /** Smallest GUID after the window; use as `Id < @upperBound` */
+    upperBound: string;
+}
+
+export interface GuidTimeRangeOptions {
+    /**
+     * Fix this generator's machine ID in the bounds. Tightens them at the edges of
+     * the window; GUIDs of other machines issued in between still fall inside.
+     */
+    ownMachineOnly?: boolean;
+}
 
 export interface GuidGeneratorOptions {
     /**
-     * Custom machine identifier (4 bytes). If not provided, will be generated randomly.
+     * Custom machine identifier (4 bytes). If not provided, it is derived with
+     * `machineIdStrategy`, taken from the state store or generated randomly.
      */
     machineId?: Buffer;
 
     /**
-     * Custom epoch for timestamp generation. Defaults to Unix epoch.
+     * Derives the machine ID from the host (hostname, MAC address, GUID_MACHINE_ID,
+     * Kubernetes pod ordinal). Takes precedence over a persisted machine ID.
+     * Defaults to a persisted or random ID.
+     */
+    machineIdStrategy?: MachineIdStrategy;
+
+    /**
+     * Host facts used by `machineIdStrategy`. Defaults to the current host.
+     */
+    hostIdentity?: HostIdentity;
+
+    /**
+     * Custom epoch for timestamp generation. Defaults to 1900-01-01T00:00:00Z.
+     * The generator can issue GUIDs until epoch + 2^48 milliseconds.
      */
     epoch?: Date;
+
+    /**
+     * Byte layout of the generated GUIDs. Defaults to `standard`.
+     * Use `sqlserver` for uniqueidentifier clustered keys, or `comb` to interoperate
+     * with NHibernate's GuidComb generator (machine ID and epoch are not encoded).
+     */
+    layout?: GuidLayout;
+
+    /**
+     * Database the GUIDs are stored in. Picks the layout that stays sequential in
+     * that engine's index order; an explicit `layout` must be one that does.
+     */
+    dialect?: SqlDialectName;
+
+    /**
+     * Width of the per-millisecond sequence counter, from 4 to 16 bits. Defaults to 4.
+     * The counter replaces the low-order bits of the first two machine ID bytes, so
+     * wider counters overflow less often at the cost of machine ID bits.
+     */
+    sequenceBits?: number;
+
+    /**
+     * Clock source returning milliseconds since the Unix epoch. Defaults to Date.now.
+     */
+    clock?: () => number;
+
+    /**
+     * Source of the random machine ID and random GUID bytes. Defaults to
+     * crypto.randomBytes; inject a seeded source for reproducible output.
+     */
+    randomSource?: RandomSource;
+
+    /**
+     * What to do when the clock moves backwards. Defaults to `reuse`.
+     */
+    clockRegressionPolicy?: ClockRegressionPolicy;
+
+    /**
+     * Longest regression the `wait` policy blocks for before throwing a
+     * ClockRegressionError. Defaults to 1000 ms.
+     */
+    maxClockRegressionWaitMs?: number;
+
+    /**
+     * Called whenever the clock reads earlier than the last issued timestamp.
+     * Defaults to console.warn for the `log` policy and to nothing otherwise.
+     */
+    onClockRegression?: (event: ClockRegressionEvent) => void;
+
+    /**
+     * Persists the machine ID and a high-water-mark timestamp across restarts.
+     * A persisted machine ID is used unless `machineId` is given, and no GUID is
+     * issued below the persisted mark.
+     */
+    stateStore?: GeneratorStateStore;
+
+    /**
+     * How far ahead of the issued timestamps the high-water mark is persisted, so
+     * the store is written at most once per lease rather than on every tick.
+     * Defaults to 1000 ms.
+     */
+    stateLeaseMs?: number;
 }
 
 export class SequentialGuidGenerator {
     private static readonly EPOCH = new Date('1900-01-01T00:00:00Z');
-    private static readonly TICKS_PER_MILLISECOND = 10000;
+    /** Width of the encoded timestamp field; one tick is one millisecond */
+    private static readonly TIMESTAMP_BITS = 48n;
+    private static readonly MAX_TIMESTAMP = (1n << SequentialGuidGenerator.TIMESTAMP_BITS) - 1n;
+    private static readonly COMB_BASE_DATE = Date.UTC(1900, 0, 1);
+    private static readonly COMB_MILLISECONDS_PER_TICK = 3.333333;
+    private static readonly MILLISECONDS_PER_DAY = 86400000;
     
     private readonly machineId: Buffer;
+    private readonly machineIdInfo: Omit<MachineIdInfo, 'machineId'>;
     private readonly epoch: Date;
-    private lastTimestamp: number = 0;
+    private readonly layout: GuidLayout;
+    private readonly maxSequence: number;
+    private readonly clock: () => number;
+    private readonly randomSource: RandomSource;
+    private readonly clockRegressionPolicy: ClockRegressionPolicy;
+    private readonly maxClockRegressionWaitMs: number;
+    private readonly onClockRegression?: (event: ClockRegressionEvent) => void;
+    private readonly stateStore?: GeneratorStateStore;
+    private readonly stateLeaseMs: number;
+    private lastTimestamp: bigint = -1n;
     private sequence: number = 0;
+    /** Persisted high-water mark restored on startup; never issued below */
+    private floorTimestamp: bigint = -1n;
+    /** True until the clock passes the timestamps issued above a restored mark */
+    private resuming = false;
+    /** Highest timestamp covered by the persisted high-water mark */
+    private leaseUntil: bigint = -1n;
 
     constructor(options: GuidGeneratorOptions = {}) {
-        this.machineId = options.machineId || this.generateMachineId();
+        this.randomSource = options.randomSource || randomBytes;
+        this.stateStore = options.stateStore;
+        this.stateLeaseMs = options.stateLeaseMs ?? 1000;
+
+        const state = this.stateStore?.load();
+        const strategy = options.machineIdStrategy;
+        if (options.machineId) {
+            this.machineId = options.machineId;
+            this.machineIdInfo = { strategy: 'explicit' };
+        } else if (strategy && strategy !== 'random') {
+            const resolved = resolveMachineId(strategy, options.hostIdentity);
+            this.machineId = resolved.machineId;
+            this.machineIdInfo = { strategy: resolved.strategy, source: resolved.source };
+        } else if (state && !strategy) {
+            this.machineId = Buffer.from(state.machineId, 'hex');
+            this.machineIdInfo = { strategy: 'persisted', source: 'state store' };
+        } else {
+            this.machineId = this.generateMachineId();
+            this.machineIdInfo = { strategy: 'random' };
+        }
         this.epoch = options.epoch || SequentialGuidGenerator.EPOCH;
+        this.layout = options.layout || (options.dialect ? getDialect(options.dialect).layouts[0] : 'standard');
+        this.maxSequence = (1 << (options.sequenceBits ?? 4)) - 1;
+        this.clock = options.clock || (() => Date.now());
+        this.clockRegressionPolicy = options.clockRegressionPolicy || 'reuse';
+        this.maxClockRegressionWaitMs = options.maxClockRegressionWaitMs ?? 1000;
+        this.onClockRegression = options.onClockRegression
+            || (this.clockRegressionPolicy === 'log' ? event => console.warn(new ClockRegressionError(event).message) : undefined);
         
         if (this.machineId.length !== 4) {
             throw new Error('Machine ID must be exactly 4 bytes');
         }
+
+        const sequenceBits = options.sequenceBits ?? 4;
+        if (!Number.isInteger(sequenceBits) || sequenceBits < 4 || sequenceBits > 16) {
+            throw new Error('Sequence bits must be an integer between 4 and 16');
+        }
+
+        if (isNaN(this.epoch.getTime())) {
+            throw new Error('Epoch must be a valid date');
+        }
+
+        if (!GUID_LAYOUTS.includes(this.layout)) {
+            throw new Error(`Unsupported GUID layout: ${this.layout}`);
+        }
+
+        if (options.dialect && !getDialect(options.dialect).layouts.includes(this.layout)) {
+            throw new Error(`Layout ${this.layout} is not sequential in ${getDialect(options.dialect).displayName}`);
+        }
+
+        if (!CLOCK_REGRESSION_POLICIES.includes(this.clockRegressionPolicy)) {
+            throw new Error(`Unsupported clock regression policy: ${this.clockRegressionPolicy}`);
+        }
+
+        if (!Number.isInteger(this.stateLeaseMs) || this.stateLeaseMs < 0) {
+            throw new Error('State lease must be a non-negative integer number of milliseconds');
+        }
+
+        if (this.stateStore) {
+            this.restoreState();
+        }
     }
 
     /**
-     * Generates a new sequential GUID
+     * Generates a new sequential GUID.
+     *
+     * Busy-waits if the sequence is exhausted within the current millisecond;
+     * use generateAsync to yield to the event loop instead.
      */
     public generate(): string {
-        const now = Date.now();
-        const timestamp = this.getTimestamp(now);
-        const guid = Buffer.alloc(16);
+        return this.formatGuid(this.nextBuffer());
+    }
 
-        // First 6 bytes: Timestamp (big-endian)
-        guid.writeUInt32BE(timestamp >>> 16, 0);
-        guid.writeUInt16BE(timestamp & 0xFFFF, 4);
+    /**
+     * Generates a new sequential GUID as 16 raw bytes, e.g. to bind as a driver
+     * parameter without a string round trip. Bytes are in RFC (string) order
+     * unless another order is requested.
+     */
+    public generateBuffer(options: GuidByteOptions = {}): Buffer {
+        return convertByteOrder(this.nextBuffer(), 'rfc', options.order || 'rfc');
+    }
 
-        // Next 2 bytes: Machine ID + Sequence
-        guid.writeUInt16BE((this.machineId.readUInt16BE(0) & 0xFFF0) | (this.sequence & 0x000F), 6);
+    /**
+     * Generates a new sequential GUID, yielding to the event loop while waiting
+     * for the clock instead of blocking it
+     */
+    public async generateAsync(): Promise<string> {
+        if (this.layout === 'comb') {
+            return this.formatGuid(this.generateComb());
+        }
 
-        // Last 2 bytes of machine ID
-        guid.writeUInt16BE(this.machineId.readUInt16BE(2), 8);
+        const block = await this.reserveAsync(1);
+        return this.formatGuid(this.buildGuid(block.ticks, block.first));
+    }
 
-        // Last 6 bytes: Random
-        const randomPart = randomBytes(6);
-        randomPart.copy(guid, 10);
+    /**
+     * Generates multiple sequential GUIDs efficiently.
+     *
+     * Sequence numbers are reserved a whole block at a time: every number left in
+     * the current millisecond is claimed at once, and the next block is only
+     * requested when that one is used up.
+     */
+    public generateBatch(count: number): string[] {
+        return this.nextBuffers(count).map(buffer => this.formatGuid(buffer));
+    }
 
-        // Format as GUID string
-        return this.formatGuid(guid);
+    /**
+     * Generates multiple sequential GUIDs as 16-byte buffers, in RFC (string)
+     * order unless another order is requested
+     */
+    public generateBatchBuffers(count: number, options: GuidByteOptions = {}): Buffer[] {
+        return this.nextBuffers(count).map(buffer => convertByteOrder(buffer, 'rfc', options.order || 'rfc'));
     }
 
     /**
-     * Generates multiple sequential GUIDs efficiently
+     * Asynchronous counterpart of generateBatch that yields to the event loop
+     * whenever it has to wait for the clock
      */
-    public generateBatch(count: number): string[] {
+    public async generateBatchAsync(count: number): Promise<string[]> {
         if (count <= 0) {
             throw new Error('Count must be a positive number');
         }
 
-        const guids: string[] = [];
-        for (let i = 0; i < count; i++) {
-            guids.push(this.generate());
+        const guids: Buffer[] = [];
+        while (guids.length < count) {
+            if (this.layout === 'comb') {
+                guids.push(this.generateComb());
+                continue;
+            }
+            this.pushBlock(guids, await this.reserveAsync(count - guids.length));
         }
-        return guids;
+        return guids.map(buffer => this.formatGuid(buffer));
     }
 
     /**
@@ -89,6 +415,68 @@ export class SequentialGuidGenerator {
         return this.machineId.toString('hex').toUpperCase();
     }
 
+    /**
+     * Returns whether the generator persists its state in a GeneratorStateStore
+     */
+    public hasStateStore(): boolean {
+        return this.stateStore !== undefined;
+    }
+
+    /**
+     * Returns the machine ID with the strategy it was obtained by
+     */
+    public getMachineIdInfo(): MachineIdInfo {
+        return { machineId: this.getMachineId(), ...this.machineIdInfo };
+    }
+
+    /**
+     * Returns the first instant this generator can no longer encode (epoch + 2^48 ms)
+     */
+    public getRolloverDate(): Date {
+        return new Date(this.epoch.getTime() + Number(SequentialGuidGenerator.MAX_TIMESTAMP) + 1);
+    }
+
+    /**
+     * Returns the byte layout used by this generator
+     */
+    public getLayout(): GuidLayout {
+        return this.layout;
+    }
+
+    /**
+     * Returns the smallest GUID this generator's layout can hold at `time`. Every GUID
+     * issued at or after `time` compares greater than or equal to it in the layout's
+     * index order, so it can serve as a range or partition boundary.
+     */
+    public getBoundaryGuid(time: Date | number): string {
+        return this.formatGuid(this.buildBound(this.toBoundTime(time, 'Time'), 0x00, false));
+    }
+
+    /**
+     * Returns the GUIDs bounding the window [start, end) in this layout's index order,
+     * which is SQL Server's order for the sqlserver and comb layouts. Every GUID issued
+     * in the window satisfies `Id >= min AND Id < upperBound`. COMB bounds are rounded
+     * down to 1/300 second ticks.
+     */
+    public getTimeRange(start: Date | number, end: Date | number, options: GuidTimeRangeOptions = {}): GuidTimeRange {
+        const startTime = this.toBoundTime(start, 'Start');
+        const endTime = this.toBoundTime(end, 'End');
+        const ownMachine = options.ownMachineOnly ?? false;
+
+        if (startTime >= endTime) {
+            throw new Error('Start must be before end');
+        }
+
+        return {
+            start: new Date(startTime),
+            end: new Date(endTime),
+            layout: this.layout,
+            min: this.formatGuid(this.buildBound(startTime, 0x00, ownMachine)),
+            max: this.formatGuid(this.buildBound(endTime - 1, 0xFF, ownMachine)),
+            upperBound: this.formatGuid(this.buildBound(endTime, 0x00, ownMachine)),
+        };
+    }
+
     /**
      * Validates if a string is a properly formatted GUID
      */
@@ -97,6 +485,62 @@ export class SequentialGuidGenerator {
         return guidRegex.test(guid);
     }
 
+    /**
+     * Checks whether a GUID looks like an NHibernate COMB GUID: a version 4 GUID whose
+     * trailing six bytes decode to a time of day and a date between 2000 and tomorrow
+     */
+    public static isCombGuid(guid: string): boolean {
+        if (!this.isValidGuid(guid) || getGuidVersion(guid) !== 4) {
+            return false;
+        }
+
+        const buffer = this.guidToBuffer(guid);
+        const ticks = buffer.readUInt32BE(12);
+        if (ticks * SequentialGuidGenerator.COMB_MILLISECONDS_PER_TICK >= SequentialGuidGenerator.MILLISECONDS_PER_DAY) {
+            return false;
+        }
+
+        const timestamp = this.extractCombTimestamp(guid).getTime();
+        return timestamp >= Date.UTC(2000, 0, 1)
+            && timestamp <= Date.now() + SequentialGuidGenerator.MILLISECONDS_PER_DAY;
+    }
+
+    /**
+     * Extracts the timestamp from a COMB GUID (days since 1900-01-01 in bytes 10-11,
+     * time of day in 1/300 second units in bytes 12-15). Encoding truncates, so the
+     * first whole millisecond of the tick is returned.
+     */
+    public static extractCombTimestamp(guid: string): Date {
+        const buffer = this.guidToBuffer(guid);
+        const days = buffer.readUInt16BE(10);
+        const ticks = buffer.readUInt32BE(12);
+
+        return new Date(
+            SequentialGuidGenerator.COMB_BASE_DATE
+            + days * SequentialGuidGenerator.MILLISECONDS_PER_DAY
+            + Math.ceil(ticks * SequentialGuidGenerator.COMB_MILLISECONDS_PER_TICK)
+        );
+    }
+
+    /**
+     * Formats a 16-byte buffer as an upper-case GUID string
+     */
+    public static bufferToGuid(buffer: Buffer): string {
+        if (buffer.length !== 16) {
+            throw new Error('GUID buffer must be exactly 16 bytes');
+        }
+
+        const parts = [
+            buffer.toString('hex', 0, 4),
+            buffer.toString('hex', 4, 6),
+            buffer.toString('hex', 6, 8),
+            buffer.toString('hex', 8, 10),
+            buffer.toString('hex', 10, 16)
+        ];
+
+        return parts.map(part => part.toUpperCase()).join('-');
+    }
+
     /**
      * Converts a GUID string to buffer for analysis
      */
@@ -110,58 +554,403 @@ export class SequentialGuidGenerator {
     }
 
     /**
-     * Extracts timestamp information from a sequential GUID
+     * Reads the machine ID carried by a GUID issued with the given layout and
+     * sequence width. The low bits of the first two bytes hold the sequence
+     * counter, so they are returned as zero.
+     */
+    public static extractMachineId(guid: string, options: { layout?: GuidLayout; sequenceBits?: number } = {}): string {
+        const layout = options.layout || 'standard';
+        const sequenceBits = options.sequenceBits ?? 4;
+
+        if (!GUID_LAYOUTS.includes(layout)) {
+            throw new Error(`Unsupported GUID layout: ${layout}`);
+        }
+
+        if (layout === 'comb') {
+            throw new Error('COMB GUIDs do not encode a machine ID');
+        }
+
+        if (!Number.isInteger(sequenceBits) || sequenceBits < 4 || sequenceBits > 16) {
+            throw new Error('Sequence bits must be an integer between 4 and 16');
+        }
+
+        const ordered = this.toSignificanceOrder(this.guidToBuffer(guid), layout);
+        const machineId = Buffer.alloc(4);
+        machineId.writeUInt16BE(ordered.readUInt16BE(6) & ~((1 << sequenceBits) - 1) & 0xFFFF, 0);
+        ordered.copy(machineId, 2, 8, 10);
+        return machineId.toString('hex').toUpperCase();
+    }
+
+    /**
+     * Extracts timestamp information from a sequential GUID.
+     *
+     * The GUID is always decoded with this generator's layout and epoch; use
+     * UuidV7Generator.extractTimestamp for UUIDv7 values.
      */
     public extractTimestamp(guid: string): Date {
-        const buffer = this.guidToBuffer(guid);
-        
-        // Read timestamp (first 6 bytes)
-        const timestampHigh = buffer.readUInt32BE(0);
-        const timestampLow = buffer.readUInt16BE(4);
-        const timestamp = (timestampHigh << 16) | timestampLow;
-        
-        const millisecondsSinceEpoch = timestamp / SequentialGuidGenerator.TICKS_PER_MILLISECOND;
-        return new Date(this.epoch.getTime() + millisecondsSinceEpoch);
+        if (this.layout === 'comb') {
+            return SequentialGuidGenerator.extractCombTimestamp(guid);
+        }
+
+        const buffer = this.removeLayout(this.guidToBuffer(guid));
+
+        // Read the 48-bit timestamp (first 6 bytes)
+        const timestamp = (BigInt(buffer.readUInt32BE(0)) << 16n) | BigInt(buffer.readUInt16BE(4));
+
+        return new Date(this.epoch.getTime() + Number(timestamp));
     }
 
-    private getTimestamp(now: number): number {
-        const milliseconds = now - this.epoch.getTime();
-        const ticks = Math.floor(milliseconds * SequentialGuidGenerator.TICKS_PER_MILLISECOND);
-        
-        // Handle sequence overflow within the same millisecond
+    /**
+     * Writes the timestamp, machine ID and sequence number into a new GUID
+     */
+    private buildGuid(timestamp: bigint, sequence: number): Buffer {
+        const guid = Buffer.alloc(16);
+
+        // First 6 bytes: 48-bit timestamp (big-endian)
+        guid.writeUInt32BE(Number(timestamp >> 16n), 0);
+        guid.writeUInt16BE(Number(timestamp & 0xFFFFn), 4);
+
+        // Next 2 bytes: Machine ID + Sequence
+        guid.writeUInt16BE((this.machineId.readUInt16BE(0) & ~this.maxSequence & 0xFFFF) | sequence, 6);
+
+        // Last 2 bytes of machine ID
+        guid.writeUInt16BE(this.machineId.readUInt16BE(2), 8);
+
+        // Last 6 bytes: Random
+        const randomPart = readRandom(this.randomSource, 6);
+        randomPart.copy(guid, 10);
+
+        return this.applyLayout(guid);
+    }
+
+    /**
+     * Generates the next GUID in RFC byte order, busy-waiting for the clock when required
+     */
+    private nextBuffer(): Buffer {
+        if (this.layout === 'comb') {
+            return this.generateComb();
+        }
+
+        const block = this.reserveSync(1);
+        return this.buildGuid(block.ticks, block.first);
+    }
+
+    private nextBuffers(count: number): Buffer[] {
+        if (count <= 0) {
+            throw new Error('Count must be a positive number');
+        }
+
+        const guids: Buffer[] = [];
+        while (guids.length < count) {
+            if (this.layout === 'comb') {
+                guids.push(this.generateComb());
+                continue;
+            }
+            this.pushBlock(guids, this.reserveSync(count - guids.length));
+        }
+        return guids;
+    }
+
+    private pushBlock(guids: Buffer[], block: SequenceBlock): void {
+        for (let i = 0; i < block.size; i++) {
+            guids.push(this.buildGuid(block.ticks, block.first + i));
+        }
+    }
+
+    /**
+     * Reserves sequence numbers, busy-waiting for the clock when required
+     */
+    private reserveSync(count: number): SequenceBlock {
+        for (;;) {
+            const reservation = this.reserve(count);
+            if (reservation.kind === 'block') {
+                return reservation;
+            }
+
+            while (this.toTicks(this.clock()) <= reservation.untilAfter) {
+                // Busy wait
+            }
+        }
+    }
+
+    /**
+     * Reserves sequence numbers, sleeping on timers while waiting for the clock
+     */
+    private async reserveAsync(count: number): Promise<SequenceBlock> {
+        for (;;) {
+            const reservation = this.reserve(count);
+            if (reservation.kind === 'block') {
+                return reservation;
+            }
+
+            let ticks = this.toTicks(this.clock());
+            while (ticks <= reservation.untilAfter) {
+                const remaining = Number(reservation.untilAfter - ticks);
+                await new Promise(resolve => setTimeout(resolve, remaining));
+                ticks = this.toTicks(this.clock());
+            }
+        }
+    }
+
+    /**
+     * Reads the clock and reserves up to `count` consecutive sequence numbers in the
+     * current tick. Never blocks: when the tick is exhausted, or the clock is behind
+     * under the `wait` policy, it returns the tick the clock must pass first.
+     */
+    private reserve(count: number): Reservation {
+        let ticks = this.toTicks(this.clock());
+        let holdingClock = false;
+
+        if (this.resuming && ticks <= this.lastTimestamp) {
+            // Still inside the lease claimed before a restart: not a regression,
+            // keep issuing above the restored mark until the clock passes it
+            ticks = this.lastTimestamp;
+            holdingClock = true;
+        } else if (ticks < this.lastTimestamp) {
+            const resolved = this.handleClockRegression(ticks);
+            if (resolved === null) {
+                return { kind: 'wait', untilAfter: this.lastTimestamp - 1n };
+            }
+            holdingClock = resolved === this.lastTimestamp;
+            ticks = resolved;
+        } else {
+            this.resuming = false;
+        }
+
+        let first = 0;
         if (ticks === this.lastTimestamp) {
-            this.sequence = (this.sequence + 1) & 0x000F;
-            if (this.sequence === 0) {
-                // Sequence overflow, wait for next millisecond
-                while (Date.now() <= now) {
-                    // Busy wait
+            first = this.sequence + 1;
+            if (first > this.maxSequence) {
+                if (!holdingClock) {
+                    // Sequence overflow, wait for next millisecond
+                    return { kind: 'wait', untilAfter: this.lastTimestamp };
                 }
-                return this.getTimestamp(Date.now());
+                // The clock is behind; advance logically instead of waiting for it
+                ticks = this.lastTimestamp + 1n;
+                first = 0;
             }
-        } else {
-            this.sequence = 0;
         }
-        
+
+        if (this.stateStore && ticks > this.leaseUntil) {
+            // Persist before issuing, so a failed write issues nothing
+            this.extendLease(ticks);
+        }
+
+        const size = Math.min(count, this.maxSequence - first + 1);
         this.lastTimestamp = ticks;
+        this.sequence = first + size - 1;
+        return { kind: 'block', ticks, first, size };
+    }
+
+    /**
+     * Applies the clock regression policy. Returns the ticks to issue, or null when
+     * the caller should wait for the clock to catch up.
+     */
+    private handleClockRegression(ticks: bigint): bigint | null {
+        const event: ClockRegressionEvent = {
+            previousTimestamp: new Date(this.epoch.getTime() + Number(this.lastTimestamp)),
+            currentTimestamp: new Date(this.epoch.getTime() + Number(ticks)),
+            regressionMs: Number(this.lastTimestamp - ticks),
+            policy: this.clockRegressionPolicy,
+        };
+
+        this.onClockRegression?.(event);
+
+        switch (this.clockRegressionPolicy) {
+            case 'wait':
+                if (event.regressionMs > this.maxClockRegressionWaitMs) {
+                    throw new ClockRegressionError(event);
+                }
+                return null;
+            case 'reuse':
+                return this.lastTimestamp;
+            case 'throw':
+                throw new ClockRegressionError(event);
+            case 'log':
+                // Never go below a high-water mark persisted by a previous instance
+                return ticks < this.floorTimestamp ? this.lastTimestamp : ticks;
+        }
+    }
+
+    /**
+     * Resumes from persisted state: the high-water mark becomes the last issued
+     * timestamp with its sequence exhausted, so the first GUID is strictly above
+     * it. Until the clock passes the GUIDs issued above the mark they continue
+     * from it without engaging the clock regression policy; the mark is a lease
+     * claimed ahead of time, not a clock reading. The first lease is claimed in
+     * the same store update that reads the mark, with the machine ID in use.
+     */
+    private restoreState(): void {
+        const now = this.toTicks(this.clock());
+
+        this.updateState(state => {
+            const mark = state?.highWaterMark !== undefined
+                ? BigInt(state.highWaterMark) - BigInt(this.epoch.getTime())
+                : -1n;
+            if (mark >= 0n) {
+                this.lastTimestamp = mark;
+                this.sequence = this.maxSequence;
+                this.floorTimestamp = mark;
+                this.resuming = true;
+            }
+
+            this.leaseUntil = (now > mark ? now : mark + 1n) + BigInt(this.stateLeaseMs);
+            return { machineId: this.getMachineId(), highWaterMark: this.epoch.getTime() + Number(this.leaseUntil) };
+        });
+    }
+
+    /**
+     * Persists a new high-water mark stateLeaseMs beyond `ticks`, never lowering
+     * one claimed by another instance sharing the store
+     */
+    private extendLease(ticks: bigint): void {
+        const leaseUntil = ticks + BigInt(this.stateLeaseMs);
+        this.updateState(state => ({
+            machineId: this.getMachineId(),
+            highWaterMark: Math.max(state?.highWaterMark ?? 0, this.epoch.getTime() + Number(leaseUntil)),
+        }));
+        this.leaseUntil = leaseUntil;
+    }
+
+    /**
+     * Reads and writes the state store in one step where the store supports it
+     */
+    private updateState(apply: (state: GeneratorState | undefined) => GeneratorState): void {
+        const store = this.stateStore!;
+        if (store.update) {
+            store.update(apply);
+        } else {
+            store.save(apply(store.load()));
+        }
+    }
+
+    /**
+     * Converts wall-clock milliseconds into 48-bit ticks since the epoch
+     */
+    private toTicks(now: number): bigint {
+        const ticks = BigInt(now) - BigInt(this.epoch.getTime());
+
+        if (ticks < 0n) {
+            throw new Error(`Current time is before the generator epoch (${this.epoch.toISOString()})`);
+        }
+
+        if (ticks > SequentialGuidGenerator.MAX_TIMESTAMP) {
+            throw new Error(`Timestamp exceeds 48 bits; this generator rolled over at ${this.getRolloverDate().toISOString()}`);
+        }
+
         return ticks;
     }
 
+    /**
+     * Builds a COMB GUID the way NHibernate's GuidCombGenerator does: a random v4 GUID
+     * with the day count and time of day written big-endian into bytes 10-15
+     */
+    private generateComb(): Buffer {
+        const now = this.clock();
+        const guid = readRandom(this.randomSource, 16);
+
+        // Set version to 0100 (UUID v4) and variant to 10xx (RFC 4122)
+        guid[6] = (guid[6] & 0x0f) | 0x40;
+        guid[8] = (guid[8] & 0x3f) | 0x80;
+
+        SequentialGuidGenerator.writeCombTimestamp(guid, now);
+        return guid;
+    }
+
+    /**
+     * Writes days since 1900-01-01 and the time of day in 1/300 second units into
+     * bytes 10-15
+     */
+    private static writeCombTimestamp(guid: Buffer, time: number): void {
+        const elapsed = time - SequentialGuidGenerator.COMB_BASE_DATE;
+        const days = Math.floor(elapsed / SequentialGuidGenerator.MILLISECONDS_PER_DAY);
+        const timeOfDay = elapsed - days * SequentialGuidGenerator.MILLISECONDS_PER_DAY;
+
+        guid.writeUInt16BE(days & 0xFFFF, 10);
+        guid.writeUInt32BE(Math.floor(timeOfDay / SequentialGuidGenerator.COMB_MILLISECONDS_PER_TICK), 12);
+    }
+
+    /**
+     * Builds a range bound at `time`: every byte below the timestamp is `fill`, or the
+     * machine ID with the sequence set to `fill` when `ownMachine` is true
+     */
+    private buildBound(time: number, fill: number, ownMachine: boolean): Buffer {
+        const guid = Buffer.alloc(16, fill);
+
+        if (this.layout === 'comb') {
+            SequentialGuidGenerator.writeCombTimestamp(guid, time);
+            return guid;
+        }
+
+        guid.writeUIntBE(time - this.epoch.getTime(), 0, 6);
+        if (ownMachine) {
+            guid.writeUInt16BE((this.machineId.readUInt16BE(0) & ~this.maxSequence & 0xFFFF) | (fill ? this.maxSequence : 0), 6);
+            guid.writeUInt16BE(this.machineId.readUInt16BE(2), 8);
+        }
+        return this.applyLayout(guid);
+    }
+
+    /**
+     * Checks that a range bound is a whole millisecond this layout can encode
+     */
+    private toBoundTime(time: Date | number, name: string): number {
+        const ms = time instanceof Date ? time.getTime() : time;
+        const [first, last] = this.layout === 'comb'
+            ? [SequentialGuidGenerator.COMB_BASE_DATE, SequentialGuidGenerator.COMB_BASE_DATE + 0x10000 * SequentialGuidGenerator.MILLISECONDS_PER_DAY]
+            : [this.epoch.getTime(), this.getRolloverDate().getTime()];
+
+        if (!Number.isInteger(ms)) {
+            throw new Error(`${name} must be a valid date`);
+        }
+        if (ms < first || ms >= last) {
+            throw new Error(`${name} must be between ${new Date(first).toISOString()} and ${new Date(last).toISOString()}`);
+        }
+        return ms;
+    }
+
+    /**
+     * Moves bytes from significance order (most significant first) into the
+     * positions this generator's layout sorts on.
+     */
+    private applyLayout(ordered: Buffer): Buffer {
+        if (this.layout === 'standard' || this.layout === 'comb') {
+            return ordered;
+        }
+
+        const guid = Buffer.alloc(16);
+        LAYOUT_BYTE_ORDER[this.layout].forEach((position, index) => {
+            guid[position] = ordered[index];
+        });
+        return guid;
+    }
+
+    /**
+     * Inverse of applyLayout: returns the bytes in significance order.
+     */
+    private removeLayout(guid: Buffer): Buffer {
+        return SequentialGuidGenerator.toSignificanceOrder(guid, this.layout);
+    }
+
+    private static toSignificanceOrder(guid: Buffer, layout: GuidLayout): Buffer {
+        if (layout === 'standard' || layout === 'comb') {
+            return guid;
+        }
+
+        const ordered = Buffer.alloc(16);
+        LAYOUT_BYTE_ORDER[layout].forEach((position, index) => {
+            ordered[index] = guid[position];
+        });
+        return ordered;
+    }
+
     private generateMachineId(): Buffer {
         const id = Buffer.alloc(4);
-        randomBytes(4).copy(id);
+        readRandom(this.randomSource, 4).copy(id);
         return id;
     }
 
     private formatGuid(buffer: Buffer): string {
-        const parts = [
-            buffer.toString('hex', 0, 4),
-            buffer.toString('hex', 4, 6),
-            buffer.toString('hex', 6, 8),
-            buffer.toString('hex', 8, 10),
-            buffer.toString('hex', 10, 16)
-        ];
-        
-        return parts.map(part => part.toUpperCase()).join('-');
+        return SequentialGuidGenerator.bufferToGuid(buffer);
     }
 
     private guidToBuffer(guid: string): Buffer {
@@ -189,6 +978,29 @@ export function isValidGuid(guid: string): boolean {
     return SequentialGuidGenerator.isValidGuid(guid);
 }
 
+/**
+ * Returns the version nibble of an RFC 9562 (RFC 4122) GUID, or null when the
+ * variant bits do not mark it as one (e.g. NCS or Microsoft legacy GUIDs).
+ */
+export function getGuidVersion(guid: string): number | null {
+    const buffer = SequentialGuidGenerator.guidToBuffer(guid);
+
+    if ((buffer[8] & 0xC0) !== 0x80) {
+        return null;
+    }
+    return buffer[6] >> 4;
+}
+
+/**
+ * Compares two GUIDs the way SQL Server orders uniqueidentifier values:
+ * bytes 10-15 first, then 8-9, 6-7, 4-5 and 0-3 last.
+ * Returns a negative number, zero or a positive number, so it can be passed
+ * directly to Array.prototype.sort.
+ */
+export function compareSqlServerGuids(a: string, b: string): number {
+    return compareGuids(a, b, 'sqlserver');
+}
+
 /**
  * Random GUID Generator
  *
@@ -197,11 +1009,18 @@ export function isValidGuid(guid: string): boolean {
  * performance benefits.
  */
 
+export interface RandomGuidOptions {
+    /**
+     * Source of the random bytes. Defaults to crypto.randomBytes.
+     */
+    randomSource?: RandomSource;
+}
+
 /**
  * Generates a single random GUID (UUID v4)
  */
-export function generateRandomGuid(): string {
-    const guid = randomBytes(16);
+export function generateRandomGuid(options: RandomGuidOptions = {}): string {
+    const guid = readRandom(options.randomSource || randomBytes, 16);
 
     // Set version to 0100 (UUID v4)
     guid[6] = (guid[6] & 0x0f) | 0x40;
@@ -224,7 +1043,7 @@ export function generateRandomGuid(): string {
 /**
  * Generates multiple random GUIDs
  */
-export function generateRandomGuidBatch(count: number): string[] {
+export function generateRandomGuidBatch(count: number, options: RandomGuidOptions = {}): string[] {
     if (count <= 0) {
         throw new Error('Count must be a positive number');
     }
@@ -235,7 +1054,7 @@ export function generateRandomGuidBatch(count: number): string[] {
 
     const guids: string[] = [];
     for (let i = 0; i < count; i++) {
-        guids.push(generateRandomGuid());
+        guids.push(generateRandomGuid(options));
     }
     return guids;
 }
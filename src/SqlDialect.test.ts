@@ -0,0 +1,101 @@
+/**
+ * Tests for SQL dialect byte orders
+ */
+
+import { SQL_DIALECTS, compareGuids, createGuidComparator, getDialect, isSequentialLayout } from './SqlDialect';
+import { SequentialGuidGenerator, compareSqlServerGuids } from './SequentialGuidGenerator';
+import { SqlServerOptimizations } from './SqlServerOptimizations';
+import { UuidV7Generator } from './UuidV7Generator';
+import { createSteppingClock } from './testing';
+
+/**
+ * Emulates MySQL's UUID_TO_BIN(id, 1): time_high, then time_mid, then time_low
+ */
+function uuidToBinSwapped(guid: string): Buffer {
+  const hex = guid.replace(/-/g, '');
+  return Buffer.from(hex.substring(12, 16) + hex.substring(8, 12) + hex.substring(0, 8) + hex.substring(16), 'hex');
+}
+
+function shuffled<T>(values: T[]): T[] {
+  return values.map((value, index) => ({ value, key: (index * 7919) % values.length }))
+    .sort((a, b) => a.key - b.key)
+    .map(entry => entry.value);
+}
+
+describe('SqlDialect', () => {
+  describe.each(SQL_DIALECTS)('%s', dialect => {
+    it('should generate GUIDs the dialect comparator keeps in order', () => {
+      const generator = new SequentialGuidGenerator({
+        dialect,
+        clock: createSteppingClock('2025-01-01T00:00:00Z'),
+      });
+      const guids = generator.generateBatch(200);
+
+      expect(shuffled(guids).sort(createGuidComparator(dialect))).toEqual(guids);
+    });
+  });
+
+  it('should match byte-wise comparison of the values MySQL stores with the swap flag', () => {
+    const guids = new SequentialGuidGenerator({ dialect: 'mysql', clock: createSteppingClock('2025-01-01T00:00:00Z') })
+      .generateBatch(50);
+    const stored = guids.map(uuidToBinSwapped);
+
+    for (let i = 1; i < stored.length; i++) {
+      expect(Buffer.compare(stored[i - 1], stored[i])).toBe(-1);
+      expect(compareGuids(guids[i - 1], guids[i], 'mysql')).toBe(-1);
+    }
+  });
+
+  it('should order standard layout GUIDs by string in string-order dialects', () => {
+    const a = '00000000-0000-0000-0000-0000000000FF';
+    const b = '00000001-0000-0000-0000-000000000000';
+
+    expect(compareGuids(a, b, 'postgresql')).toBe(-1);
+    expect(compareGuids(a, b, 'oracle')).toBe(-1);
+    expect(compareGuids(a, b, 'sqlite')).toBe(-1);
+    expect(compareGuids(a, b, 'sqlserver')).toBe(1);
+    expect(compareGuids(a, b, 'sqlserver')).toBe(compareSqlServerGuids(a, b));
+  });
+
+  it('should report which layouts stay sequential', () => {
+    expect(isSequentialLayout('sqlserver', 'sqlserver')).toBe(true);
+    expect(isSequentialLayout('comb', 'sqlserver')).toBe(true);
+    expect(isSequentialLayout('standard', 'sqlserver')).toBe(false);
+    expect(isSequentialLayout('standard', 'postgresql')).toBe(true);
+    expect(isSequentialLayout('standard', 'mysql')).toBe(false);
+
+    const uuids = new UuidV7Generator().generateBatch(20);
+    expect([...uuids].sort(createGuidComparator('postgresql'))).toEqual(uuids);
+  });
+
+  it('should reject unknown dialects and layouts that are not sequential in the dialect', () => {
+    expect(() => getDialect('db2' as any)).toThrow('Unsupported SQL dialect: db2');
+    expect(() => new SequentialGuidGenerator({ dialect: 'mysql', layout: 'standard' }))
+      .toThrow('Layout standard is not sequential in MySQL');
+    expect(new SequentialGuidGenerator({ dialect: 'sqlserver', layout: 'comb' }).getLayout()).toBe('comb');
+  });
+
+  it('should quote identifiers by doubling the closing quote', () => {
+    expect(getDialect('sqlserver').quoteIdentifier('a]b')).toBe('[a]]b]');
+    expect(getDialect('postgresql').quoteIdentifier('a"b')).toBe('"a""b"');
+    expect(getDialect('mysql').quoteIdentifier('a`b')).toBe('`a``b`');
+  });
+});
+
+describe('SqlServerOptimizations.generateTableSchema with dialects', () => {
+  it('should keep the SQL Server schema as the default', () => {
+    expect(SqlServerOptimizations.generateTableSchema('Users')).toContain('[Id] UNIQUEIDENTIFIER NOT NULL');
+  });
+
+  it('should emit the column type and conversions of the dialect', () => {
+    const mysql = SqlServerOptimizations.generateTableSchema('Users', 'Id', 'mysql');
+    expect(mysql).toContain('`Id` BINARY(16) NOT NULL');
+    expect(mysql).toContain('UUID_TO_BIN(:id, 1)');
+
+    const postgresql = SqlServerOptimizations.generateTableSchema('Users', 'Id', 'postgresql');
+    expect(postgresql).toContain('"Id" uuid NOT NULL');
+
+    expect(SqlServerOptimizations.generateTableSchema('Users', 'Id', 'sqlite')).toContain('WITHOUT ROWID');
+    expect(SqlServerOptimizations.generateTableSchema('Users', 'Id', 'oracle')).toContain('RAW(16)');
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * SQL dialects and the byte orders their engines sort GUIDs by
+ *
+ * A GUID only stays sequential in an index if its most significant bytes are the
+ * ones the engine compares first:
+ * - SQL Server `uniqueidentifier`: bytes 10-15 first, then 8-9, 6-7, 4-5, 0-3
+ *   (the first three groups reversed)
+ * - PostgreSQL `uuid`, Oracle `RAW(16)`, SQLite `BLOB`: bytes in string order
+ * - MySQL `BINARY(16)` written with `UUID_TO_BIN(id, 1)`: the swap flag moves bytes
+ *   6-7 and 4-5 in front of bytes 0-3 before storing
+ */
+
+import type { GuidLayout } from './SequentialGuidGenerator.js';
+import { toBytes } from './GuidBytes.js';
+import { quoteIdentifier } from './SqlIdentifier.js';
+
+export type SqlDialectName = 'sqlserver' | 'postgresql' | 'mysql' | 'oracle' | 'sqlite';
+
+export const SQL_DIALECTS: readonly SqlDialectName[] = ['sqlserver', 'postgresql', 'mysql', 'oracle', 'sqlite'];
+
+/**
+ * Layouts that place the sequential fields by permuting bytes (every layout but COMB)
+ */
+export type ByteOrderLayout = Exclude<GuidLayout, 'comb'>;
+
+/**
+ * Byte positions (in string order) from most to least significant for each
+ * byte-order layout. A layout writes the timestamp-first bytes into these positions,
+ * so the engine that compares in this order sees them sequentially.
+ */
+export const LAYOUT_BYTE_ORDER: Readonly<Record<ByteOrderLayout, readonly number[]>> = {
+    standard: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15],
+    sqlserver: [10, 11, 12, 13, 14, 15, 8, 9, 7, 6, 5, 4, 3, 2, 1, 0],
+    mysql: [6, 7, 4, 5, 0, 1, 2, 3, 8, 9, 10, 11, 12, 13, 14, 15],
+};
+
+export interface SqlDialect {
+    name: SqlDialectName;
+    displayName: string;
+    /** Column type GUIDs are stored in */
+    columnType: string;
+    /**
+     * Generator layouts that stay sequential in this engine's index order; the
+     * first one is used when a generator is created for the dialect
+     */
+    layouts: readonly GuidLayout[];
+    /** Byte positions (in string order) in the order the engine compares them */
+    sortOrder: readonly number[];
+    /** SQL expression converting a GUID string to the stored value */
+    toStoredValue(expression: string): string;
+    /** SQL expression converting a stored value back to a GUID string */
+    fromStoredValue(expression: string): string;
+    /** Quotes a single identifier for this dialect; throws a SqlIdentifierError for invalid names */
+    quoteIdentifier(name: string): string;
+    timestampType: string;
+    currentTimestamp: string;
+    notes: string[];
+}
+
+const DIALECTS: Readonly<Record<SqlDialectName, SqlDialect>> = {
+    sqlserver: {
+        name: 'sqlserver',
+        displayName: 'SQL Server',
+        columnType: 'UNIQUEIDENTIFIER',
+        layouts: ['sqlserver', 'comb'],
+        sortOrder: LAYOUT_BYTE_ORDER.sqlserver,
+        toStoredValue: expression => `CAST(${expression} AS UNIQUEIDENTIFIER)`,
+        fromStoredValue: expression => `CAST(${expression} AS CHAR(36))`,
+        quoteIdentifier: name => quoteIdentifier(name, 'sqlserver'),
+        timestampType: 'DATETIME2(3)',
+        currentTimestamp: 'SYSUTCDATETIME()',
+        notes: [
+            'uniqueidentifier compares bytes 10-15 first; use the sqlserver (or comb) layout',
+        ],
+    },
+    postgresql: {
+        name: 'postgresql',
+        displayName: 'PostgreSQL',
+        columnType: 'uuid',
+        layouts: ['standard'],
+        sortOrder: LAYOUT_BYTE_ORDER.standard,
+        toStoredValue: expression => `CAST(${expression} AS uuid)`,
+        fromStoredValue: expression => `CAST(${expression} AS text)`,
+        quoteIdentifier: name => quoteIdentifier(name, 'postgresql'),
+        timestampType: 'timestamptz(3)',
+        currentTimestamp: 'now()',
+        notes: [
+            'uuid compares bytes in string order; the standard layout and UUIDv7 stay sequential',
+        ],
+    },
+    mysql: {
+        name: 'mysql',
+        displayName: 'MySQL',
+        columnType: 'BINARY(16)',
+        layouts: ['mysql'],
+        sortOrder: LAYOUT_BYTE_ORDER.mysql,
+        toStoredValue: expression => `UUID_TO_BIN(${expression}, 1)`,
+        fromStoredValue: expression => `BIN_TO_UUID(${expression}, 1)`,
+        quoteIdentifier: name => quoteIdentifier(name, 'mysql'),
+        timestampType: 'DATETIME(3)',
+        currentTimestamp: 'CURRENT_TIMESTAMP(3)',
+        notes: [
+            'Always convert with UUID_TO_BIN(id, 1) and BIN_TO_UUID(col, 1); the swap flag is what the mysql layout is built for',
+            'Without the swap flag BINARY(16) compares bytes in string order; use the standard layout instead',
+            'InnoDB clusters rows by primary key, so a non-sequential key splits pages on every insert',
+        ],
+    },
+    oracle: {
+        name: 'oracle',
+        displayName: 'Oracle',
+        columnType: 'RAW(16)',
+        layouts: ['standard'],
+        sortOrder: LAYOUT_BYTE_ORDER.standard,
+        toStoredValue: expression => `HEXTORAW(REPLACE(${expression}, '-', ''))`,
+        fromStoredValue: expression =>
+            `REGEXP_REPLACE(RAWTOHEX(${expression}), '(.{8})(.{4})(.{4})(.{4})(.{12})', '\\1-\\2-\\3-\\4-\\5')`,
+        quoteIdentifier: name => quoteIdentifier(name, 'oracle'),
+        timestampType: 'TIMESTAMP(3)',
+        currentTimestamp: 'SYS_EXTRACT_UTC(SYSTIMESTAMP)',
+        notes: [
+            'RAW(16) compares bytes in string order; the standard layout and UUIDv7 stay sequential',
+        ],
+    },
+    sqlite: {
+        name: 'sqlite',
+        displayName: 'SQLite',
+        columnType: 'BLOB',
+        layouts: ['standard'],
+        sortOrder: LAYOUT_BYTE_ORDER.standard,
+        toStoredValue: expression => `unhex(replace(${expression}, '-', ''))`,
+        fromStoredValue: expression =>
+            `substr(hex(${expression}), 1, 8) || '-' || substr(hex(${expression}), 9, 4) || '-' || `
+            + `substr(hex(${expression}), 13, 4) || '-' || substr(hex(${expression}), 17, 4) || '-' || substr(hex(${expression}), 21)`,
+        quoteIdentifier: name => quoteIdentifier(name, 'sqlite'),
+        timestampType: 'TEXT',
+        currentTimestamp: "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')",
+        notes: [
+            'BLOB compares bytes with memcmp; the standard layout and UUIDv7 stay sequential',
+            'unhex() requires SQLite 3.41 or later; bind a 16-byte Buffer on older versions',
+            'Declare the table WITHOUT ROWID so rows are clustered by the GUID key',
+        ],
+    },
+};
+
+/**
+ * Returns the dialect definition for a name
+ */
+export function getDialect(dialect: SqlDialectName | SqlDialect): SqlDialect {
+    if (typeof dialect !== 'string') {
+        return dialect;
+    }
+
+    const definition = SQL_DIALECTS.includes(dialect) ? DIALECTS[dialect] : undefined;
+    if (!definition) {
+        throw new Error(`Unsupported SQL dialect: ${dialect}`);
+    }
+    return definition;
+}
+
+/**
+ * Compares two GUIDs the way the dialect's engine orders them. Returns a negative
+ * number, zero or a positive number, so it can be passed to Array.prototype.sort.
+ */
+export function compareGuids(a: string, b: string, dialect: SqlDialectName | SqlDialect = 'sqlserver'): number {
+    const { sortOrder } = getDialect(dialect);
+    const left = toBytes(a);
+    const right = toBytes(b);
+
+    for (const position of sortOrder) {
+        if (left[position] !== right[position]) {
+            return left[position] < right[position] ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+/**
+ * Returns a comparator ordering GUIDs like the dialect's engine
+ */
+export function createGuidComparator(dialect: SqlDialectName | SqlDialect): (a: string, b: string) => number {
+    const definition = getDialect(dialect);
+    return (a, b) => compareGuids(a, b, definition);
+}
+
+/**
+ * Checks whether GUIDs from a generator layout stay sequential in the dialect
+ */
+export function isSequentialLayout(layout: GuidLayout, dialect: SqlDialectName | SqlDialect): boolean {
+    return getDialect(dialect).layouts.includes(layout);
+}
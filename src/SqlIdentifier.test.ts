@@ -0,0 +1,133 @@
+/**
+ * Tests for SQL identifier parsing and quoting
+ */
+
+import {
+  SqlIdentifierError,
+  parseMultipartName,
+  quoteIdentifier,
+  quoteName,
+  quoteString,
+} from './SqlIdentifier';
+import { SqlServerOptimizations } from './SqlServerOptimizations';
+
+describe('SqlIdentifier', () => {
+  describe('parseMultipartName', () => {
+    it.each([
+      ['Orders', 1, ['Orders']],
+      ['sales.Orders', 2, ['sales', 'Orders']],
+      ['[sales].[Order Details]', 2, ['sales', 'Order Details']],
+      ['"sales"."Orders"', 2, ['sales', 'Orders']],
+      ['`shop`.`orders`', 2, ['shop', 'orders']],
+      ['[My DB].sales.[Orders]', 3, ['My DB', 'sales', 'Orders']],
+      ['[a.b].c', 2, ['a.b', 'c']],
+      ['[a]]b]', 1, ['a]b']],
+      ['"a""b"', 1, ['a"b']],
+      [' sales . Orders ', 2, ['sales', 'Orders']],
+      ['Straße', 1, ['Straße']],
+    ] as const)('should parse %s', (name, maxParts, parts) => {
+      expect(parseMultipartName(name, { maxParts })).toEqual(parts);
+    });
+
+    it.each([
+      ['', 'non-empty'],
+      ['   ', 'non-empty'],
+      ['a..b', 'Empty identifier part'],
+      ['.a', 'Empty identifier part'],
+      ['a.', 'Empty identifier part'],
+      ['[]', 'Empty identifier part'],
+      ['[abc', 'Unterminated quoted identifier'],
+      ['[a]b', 'Expected . after a quoted identifier'],
+      ['a]b', 'Unexpected quote character'],
+      ['a.b.c.d', 'at most 3 are allowed'],
+      ['x\nDROP TABLE y', 'control characters'],
+      ['a\u0000b', 'control characters'],
+      ['a'.repeat(129), 'exceeds 128 characters'],
+    ])('should reject %j', (name, message) => {
+      const parse = () => parseMultipartName(name, { maxParts: 3 });
+
+      expect(parse).toThrow(SqlIdentifierError);
+      expect(parse).toThrow(message);
+    });
+
+    it('should keep single quotes and semicolons as part of the name', () => {
+      // Valid inside an identifier; quoting makes them harmless
+      expect(parseMultipartName("a'; --")).toEqual(["a'; --"]);
+    });
+
+    it('should apply the dialect length limit', () => {
+      expect(() => parseMultipartName('a'.repeat(64), { dialect: 'postgresql' })).toThrow('exceeds 63 characters');
+      expect(parseMultipartName('a'.repeat(64), { dialect: 'mysql' })).toEqual(['a'.repeat(64)]);
+    });
+  });
+
+  describe('quoting', () => {
+    it.each([
+      ['sqlserver', 'a]b', '[a]]b]'],
+      ['sqlserver', 'a[b', '[a[b]'],
+      ['postgresql', 'a"b', '"a""b"'],
+      ['mysql', 'a`b', '`a``b`'],
+      ['oracle', 'Order Details', '"Order Details"'],
+      ['sqlite', 'x"; DROP TABLE y; --', '"x""; DROP TABLE y; --"'],
+    ] as const)('should quote an identifier for %s', (dialect, part, quoted) => {
+      expect(quoteIdentifier(part, dialect)).toBe(quoted);
+    });
+
+    it('should quote every part of a multi-part name', () => {
+      expect(quoteName('[sales].[Order]]Lines]', { maxParts: 2 })).toBe('[sales].[Order]]Lines]');
+      expect(quoteName('public.orders', { dialect: 'postgresql', maxParts: 2 })).toBe('"public"."orders"');
+    });
+
+    it('should escape string literals', () => {
+      expect(quoteString("O'Brien")).toBe("N'O''Brien'");
+      expect(quoteString("it's", 'postgresql')).toBe("'it''s'");
+      expect(quoteString('a\\b', 'mysql')).toBe("'a\\\\b'");
+      expect(() => quoteString('a\u0000')).toThrow(SqlIdentifierError);
+    });
+  });
+
+  describe('hostile names in generated SQL', () => {
+    const hostileNames = [
+      "Orders'; DROP TABLE Users; --",
+      '[Orders]]; DROP TABLE Users; --]',
+      '"Orders""; DROP TABLE Users; --"',
+      'sales.[Order]]Details]',
+      "[O'Brien].[Customers]",
+    ];
+
+    /**
+     * Strips every quoted identifier and string literal, leaving only SQL text
+     * that came from the template itself
+     */
+    const stripQuoted = (sql: string) => sql
+      .replace(/\[(?:[^\]]|\]\])*\]/g, '<id>')
+      .replace(/N?'(?:[^']|'')*'/g, '<str>');
+
+    it.each(hostileNames)('should keep %j inside quotes in every SQL Server script', name => {
+      const scripts = [
+        SqlServerOptimizations.generateTableSchema(name, name.includes('.') ? 'Id' : name),
+        SqlServerOptimizations.generatePerformanceQueries(name),
+      ];
+
+      for (const script of scripts) {
+        expect(stripQuoted(script)).not.toMatch(/DROP TABLE/);
+      }
+    });
+
+    it.each(['postgresql', 'mysql', 'oracle', 'sqlite'] as const)('should keep hostile names quoted for %s', dialect => {
+      const schema = SqlServerOptimizations.generateTableSchema('[x"`; DROP TABLE y; --]', 'id', dialect);
+      const quote = dialect === 'mysql' ? '`' : '"';
+      const stripped = schema.split('\n').filter(line => !line.startsWith('--')).join('\n')
+        .replace(new RegExp(`${quote}(?:[^${quote}]|${quote}${quote})*${quote}`, 'g'), '<id>');
+
+      expect(stripped).not.toMatch(/DROP TABLE/);
+    });
+
+    it('should reject names that cannot be quoted safely', () => {
+      expect(() => SqlServerOptimizations.generateTableSchema('Orders\n; DROP TABLE Users')).toThrow(SqlIdentifierError);
+      expect(() => SqlServerOptimizations.generateTableSchema('Orders] ; DROP TABLE [Users')).toThrow('Unexpected quote character');
+      expect(() => SqlServerOptimizations.generateTableSchema('Orders', 'a.b')).toThrow('must be a single identifier');
+      expect(() => SqlServerOptimizations.generateTableSchema('a.b.c', 'Id', 'postgresql')).toThrow('at most 2 are allowed');
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * SQL identifier parsing and quoting
+ *
+ * Every name that ends up in generated SQL goes through this module, so a table or
+ * column name can never close its quotes and inject SQL:
+ * - multi-part names (`sales.Orders`, `[My DB].[sales].[Order Details]`) are split
+ *   on dots outside quotes; each part may be bare or quoted with [ ], " " or ` `
+ * - quoting doubles the closing quote character (`a]b` becomes `[a]]b]`)
+ * - string literals double single quotes (`O'Brien` becomes `N'O''Brien'`)
+ * - empty parts, control characters and names longer than the dialect allows are
+ *   rejected with a SqlIdentifierError
+ */
+
+import type { SqlDialectName } from './SqlDialect.js';
+
+/**
+ * Thrown when a name cannot be used as a SQL identifier
+ */
+export class SqlIdentifierError extends Error {
+    public readonly identifier: string;
+
+    constructor(message: string, identifier: string) {
+        super(message);
+        this.name = 'SqlIdentifierError';
+        this.identifier = identifier;
+    }
+}
+
+/**
+ * Longest identifier each engine accepts, in characters
+ */
+export const IDENTIFIER_MAX_LENGTH: Readonly<Record<SqlDialectName, number>> = {
+    sqlserver: 128,
+    postgresql: 63,
+    mysql: 64,
+    oracle: 128,
+    sqlite: 1024,
+};
+
+const QUOTES: Readonly<Record<SqlDialectName, [string, string]>> = {
+    sqlserver: ['[', ']'],
+    postgresql: ['"', '"'],
+    mysql: ['`', '`'],
+    oracle: ['"', '"'],
+    sqlite: ['"', '"'],
+};
+
+const CLOSING_QUOTES: Readonly<Record<string, string>> = { '[': ']', '"': '"', '`': '`' };
+
+export interface SqlNameOptions {
+    /** Dialect whose quoting and length limit apply. Defaults to sqlserver. */
+    dialect?: SqlDialectName;
+    /** Most parts the name may have, e.g. 3 for database.schema.table. Defaults to 1. */
+    maxParts?: number;
+}
+
+/**
+ * Splits a possibly quoted, multi-part name into its unquoted parts
+ */
+export function parseMultipartName(name: string, options: SqlNameOptions = {}): string[] {
+    const dialect = options.dialect ?? 'sqlserver';
+    const maxParts = options.maxParts ?? 1;
+
+    if (typeof name !== 'string' || name.trim().length === 0) {
+        throw new SqlIdentifierError('Identifier must be a non-empty string', String(name));
+    }
+
+    const parts: string[] = [];
+    let index = 0;
+
+    for (;;) {
+        while (name[index] === ' ') {
+            index++;
+        }
+
+        let part: string;
+        const closing = CLOSING_QUOTES[name[index]];
+        if (closing) {
+            part = '';
+            index++;
+            for (;;) {
+                if (index >= name.length) {
+                    throw new SqlIdentifierError(`Unterminated quoted identifier in ${name}`, name);
+                }
+                if (name[index] === closing) {
+                    if (name[index + 1] !== closing) {
+                        index++;
+                        break;
+                    }
+                    index++;
+                }
+                part += name[index++];
+            }
+        } else {
+            const end = name.indexOf('.', index);
+            part = name.substring(index, end < 0 ? name.length : end).trim();
+            index = end < 0 ? name.length : end;
+            if (/["[\]`]/.test(part)) {
+                throw new SqlIdentifierError(`Unexpected quote character in ${name}; quote the whole part, e.g. [a]]b]`, name);
+            }
+        }
+
+        parts.push(validateIdentifier(part, dialect, name));
+
+        while (name[index] === ' ') {
+            index++;
+        }
+        if (index >= name.length) {
+            break;
+        }
+        if (name[index] !== '.') {
+            throw new SqlIdentifierError(`Expected . after a quoted identifier in ${name}`, name);
+        }
+        index++;
+    }
+
+    if (parts.length > maxParts) {
+        throw new SqlIdentifierError(
+            maxParts === 1
+                ? `${name} must be a single identifier`
+                : `${name} has ${parts.length} parts; at most ${maxParts} are allowed`,
+            name
+        );
+    }
+    return parts;
+}
+
+/**
+ * Quotes a single identifier (the unquoted part, not SQL text) for a dialect
+ */
+export function quoteIdentifier(part: string, dialect: SqlDialectName = 'sqlserver'): string {
+    const [open, close] = QUOTES[dialect];
+    const identifier = validateIdentifier(part, dialect, part);
+    return `${open}${identifier.split(close).join(close + close)}${close}`;
+}
+
+/**
+ * Parses a possibly multi-part name and returns it with every part quoted
+ */
+export function quoteName(name: string, options: SqlNameOptions = {}): string {
+    const dialect = options.dialect ?? 'sqlserver';
+    return parseMultipartName(name, options).map(part => quoteIdentifier(part, dialect)).join('.');
+}
+
+/**
+ * Quotes a value as a string literal; SQL Server literals get the N prefix so
+ * Unicode names survive
+ */
+export function quoteString(value: string, dialect: SqlDialectName = 'sqlserver'): string {
+    if (/\u0000/.test(value)) {
+        throw new SqlIdentifierError('String literals cannot contain NUL characters', value);
+    }
+
+    const escaped = dialect === 'mysql' ? value.replace(/\\/g, '\\\\') : value;
+    return `${dialect === 'sqlserver' ? 'N' : ''}'${escaped.split("'").join("''")}'`;
+}
+
+function validateIdentifier(part: string, dialect: SqlDialectName, name: string): string {
+    if (part.length === 0) {
+        throw new SqlIdentifierError(`Empty identifier part in ${name}`, name);
+    }
+    if (/[\u0000-\u001F\u007F]/.test(part)) {
+        throw new SqlIdentifierError(`Identifier contains control characters: ${JSON.stringify(name)}`, name);
+    }
+    if (part.length > IDENTIFIER_MAX_LENGTH[dialect]) {
+        throw new SqlIdentifierError(
+            `Identifier exceeds ${IDENTIFIER_MAX_LENGTH[dialect]} characters: ${part.substring(0, 32)}...`,
+            name
+        );
+    }
+    return part;
+}
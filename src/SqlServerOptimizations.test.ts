@@ -0,0 +1,293 @@
+/**
+ * Tests for SqlServerOptimizations
+ */
+
+import { SqlServerOptimizations } from './SqlServerOptimizations';
+import { SequentialGuidGenerator, compareSqlServerGuids } from './SequentialGuidGenerator';
+import { UuidV7Generator } from './UuidV7Generator';
+import { createSeededRandomSource, createSteppingClock } from './testing';
+
+describe('SqlServerOptimizations', () => {
+  describe('analyzeGuid', () => {
+    it('should mark this package\'s SQL Server layout as sequential', () => {
+      const guid = new SequentialGuidGenerator({ layout: 'sqlserver' }).generate();
+      const analysis = SqlServerOptimizations.analyzeGuid(guid);
+
+      expect(analysis).toMatchObject({ isSequential: true, detectedType: 'sequential' });
+      expect(analysis.sqlServerImpact.indexFragmentation).toBe('Low');
+      expect(analysis.timestamp).toBe(analysis.classification.fields.timestamp);
+    });
+
+    it('should flag layouts that only sort in string order', () => {
+      const standard = SqlServerOptimizations.analyzeGuid(new SequentialGuidGenerator().generate());
+      const v7 = SqlServerOptimizations.analyzeGuid(new UuidV7Generator().generate());
+
+      expect(standard).toMatchObject({ isSequential: false, detectedType: 'sequential' });
+      expect(standard.recommendations.join(' ')).toContain('standard layout');
+      expect(v7).toMatchObject({ isSequential: false, detectedType: 'uuid_v7' });
+    });
+
+    it('should keep COMB and NEWSEQUENTIALID values sequential', () => {
+      const comb = SqlServerOptimizations.analyzeGuid(new SequentialGuidGenerator({ layout: 'comb' }).generate());
+      const newSequentialId = SqlServerOptimizations.analyzeGuid('7AE2A3B1-C2D7-E811-80C4-00155D00A30A');
+
+      expect(comb).toMatchObject({ isSequential: true, detectedType: 'comb' });
+      expect(comb.recommendations.join(' ')).toContain('NHibernate');
+      expect(newSequentialId).toMatchObject({ isSequential: true, detectedType: 'newsequentialid' });
+    });
+
+    it('should report random GUIDs as not sequential', () => {
+      const analysis = SqlServerOptimizations.analyzeGuid('F47AC10B-58CC-4372-A567-0E02B2C3D479');
+
+      expect(analysis.isSequential).toBe(false);
+      expect(analysis.sqlServerImpact.insertPerformance).toBe('Poor');
+    });
+  });
+
+  describe('generateComparisonReport', () => {
+    it('should report simulated figures for the caller\'s workload', () => {
+      const report = SqlServerOptimizations.generateComparisonReport({ rows: 2000, rowSizeBytes: 400 });
+
+      expect(report).toContain('Workload: 2,000 inserts');
+      expect(report).toContain('400 bytes, 20 per 8 KB page');
+      expect(report).toContain('| Sequential (sqlserver layout) | 0 | 0 | 99 |');
+      expect(report).toMatch(/\| Random \(v4\) \| \d+ \|/);
+    });
+
+    it('should only include the requested strategies', () => {
+      const report = SqlServerOptimizations.generateComparisonReport({ rows: 100 }, ['comb']);
+
+      expect(report).toContain('| COMB |');
+      expect(report).not.toContain('UUIDv7 |');
+    });
+  });
+
+  describe('analyzeGuidSequence', () => {
+    const start = Date.parse('2025-01-01T00:00:00.000Z');
+
+    const sequentialGuids = (machineId: string, count: number) => {
+      const generator = new SequentialGuidGenerator({
+        layout: 'sqlserver',
+        machineId: Buffer.from(machineId, 'hex'),
+        clock: createSteppingClock(start, 1000),
+        randomSource: createSeededRandomSource(machineId),
+      });
+      return Array.from({ length: count }, () => generator.generate());
+    };
+
+    it('should report a sorted list as fully in order', () => {
+      const analysis = SqlServerOptimizations.analyzeGuidSequence(sequentialGuids('0000AAAA', 100));
+
+      expect(analysis).toMatchObject({
+        count: 100,
+        duplicates: 0,
+        inversions: 0,
+        outOfOrderPercent: 0,
+        longestRun: { length: 100, startIndex: 0 },
+        expectedFragmentation: 'Low',
+        types: { sequential: 100 },
+        machineIds: [{ machineId: '0000AAAA', count: 100, percent: 100 }],
+      });
+      expect(analysis.timeSpan).toMatchObject({ decoded: 100, earliest: '2025-01-01T00:00:00.000Z', spanMs: 99000 });
+    });
+
+    it('should count inversions and runs of concatenated sources', () => {
+      // Both nodes issue at the same instants, so index order interleaves them
+      const guids = [...sequentialGuids('0000AAAA', 3), ...sequentialGuids('0000BBBB', 3)];
+      const analysis = SqlServerOptimizations.analyzeGuidSequence(guids, { knownMachineIds: ['0000AAAA', '0000BBBB'] });
+
+      expect(analysis.inversions).toBe(3);
+      expect(analysis.outOfOrderPercent).toBe(20);
+      expect(analysis.longestRun).toEqual({ length: 3, startIndex: 0 });
+      expect(analysis.machineIds).toEqual([
+        { machineId: '0000AAAA', count: 3, percent: 50 },
+        { machineId: '0000BBBB', count: 3, percent: 50 },
+      ]);
+    });
+
+    it('should report a reversed list with every pair inverted', () => {
+      const analysis = SqlServerOptimizations.analyzeGuidSequence(sequentialGuids('0000AAAA', 50).reverse());
+
+      expect(analysis).toMatchObject({ inversions: 1225, inversionPercent: 100, outOfOrderPercent: 100, expectedFragmentation: 'High' });
+      expect(analysis.longestRun.length).toBe(1);
+    });
+
+    it('should check against another dialect\'s sort order', () => {
+      const guids = new UuidV7Generator({ clock: createSteppingClock(start) }).generateBatch(100);
+
+      expect(SqlServerOptimizations.analyzeGuidSequence(guids, { dialect: 'postgresql' }).inversions).toBe(0);
+      expect(SqlServerOptimizations.analyzeGuidSequence(guids).inversions).toBeGreaterThan(1000);
+    });
+
+    it('should count duplicates and reject an empty list', () => {
+      const [guid] = sequentialGuids('0000AAAA', 1);
+
+      expect(SqlServerOptimizations.analyzeGuidSequence([guid, guid]).duplicates).toBe(1);
+      expect(() => SqlServerOptimizations.analyzeGuidSequence([])).toThrow('At least one GUID is required');
+    });
+
+    it('should format the analysis as markdown', () => {
+      const report = SqlServerOptimizations.formatSequenceAnalysis(
+        SqlServerOptimizations.analyzeGuidSequence(sequentialGuids('0000AAAA', 100))
+      );
+
+      expect(report).toContain('100 GUIDs checked against SQL Server index order');
+      expect(report).toContain('| Out of order | 0% |');
+      expect(report).toContain('(1m 39s), decoded from 100 of 100 GUIDs');
+      expect(report).toContain('| 0000AAAA | 100 | 100% |');
+    });
+  });
+
+  describe('generatePartitionFunction', () => {
+    const generator = new SequentialGuidGenerator({ layout: 'sqlserver' });
+
+    it('should emit one RANGE RIGHT boundary per month start', () => {
+      const script = SqlServerOptimizations.generatePartitionFunction(generator, {
+        start: Date.parse('2024-11-15T00:00:00Z'),
+        end: Date.parse('2025-02-01T00:00:00Z'),
+      });
+      const boundary = (iso: string) => `N'${generator.getBoundaryGuid(Date.parse(iso))}'`;
+
+      expect(script).toBe([
+        '-- Monthly partitions for uniqueidentifier keys in the sqlserver layout',
+        '-- RANGE RIGHT: each boundary is the smallest GUID issued at the start of its period',
+        'CREATE PARTITION FUNCTION [PF_Guid_Monthly] (UNIQUEIDENTIFIER)',
+        'AS RANGE RIGHT FOR VALUES (',
+        `    ${boundary('2024-12-01T00:00:00Z')}, -- 2024-12-01T00:00:00.000Z`,
+        `    ${boundary('2025-01-01T00:00:00Z')}, -- 2025-01-01T00:00:00.000Z`,
+        `    ${boundary('2025-02-01T00:00:00Z')}  -- 2025-02-01T00:00:00.000Z`,
+        ');',
+        '',
+        'CREATE PARTITION SCHEME [PS_Guid_Monthly]',
+        'AS PARTITION [PF_Guid_Monthly] ALL TO ([PRIMARY]);',
+      ].join('\n'));
+    });
+
+    it('should emit daily boundaries in SQL Server order with custom names', () => {
+      const script = SqlServerOptimizations.generatePartitionFunction(new SequentialGuidGenerator({ layout: 'comb' }), {
+        start: new Date('2025-03-01T00:00:00Z'),
+        end: new Date('2025-03-31T12:00:00Z'),
+        interval: 'daily',
+        functionName: 'pf_orders',
+        schemeName: '[ps orders]',
+        filegroup: 'FG_Orders',
+      });
+      const boundaries = script.match(/N'([0-9A-F-]{36})'/g)!.map(literal => literal.slice(2, -1));
+
+      expect(boundaries).toHaveLength(31);
+      expect([...boundaries].sort(compareSqlServerGuids)).toEqual(boundaries);
+      expect(script).toContain('CREATE PARTITION SCHEME [ps orders]\nAS PARTITION [pf_orders] ALL TO ([FG_Orders]);');
+    });
+
+    it('should reject layouts and ranges that cannot be partitioned', () => {
+      const options = { start: Date.UTC(2025, 0, 1), end: Date.UTC(2025, 5, 1) };
+
+      expect(() => SqlServerOptimizations.generatePartitionFunction(new SequentialGuidGenerator({ layout: 'standard' }), options))
+        .toThrow('Layout standard is not sequential in SQL Server');
+      expect(() => SqlServerOptimizations.generatePartitionFunction(generator, { ...options, start: Date.UTC(2025, 0, 2), end: Date.UTC(2025, 0, 31) }))
+        .toThrow('No month starts between start and end');
+      expect(() => SqlServerOptimizations.generatePartitionFunction(generator, { start: Date.UTC(2000, 0, 1), end: Date.UTC(2050, 0, 1), interval: 'daily' }))
+        .toThrow('At most 14999 boundaries');
+      expect(() => SqlServerOptimizations.generatePartitionFunction(generator, { ...options, functionName: 'pf]x' }))
+        .toThrow('Unexpected quote character');
+    });
+  });
+
+  describe('generatePageSplitSession', () => {
+    it('should record mid-page splits in the table\'s database by default', () => {
+      const session = SqlServerOptimizations.generatePageSplitSession({ table: 'Sales.sales.Orders' });
+
+      expect(session.create).toContain("DECLARE @DatabaseId INT = DB_ID(N'Sales');");
+      expect(session.create).toContain('ADD EVENT sqlserver.transaction_log (\n    WHERE [operation] = 11 AND [sqlserver].[database_id] = \'\n    + CAST(@DatabaseId AS NVARCHAR(10))');
+      expect(session.create).toContain('ADD TARGET package0.ring_buffer');
+      expect(session.query).toMatch(/^USE \[Sales\];\n/);
+      expect(session.query).toContain("CROSS APPLY TargetData.nodes('RingBufferTarget/event')");
+      expect(session.query).toContain("WHERE p.object_id = OBJECT_ID(N'[sales].[Orders]')");
+      expect(session.start).toBe('ALTER EVENT SESSION [GuidPageSplits] ON SERVER STATE = START;');
+      expect(session.stop).toBe('ALTER EVENT SESSION [GuidPageSplits] ON SERVER STATE = STOP;');
+    });
+
+    it('should put every step in the script in order', () => {
+      const session = SqlServerOptimizations.generatePageSplitSession({ sessionName: 'Splits' });
+      let position = 0;
+      for (const step of [session.create, session.start, session.query, session.stop, session.drop]) {
+        position = session.script.indexOf(step, position);
+        expect(position).toBeGreaterThanOrEqual(0);
+      }
+      expect(session.create).toContain('DECLARE @DatabaseId INT = DB_ID();');
+      expect(session.query).not.toContain('USE ');
+      expect(session.query).not.toContain('OBJECT_ID(');
+    });
+
+    it('should count page_split events per split operation from event files', () => {
+      const { create, query } = SqlServerOptimizations.generatePageSplitSession({
+        event: 'page_split',
+        target: 'event_file',
+        filePath: "D:\\xe\\O'Brien.xel",
+      });
+
+      expect(create).toContain("ADD TARGET package0.event_file (SET filename = N''D:\\xe\\O''''Brien.xel''");
+      expect(query).toContain("sys.fn_xe_file_target_read_file(N'D:\\xe\\O''Brien*.xel', NULL, NULL, NULL)");
+      expect(query).toContain('INNER JOIN sys.partitions AS p ON p.hobt_id = s.RowsetId');
+      expect(query).toContain('GROUP BY p.object_id, i.name, s.SplitOperation');
+    });
+
+    it('should filter page_split events to leaf splits for inserts and updates', () => {
+      const { create, script } = SqlServerOptimizations.generatePageSplitSession({ event: 'page_split' });
+
+      expect(create).toContain("@SplitForInsert = MAX(CASE WHEN v.map_value = N'SPLIT_FOR_INSERT' THEN v.map_key END)");
+      expect(create).toContain("@SplitForUpdate = MAX(CASE WHEN v.map_value = N'SPLIT_FOR_UPDATE' THEN v.map_key END)");
+      expect(create).toContain("WHERE c.object_name = N'page_split' AND c.name = N'splitOperation';");
+      expect(create).toContain([
+        "ADD EVENT sqlserver.page_split (\n    WHERE ([splitOperation] = '",
+        'CAST(@SplitForInsert AS NVARCHAR(10))',
+        "N' OR [splitOperation] = '",
+        'CAST(@SplitForUpdate AS NVARCHAR(10))',
+        "N') AND [sqlserver].[database_id] = '",
+        'CAST(@DatabaseId AS NVARCHAR(10))',
+      ].join('\n    + '));
+      expect(create.indexOf('THROW 50000')).toBeLessThan(create.indexOf('DECLARE @Sql'));
+      expect(script).toContain('including pages appended at the end of an index');
+    });
+
+    it('should keep hostile names inside quotes, including the dynamic session DDL', () => {
+      const { script, create } = SqlServerOptimizations.generatePageSplitSession({
+        sessionName: "S'; DROP TABLE Users; --",
+        table: "[db'; DROP TABLE Users; --].dbo.[T]]; DROP TABLE Users; --]",
+        target: 'event_file',
+        filePath: "x'); DROP TABLE Users; --",
+      });
+      const strip = (sql: string) => sql.replace(/\[(?:[^\]]|\]\])*\]|N?'(?:[^']|'')*'/g, '<quoted>');
+      const dynamic = /(?:@Sql NVARCHAR\(MAX\) = |\+ )N'((?:[^']|'')*)'/g;
+      const batches = [script];
+      for (let match = dynamic.exec(create); match; match = dynamic.exec(create)) {
+        batches.push(match[1].split("''").join("'"));
+      }
+
+      expect(batches).toHaveLength(3);
+      for (const sql of batches) {
+        expect(strip(sql.split('\n').filter(line => !line.startsWith('--')).join('\n'))).not.toMatch(/DROP TABLE/);
+      }
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => SqlServerOptimizations.generatePageSplitSession({ event: 'lock_acquired' as any })).toThrow('Event must be one of');
+      expect(() => SqlServerOptimizations.generatePageSplitSession({ target: 'histogram' as any })).toThrow('Target must be one of');
+      expect(() => SqlServerOptimizations.generatePageSplitSession({ target: 'event_file' })).toThrow('needs a filePath');
+      expect(() => SqlServerOptimizations.generatePageSplitSession({ table: 'a.dbo.T', database: 'b' })).toThrow('is not in database b');
+      expect(() => SqlServerOptimizations.generatePageSplitSession({ sessionName: 'a.b' })).toThrow('must be a single identifier');
+    });
+  });
+
+  describe('parseGuidList', () => {
+    it('should accept lines, CSV values, quotes and braces', () => {
+      const text = 'Id\r\n"0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A"\n{0190a6e1-7b5c-7d3a-9f2e-4b8c1d0e5f6b},\n\n';
+
+      expect(() => SqlServerOptimizations.parseGuidList(text)).toThrow(/^Invalid GUID at entry 1$/);
+      expect(SqlServerOptimizations.parseGuidList(text.substring(4))).toEqual([
+        '0190A6E1-7B5C-7D3A-9F2E-4B8C1D0E5F6A',
+        '0190a6e1-7b5c-7d3a-9f2e-4b8c1d0e5f6b',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Tests for SQL Server table DDL generation
+ */
+
+import { generateTableDdl, normalizeTableDefinition, TableDefinition } from './TableDdl';
+import { SqlIdentifierError } from './SqlIdentifier';
+
+describe('TableDdl', () => {
+  const orders: TableDefinition = {
+    name: 'sales.Orders',
+    columns: [
+      { name: 'Id', type: 'uniqueidentifier', defaultFunction: 'NEWSEQUENTIALID' },
+      { name: 'CustomerId', type: 'UNIQUEIDENTIFIER', nullable: false },
+      { name: 'Status', type: 'nvarchar(20)', nullable: false, defaultValue: "New'" },
+      { name: 'Total', type: 'decimal(18, 2)', nullable: false, defaultValue: 0 },
+      { name: 'IsPaid', type: 'BIT', nullable: false, defaultValue: false },
+      { name: 'CreatedAt', type: 'DATETIME2(3)', nullable: false, defaultFunction: 'SYSUTCDATETIME' },
+      { name: 'Notes', type: 'NVARCHAR(MAX)' },
+    ],
+    foreignKeys: [
+      { columns: ['CustomerId'], references: { table: 'sales.Customers' }, onDelete: 'CASCADE' },
+    ],
+    indexes: [
+      { columns: ['CustomerId', { name: 'CreatedAt', descending: true }], include: ['Total'] },
+      { name: 'UX_Orders_Status', columns: ['Status', 'Id'], unique: true, fillFactor: 80 },
+    ],
+    fillFactor: 90,
+    dataCompression: 'PAGE',
+  };
+
+  it('should generate the complete script', () => {
+    expect(generateTableDdl(orders).script).toBe([
+      'CREATE TABLE [sales].[Orders] (',
+      '    [Id] UNIQUEIDENTIFIER NOT NULL CONSTRAINT [DF_Orders_Id] DEFAULT (NEWSEQUENTIALID()),',
+      '    [CustomerId] UNIQUEIDENTIFIER NOT NULL,',
+      "    [Status] NVARCHAR(20) NOT NULL CONSTRAINT [DF_Orders_Status] DEFAULT (N'New'''),",
+      '    [Total] DECIMAL(18,2) NOT NULL CONSTRAINT [DF_Orders_Total] DEFAULT (0),',
+      '    [IsPaid] BIT NOT NULL CONSTRAINT [DF_Orders_IsPaid] DEFAULT (0),',
+      '    [CreatedAt] DATETIME2(3) NOT NULL CONSTRAINT [DF_Orders_CreatedAt] DEFAULT (SYSUTCDATETIME()),',
+      '    [Notes] NVARCHAR(MAX) NULL,',
+      '    CONSTRAINT [PK_Orders] PRIMARY KEY CLUSTERED ([Id] ASC) WITH (FILLFACTOR = 90, DATA_COMPRESSION = PAGE),',
+      '    CONSTRAINT [FK_Orders_Customers_CustomerId] FOREIGN KEY ([CustomerId]) REFERENCES [sales].[Customers] ([Id]) ON DELETE CASCADE',
+      ');',
+      '',
+      'CREATE NONCLUSTERED INDEX [IX_Orders_CustomerId_CreatedAt]',
+      '    ON [sales].[Orders] ([CustomerId] ASC, [CreatedAt] DESC)',
+      '    INCLUDE ([Total])',
+      '    WITH (FILLFACTOR = 90, DATA_COMPRESSION = PAGE);',
+      '',
+      'CREATE UNIQUE NONCLUSTERED INDEX [UX_Orders_Status]',
+      '    ON [sales].[Orders] ([Status] ASC, [Id] ASC)',
+      '    WITH (FILLFACTOR = 80, DATA_COMPRESSION = PAGE);',
+    ].join('\n'));
+  });
+
+  it('should return a model that regenerates the same script', () => {
+    const { script, model } = generateTableDdl(orders);
+    const roundTripped = JSON.parse(JSON.stringify(model));
+
+    expect(model).toMatchObject({
+      schema: 'sales',
+      name: 'Orders',
+      primaryKey: { name: 'PK_Orders', columns: ['Id'], clustered: true, fillFactor: 90 },
+      foreignKeys: [{ references: { schema: 'sales', table: 'Customers', columns: ['Id'] }, onUpdate: 'NO ACTION' }],
+    });
+    expect(generateTableDdl(roundTripped)).toEqual({ script, model });
+  });
+
+  it('should apply edits made to the model', () => {
+    const { model } = generateTableDdl(orders);
+    model.columns.push({ name: 'ShippedAt', type: 'DATETIME2', nullable: true });
+    model.indexes = [];
+
+    const { script } = generateTableDdl(model);
+
+    expect(script).toContain('[ShippedAt] DATETIME2 NULL');
+    expect(script).not.toContain('CREATE NONCLUSTERED INDEX');
+  });
+
+  it('should default to a clustered primary key on the first column in dbo', () => {
+    const { script, model } = generateTableDdl({ name: 'Events', columns: [{ name: 'EventId', type: 'BIGINT', identity: true }] });
+
+    expect(model).toMatchObject({ schema: 'dbo', dataCompression: 'NONE', foreignKeys: [], indexes: [] });
+    expect(script).toBe([
+      'CREATE TABLE [dbo].[Events] (',
+      '    [EventId] BIGINT IDENTITY(1,1) NOT NULL,',
+      '    CONSTRAINT [PK_Events] PRIMARY KEY CLUSTERED ([EventId] ASC)',
+      ');',
+    ].join('\n'));
+  });
+
+  it('should compress the heap when the primary key is nonclustered', () => {
+    const { script } = generateTableDdl({
+      name: 'Events',
+      columns: [{ name: 'Id', type: 'UNIQUEIDENTIFIER' }, { name: 'At', type: 'DATETIME2' }],
+      primaryKey: { clustered: false },
+      indexes: [{ columns: ['At'], clustered: true }],
+      dataCompression: 'ROW',
+    });
+
+    expect(script).toContain('PRIMARY KEY NONCLUSTERED ([Id] ASC) WITH (DATA_COMPRESSION = ROW)');
+    expect(script).toContain(')\nWITH (DATA_COMPRESSION = ROW);');
+    expect(script).toContain('CREATE CLUSTERED INDEX [IX_Events_At]');
+  });
+
+  it('should quote hostile names and string defaults', () => {
+    const { script } = generateTableDdl({
+      name: '[Orders]]; DROP TABLE Users; --]',
+      columns: [
+        { name: "Id'; DROP TABLE Users; --", type: 'INT' },
+        { name: 'Note', type: 'NVARCHAR(50)', defaultValue: "'); DROP TABLE Users; --" },
+      ],
+    });
+    const stripped = script
+      .replace(/\[(?:[^\]]|\]\])*\]/g, '<id>')
+      .replace(/N?'(?:[^']|'')*'/g, '<str>');
+
+    expect(stripped).not.toMatch(/DROP TABLE/);
+  });
+
+  it('should use column and constraint names as-is so the model round-trips', () => {
+    const { script, model } = generateTableDdl({
+      name: 'Order.Lines',
+      schema: 'sales]',
+      columns: [{ name: '[Id]', type: 'INT' }, { name: 'a.b', type: 'INT' }],
+    });
+
+    expect(model).toMatchObject({ schema: 'sales]', name: 'Order.Lines', primaryKey: { name: 'PK_Order.Lines' } });
+    expect(script).toContain('CREATE TABLE [sales]]].[Order.Lines] (\n    [[Id]]] INT NOT NULL,\n    [a.b] INT NULL,');
+    expect(generateTableDdl(model).script).toBe(script);
+  });
+
+  it.each([
+    [{ name: 'T', columns: [] }, 'at least one column'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }, { name: 'id', type: 'INT' }] }, 'Duplicate column id'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT; DROP TABLE x' }] }, 'Unsupported type'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'TEXTBLOB' }] }, 'Unsupported type'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT(5)' }] }, 'INT column Id takes no length or precision'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'UNIQUEIDENTIFIER(16)' }] }, 'UNIQUEIDENTIFIER column Id takes no length'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'NVARCHAR(5000)' }] }, 'Length of NVARCHAR column Id must be between 1 and 4000 or MAX'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'CHAR(MAX)' }] }, 'Length of CHAR column Id must be between 1 and 8000'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'VARBINARY(0)' }] }, 'Length of VARBINARY column Id'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'DECIMAL(50,2)' }] }, 'Precision of DECIMAL column Id must be between 1 and 38'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'DECIMAL(5,6)' }] }, 'Scale of DECIMAL column Id must be between 0 and its precision'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'DATETIME2(8)' }] }, 'Precision of DATETIME2 column Id must be between 0 and 7'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'VARCHAR(10,2)' }] }, 'VARCHAR column Id takes no scale'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT', nullable: true }] }, 'cannot be nullable'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT', defaultFunction: 'NEWSEQUENTIALID' }] }, 'UNIQUEIDENTIFIER column'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT', defaultFunction: 'RAND' }] }, 'Default function must be one of'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT', defaultValue: 1, defaultFunction: 'NEWID' }] }, 'both a default value'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'UNIQUEIDENTIFIER', identity: true }] }, 'IDENTITY requires'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }], primaryKey: { columns: ['Missing'] } }, 'unknown column Missing'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }], fillFactor: 0 }, 'fill factor must be an integer between 1 and 100'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }], indexes: [{ columns: ['Id'], clustered: true }] }, 'only one clustered index'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }], dataCompression: 'ZIP' }, 'Data compression must be one of'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }], foreignKeys: [{ columns: ['Id'], references: { table: 'U', columns: ['A', 'B'] } }] }, 'must reference 1 column(s)'],
+    [{ name: 'T', columns: [{ name: 'Id', type: 'INT' }], foreignKeys: [{ columns: ['Id'], references: { table: 'U' }, onDelete: 'DROP' }] }, 'Referential action'],
+  ])('should reject invalid definition %#', (definition, message) => {
+    expect(() => normalizeTableDefinition(definition as TableDefinition)).toThrow(message);
+  });
+
+  it('should accept lengths and precisions within each type\'s range', () => {
+    const { model } = generateTableDdl({
+      name: 'T',
+      columns: ['INT', 'NVARCHAR(4000)', 'varchar(max)', 'DECIMAL(38,38)', 'FLOAT(53)', 'DATETIME2(0)', 'BINARY(16)'].map((type, i) => ({ name: `C${i}`, type })),
+    });
+
+    expect(model.columns.map(column => column.type)).toEqual(['INT', 'NVARCHAR(4000)', 'VARCHAR(MAX)', 'DECIMAL(38,38)', 'FLOAT(53)', 'DATETIME2(0)', 'BINARY(16)']);
+  });
+
+  it('should name the object whose generated name is too long', () => {
+    const long = 'x'.repeat(70);
+    const columns = [{ name: `${long}1`, type: 'INT' }, { name: `${long}2`, type: 'INT', defaultValue: 0 }];
+
+    expect(() => normalizeTableDefinition({ name: long, columns: [columns[0]], indexes: [{ columns: [`${long}1`] }] }))
+      .toThrow(`Generated name of the index on ${long}1 exceeds 128 characters`);
+    expect(() => normalizeTableDefinition({ name: long, columns })).toThrow(`Generated name of the default of column ${long}2 exceeds 128`);
+    expect(() => normalizeTableDefinition({
+      name: long,
+      columns: [columns[0]],
+      foreignKeys: [{ columns: [`${long}1`], references: { table: 'U' } }],
+    })).toThrow(`Generated name of the foreign key on ${long}1 exceeds 128`);
+    expect(() => normalizeTableDefinition({ name: 'y'.repeat(126), columns: [columns[0]] })).toThrow('Generated name of the primary key exceeds 128');
+    expect(normalizeTableDefinition({
+      name: long,
+      columns: [columns[0], { ...columns[1], defaultConstraint: 'DF_T' }],
+      indexes: [{ name: 'IX_T', columns: [`${long}1`] }],
+    }).indexes[0].name).toBe('IX_T');
+  });
+
+  it('should reject names that cannot be quoted safely', () => {
+    expect(() => normalizeTableDefinition({ name: 'db.sales.Orders', columns: [{ name: 'Id', type: 'INT' }] })).toThrow(SqlIdentifierError);
+    expect(() => normalizeTableDefinition({ name: 'Orders', columns: [{ name: 'Id\n', type: 'INT' }] })).toThrow(SqlIdentifierError);
+  });
+});
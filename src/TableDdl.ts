@@ -0,0 +1,483 @@
+/**
+ * SQL Server table DDL from a structured table definition
+ *
+ * generateTableDdl() validates a definition, fills in defaults (dbo schema,
+ * constraint names, clustered primary key on the first column) and returns both the
+ * CREATE TABLE / CREATE INDEX script and the normalized model. The model is itself
+ * a valid definition, so other tools can change it and generate the script again.
+ *
+ * Table names may be schema-qualified (`sales.Orders`) unless a schema is given
+ * separately. Column, constraint and schema names are single identifiers used as-is
+ * (`Order Date` and `a]b` are not parsed), so the model can be passed back in
+ * unchanged. Every name is validated and quoted by SqlIdentifier, and default
+ * values are limited to literals and a fixed set of functions, so a definition
+ * cannot inject SQL.
+ */
+
+import { IDENTIFIER_MAX_LENGTH, SqlIdentifierError, parseMultipartName, quoteIdentifier, quoteString } from './SqlIdentifier.js';
+
+export type SqlDefaultFunction =
+    | 'NEWSEQUENTIALID'
+    | 'NEWID'
+    | 'SYSUTCDATETIME'
+    | 'SYSDATETIME'
+    | 'SYSDATETIMEOFFSET'
+    | 'GETUTCDATE'
+    | 'GETDATE';
+
+export const SQL_DEFAULT_FUNCTIONS: readonly SqlDefaultFunction[] = [
+    'NEWSEQUENTIALID', 'NEWID', 'SYSUTCDATETIME', 'SYSDATETIME', 'SYSDATETIMEOFFSET', 'GETUTCDATE', 'GETDATE',
+];
+
+export type DataCompression = 'NONE' | 'ROW' | 'PAGE';
+
+export type ReferentialAction = 'NO ACTION' | 'CASCADE' | 'SET NULL' | 'SET DEFAULT';
+
+export interface ColumnDefinition {
+    name: string;
+    /** SQL Server type, e.g. UNIQUEIDENTIFIER, NVARCHAR(200), DECIMAL(18,2) */
+    type: string;
+    /** Defaults to false for primary key columns and true otherwise */
+    nullable?: boolean;
+    /** Literal default value */
+    defaultValue?: string | number | boolean;
+    /** Function default; NEWSEQUENTIALID requires a UNIQUEIDENTIFIER column */
+    defaultFunction?: SqlDefaultFunction;
+    /** Name of the default constraint. Defaults to DF_<table>_<column>. */
+    defaultConstraint?: string;
+    /** IDENTITY(1,1); integer and decimal types only */
+    identity?: boolean;
+}
+
+export interface PrimaryKeyDefinition {
+    name?: string;
+    /** Defaults to the first column */
+    columns?: string[];
+    /** Defaults to true */
+    clustered?: boolean;
+    fillFactor?: number;
+}
+
+export interface ForeignKeyDefinition {
+    name?: string;
+    columns: string[];
+    references: {
+        /** Referenced table; may be schema-qualified when `schema` is not given */
+        table: string;
+        /** Defaults to dbo */
+        schema?: string;
+        /** Defaults to Id */
+        columns?: string[];
+    };
+    onDelete?: ReferentialAction;
+    onUpdate?: ReferentialAction;
+}
+
+export interface IndexColumn {
+    name: string;
+    descending?: boolean;
+}
+
+export interface IndexDefinition {
+    name?: string;
+    columns: (string | IndexColumn)[];
+    unique?: boolean;
+    clustered?: boolean;
+    /** Non-key columns stored in the leaf level */
+    include?: string[];
+    fillFactor?: number;
+}
+
+export interface TableDefinition {
+    /** Table name; may be schema-qualified when `schema` is not given */
+    name: string;
+    /** Defaults to dbo */
+    schema?: string;
+    columns: ColumnDefinition[];
+    primaryKey?: PrimaryKeyDefinition;
+    foreignKeys?: ForeignKeyDefinition[];
+    indexes?: IndexDefinition[];
+    /** Default fill factor for the primary key and indexes that do not set one */
+    fillFactor?: number;
+    /** Compression of the table and all of its indexes. Defaults to NONE. */
+    dataCompression?: DataCompression;
+}
+
+/**
+ * A definition with every default filled in
+ */
+export interface TableModel extends TableDefinition {
+    schema: string;
+    columns: (ColumnDefinition & { nullable: boolean })[];
+    primaryKey: Required<Omit<PrimaryKeyDefinition, 'fillFactor'>> & { fillFactor?: number };
+    foreignKeys: (Required<Omit<ForeignKeyDefinition, 'references'>> & { references: Required<ForeignKeyDefinition['references']> })[];
+    indexes: (Required<Omit<IndexDefinition, 'columns' | 'fillFactor'>> & { columns: Required<IndexColumn>[]; fillFactor?: number })[];
+    dataCompression: DataCompression;
+}
+
+export interface TableDdl {
+    script: string;
+    model: TableModel;
+}
+
+const SQL_SERVER_TYPES = new Set([
+    'bigint', 'int', 'smallint', 'tinyint', 'bit', 'decimal', 'numeric', 'money', 'smallmoney', 'float', 'real',
+    'date', 'time', 'datetime', 'datetime2', 'datetimeoffset', 'smalldatetime',
+    'char', 'varchar', 'nchar', 'nvarchar', 'binary', 'varbinary',
+    'uniqueidentifier', 'xml', 'sql_variant', 'rowversion', 'hierarchyid', 'geography', 'geometry',
+]);
+
+/**
+ * Types taking a length or precision, with its range; the others take none
+ */
+const TYPE_ARGUMENTS: Readonly<Record<string, { argument: 'Length' | 'Precision'; min: number; max: number; allowsMax?: boolean; scale?: boolean }>> = {
+    char: { argument: 'Length', min: 1, max: 8000 },
+    varchar: { argument: 'Length', min: 1, max: 8000, allowsMax: true },
+    nchar: { argument: 'Length', min: 1, max: 4000 },
+    nvarchar: { argument: 'Length', min: 1, max: 4000, allowsMax: true },
+    binary: { argument: 'Length', min: 1, max: 8000 },
+    varbinary: { argument: 'Length', min: 1, max: 8000, allowsMax: true },
+    decimal: { argument: 'Precision', min: 1, max: 38, scale: true },
+    numeric: { argument: 'Precision', min: 1, max: 38, scale: true },
+    float: { argument: 'Precision', min: 1, max: 53 },
+    time: { argument: 'Precision', min: 0, max: 7 },
+    datetime2: { argument: 'Precision', min: 0, max: 7 },
+    datetimeoffset: { argument: 'Precision', min: 0, max: 7 },
+};
+
+const IDENTITY_TYPES = new Set(['bigint', 'int', 'smallint', 'tinyint', 'decimal', 'numeric']);
+
+export const REFERENTIAL_ACTIONS: readonly ReferentialAction[] = ['NO ACTION', 'CASCADE', 'SET NULL', 'SET DEFAULT'];
+
+const DATA_COMPRESSIONS: readonly DataCompression[] = ['NONE', 'ROW', 'PAGE'];
+
+/**
+ * Validates a table definition and fills in its defaults
+ */
+export function normalizeTableDefinition(definition: TableDefinition): TableModel {
+    if (!definition || typeof definition !== 'object') {
+        throw new Error('Table definition must be an object');
+    }
+
+    const { schema, name } = resolveTableName(definition.name, definition.schema);
+
+    if (!Array.isArray(definition.columns) || definition.columns.length === 0) {
+        throw new Error('A table needs at least one column');
+    }
+
+    const columnNames = new Map<string, string>();
+    const resolveColumn = (column: string, context: string): string => {
+        const resolved = columnNames.get(identifier(column).toLowerCase());
+        if (!resolved) {
+            throw new Error(`${context} references unknown column ${column}`);
+        }
+        return resolved;
+    };
+
+    for (const column of definition.columns) {
+        const columnName = identifier(column?.name);
+        if (columnNames.has(columnName.toLowerCase())) {
+            throw new Error(`Duplicate column ${columnName}`);
+        }
+        columnNames.set(columnName.toLowerCase(), columnName);
+    }
+
+    const fillFactor = validateFillFactor(definition.fillFactor, 'Table');
+    const primaryKeyColumns = (definition.primaryKey?.columns ?? [definition.columns[0].name])
+        .map(column => resolveColumn(column, 'Primary key'));
+
+    if (primaryKeyColumns.length === 0) {
+        throw new Error('Primary key needs at least one column');
+    }
+
+    const primaryKey = {
+        name: constraintName(definition.primaryKey?.name, `PK_${name}`, 'primary key'),
+        columns: primaryKeyColumns,
+        clustered: definition.primaryKey?.clustered ?? true,
+        fillFactor: validateFillFactor(definition.primaryKey?.fillFactor, 'Primary key') ?? fillFactor,
+    };
+
+    const columns = definition.columns.map(column => normalizeColumn(column, name, primaryKeyColumns));
+
+    const foreignKeys = (definition.foreignKeys ?? []).map(foreignKey => {
+        const keyColumns = (foreignKey.columns ?? []).map(column => resolveColumn(column, 'Foreign key'));
+        if (keyColumns.length === 0) {
+            throw new Error('Foreign key needs at least one column');
+        }
+
+        const referencedTable = resolveTableName(foreignKey.references?.table, foreignKey.references?.schema);
+        const referencedColumns = (foreignKey.references.columns ?? ['Id']).map(column => identifier(column));
+        if (referencedColumns.length !== keyColumns.length) {
+            throw new Error(`Foreign key on ${keyColumns.join(', ')} must reference ${keyColumns.length} column(s)`);
+        }
+
+        return {
+            name: constraintName(foreignKey.name, `FK_${name}_${referencedTable.name}_${keyColumns.join('_')}`, `foreign key on ${keyColumns.join(', ')}`),
+            columns: keyColumns,
+            references: {
+                table: referencedTable.name,
+                schema: referencedTable.schema,
+                columns: referencedColumns,
+            },
+            onDelete: validateAction(foreignKey.onDelete),
+            onUpdate: validateAction(foreignKey.onUpdate),
+        };
+    });
+
+    const indexes = (definition.indexes ?? []).map(index => {
+        const indexColumns = (index.columns ?? []).map(column => {
+            const spec = typeof column === 'string' ? { name: column } : column;
+            return { name: resolveColumn(spec?.name, 'Index'), descending: spec.descending ?? false };
+        });
+        if (indexColumns.length === 0) {
+            throw new Error('Index needs at least one column');
+        }
+
+        const unique = index.unique ?? false;
+        return {
+            name: constraintName(
+                index.name,
+                `${unique ? 'UX' : 'IX'}_${name}_${indexColumns.map(column => column.name).join('_')}`,
+                `index on ${indexColumns.map(column => column.name).join(', ')}`
+            ),
+            columns: indexColumns,
+            unique,
+            clustered: index.clustered ?? false,
+            include: (index.include ?? []).map(column => resolveColumn(column, 'Index INCLUDE')),
+            fillFactor: validateFillFactor(index.fillFactor, 'Index') ?? fillFactor,
+        };
+    });
+
+    const clusteredCount = indexes.filter(index => index.clustered).length + (primaryKey.clustered ? 1 : 0);
+    if (clusteredCount > 1) {
+        throw new Error('A table can have only one clustered index');
+    }
+    if (indexes.some(index => index.clustered && index.include.length > 0)) {
+        throw new Error('INCLUDE is only allowed on nonclustered indexes');
+    }
+
+    const dataCompression = definition.dataCompression ?? 'NONE';
+    if (!DATA_COMPRESSIONS.includes(dataCompression)) {
+        throw new Error(`Data compression must be one of: ${DATA_COMPRESSIONS.join(', ')}`);
+    }
+
+    return withoutUndefined({
+        name,
+        schema,
+        columns,
+        primaryKey,
+        foreignKeys,
+        indexes,
+        fillFactor,
+        dataCompression,
+    });
+}
+
+/**
+ * Generates the CREATE TABLE and CREATE INDEX script for a table definition
+ */
+export function generateTableDdl(definition: TableDefinition): TableDdl {
+    const model = normalizeTableDefinition(definition);
+    const table = `${quoteIdentifier(model.schema)}.${quoteIdentifier(model.name)}`;
+    const compression = model.dataCompression !== 'NONE' ? model.dataCompression : undefined;
+    const columnList = (columns: string[]) => columns.map(column => quoteIdentifier(column)).join(', ');
+
+    const lines = model.columns.map(column => `    ${formatColumn(column)}`);
+    const pk = model.primaryKey;
+    lines.push(
+        `    CONSTRAINT ${quoteIdentifier(pk.name)} PRIMARY KEY ${pk.clustered ? 'CLUSTERED' : 'NONCLUSTERED'} `
+        + `(${pk.columns.map(column => `${quoteIdentifier(column)} ASC`).join(', ')})`
+        + formatIndexOptions(pk.fillFactor, compression)
+    );
+    for (const foreignKey of model.foreignKeys) {
+        const { references } = foreignKey;
+        lines.push(
+            `    CONSTRAINT ${quoteIdentifier(foreignKey.name)} FOREIGN KEY (${columnList(foreignKey.columns)}) `
+            + `REFERENCES ${quoteIdentifier(references.schema)}.${quoteIdentifier(references.table)} (${columnList(foreignKey.references.columns)})`
+            + (foreignKey.onDelete !== 'NO ACTION' ? ` ON DELETE ${foreignKey.onDelete}` : '')
+            + (foreignKey.onUpdate !== 'NO ACTION' ? ` ON UPDATE ${foreignKey.onUpdate}` : '')
+        );
+    }
+
+    // Without a clustered primary key the table starts out as a heap
+    const tableOptions = compression && !pk.clustered ? `\nWITH (DATA_COMPRESSION = ${compression})` : '';
+    const statements = [`CREATE TABLE ${table} (\n${lines.join(',\n')}\n)${tableOptions};`];
+
+    for (const index of model.indexes) {
+        statements.push(
+            `CREATE ${index.unique ? 'UNIQUE ' : ''}${index.clustered ? 'CLUSTERED' : 'NONCLUSTERED'} INDEX ${quoteIdentifier(index.name)}\n`
+            + `    ON ${table} (${index.columns.map(column => `${quoteIdentifier(column.name)} ${column.descending ? 'DESC' : 'ASC'}`).join(', ')})`
+            + (index.include.length > 0 ? `\n    INCLUDE (${columnList(index.include)})` : '')
+            + formatIndexOptions(index.fillFactor, compression, '\n    ')
+            + ';'
+        );
+    }
+
+    return { script: statements.join('\n\n'), model };
+}
+
+function normalizeColumn(column: ColumnDefinition, table: string, primaryKeyColumns: string[]): TableModel['columns'][number] {
+    const name = identifier(column.name);
+    const type = normalizeType(column.type, name);
+    const baseType = type.replace(/\(.*$/, '').toLowerCase();
+    const isKey = primaryKeyColumns.includes(name);
+    const nullable = column.nullable ?? !isKey;
+
+    if (isKey && nullable) {
+        throw new Error(`Primary key column ${name} cannot be nullable`);
+    }
+    if (column.defaultValue !== undefined && column.defaultFunction !== undefined) {
+        throw new Error(`Column ${name} cannot have both a default value and a default function`);
+    }
+    if (column.defaultFunction !== undefined && !SQL_DEFAULT_FUNCTIONS.includes(column.defaultFunction)) {
+        throw new Error(`Default function must be one of: ${SQL_DEFAULT_FUNCTIONS.join(', ')}`);
+    }
+    if (column.defaultFunction === 'NEWSEQUENTIALID' && baseType !== 'uniqueidentifier') {
+        throw new Error(`NEWSEQUENTIALID() can only be the default of a UNIQUEIDENTIFIER column, not ${name}`);
+    }
+    if (column.defaultValue !== undefined && !['string', 'number', 'boolean'].includes(typeof column.defaultValue)) {
+        throw new Error(`Default value of ${name} must be a string, number or boolean`);
+    }
+    if (typeof column.defaultValue === 'number' && !Number.isFinite(column.defaultValue)) {
+        throw new Error(`Default value of ${name} must be a finite number`);
+    }
+    if (column.identity) {
+        if (!IDENTITY_TYPES.has(baseType)) {
+            throw new Error(`IDENTITY requires an integer or decimal column, not ${type}`);
+        }
+        if (column.defaultValue !== undefined || column.defaultFunction !== undefined) {
+            throw new Error(`IDENTITY column ${name} cannot have a default`);
+        }
+    }
+
+    const hasDefault = column.defaultValue !== undefined || column.defaultFunction !== undefined;
+    return withoutUndefined({
+        name,
+        type,
+        nullable,
+        defaultValue: column.defaultValue,
+        defaultFunction: column.defaultFunction,
+        defaultConstraint: hasDefault ? constraintName(column.defaultConstraint, `DF_${table}_${name}`, `default of column ${name}`) : undefined,
+        identity: column.identity || undefined,
+    });
+}
+
+/**
+ * Splits a table name into schema and table; with an explicit schema the name is a
+ * single identifier
+ */
+function resolveTableName(table: string, schema: string | undefined): { schema: string; name: string } {
+    if (schema !== undefined) {
+        return { schema: identifier(schema), name: identifier(table) };
+    }
+
+    const parts = parseMultipartName(table, { maxParts: 2 });
+    return parts.length === 2 ? { schema: parts[0], name: parts[1] } : { schema: 'dbo', name: parts[0] };
+}
+
+/**
+ * Validates a single identifier without parsing quotes or dots out of it
+ */
+function identifier(name: string): string {
+    if (typeof name !== 'string' || name.trim().length === 0) {
+        throw new SqlIdentifierError('Identifier must be a non-empty string', String(name));
+    }
+
+    quoteIdentifier(name);
+    return name;
+}
+
+/**
+ * Validates a constraint or index name, reporting which object a generated name that
+ * is too long belongs to
+ */
+function constraintName(name: string | undefined, generated: string, description: string): string {
+    if (name === undefined && generated.length > IDENTIFIER_MAX_LENGTH.sqlserver) {
+        throw new SqlIdentifierError(
+            `Generated name of the ${description} exceeds ${IDENTIFIER_MAX_LENGTH.sqlserver} characters; name it explicitly: ${generated.substring(0, 32)}...`,
+            generated
+        );
+    }
+    return identifier(name ?? generated);
+}
+
+function normalizeType(type: string, column: string): string {
+    const match = typeof type === 'string'
+        ? /^\s*([A-Za-z_0-9]+)\s*(?:\(\s*(max|\d+)\s*(?:,\s*(\d+)\s*)?\))?\s*$/i.exec(type)
+        : null;
+
+    if (!match || !SQL_SERVER_TYPES.has(match[1].toLowerCase())) {
+        throw new Error(`Unsupported type for column ${column}: ${type}`);
+    }
+
+    const [, base, length, scale] = match;
+    const typeName = base.toUpperCase();
+    const rules = TYPE_ARGUMENTS[base.toLowerCase()];
+    if (length !== undefined) {
+        if (!rules) {
+            throw new Error(`${typeName} column ${column} takes no length or precision`);
+        }
+        const isMax = length.toLowerCase() === 'max';
+        if (isMax ? !rules.allowsMax : Number(length) < rules.min || Number(length) > rules.max) {
+            throw new Error(`${rules.argument} of ${typeName} column ${column} must be between ${rules.min} and ${rules.max}${rules.allowsMax ? ' or MAX' : ''}`);
+        }
+        if (scale !== undefined && !rules.scale) {
+            throw new Error(`${typeName} column ${column} takes no scale`);
+        }
+        if (scale !== undefined && Number(scale) > Number(length)) {
+            throw new Error(`Scale of ${typeName} column ${column} must be between 0 and its precision`);
+        }
+    }
+
+    return `${typeName}${length ? `(${length.toUpperCase()}${scale ? `,${scale}` : ''})` : ''}`;
+}
+
+function formatColumn(column: TableModel['columns'][number]): string {
+    let sql = `${quoteIdentifier(column.name)} ${column.type}`;
+    if (column.identity) {
+        sql += ' IDENTITY(1,1)';
+    }
+    sql += column.nullable ? ' NULL' : ' NOT NULL';
+
+    if (column.defaultConstraint) {
+        const value = column.defaultFunction !== undefined
+            ? `${column.defaultFunction}()`
+            : typeof column.defaultValue === 'string'
+                ? quoteString(column.defaultValue)
+                : typeof column.defaultValue === 'boolean'
+                    ? (column.defaultValue ? '1' : '0')
+                    : String(column.defaultValue);
+        sql += ` CONSTRAINT ${quoteIdentifier(column.defaultConstraint)} DEFAULT (${value})`;
+    }
+    return sql;
+}
+
+function formatIndexOptions(fillFactor: number | undefined, compression: DataCompression | undefined, separator: string = ' '): string {
+    const options = [
+        fillFactor !== undefined ? `FILLFACTOR = ${fillFactor}` : undefined,
+        compression ? `DATA_COMPRESSION = ${compression}` : undefined,
+    ].filter(option => option !== undefined);
+
+    return options.length > 0 ? `${separator}WITH (${options.join(', ')})` : '';
+}
+
+function validateFillFactor(fillFactor: number | undefined, context: string): number | undefined {
+    if (fillFactor !== undefined && (!Number.isInteger(fillFactor) || fillFactor < 1 || fillFactor > 100)) {
+        throw new Error(`${context} fill factor must be an integer between 1 and 100`);
+    }
+    return fillFactor;
+}
+
+function validateAction(action: ReferentialAction | undefined): ReferentialAction {
+    if (action !== undefined && !REFERENTIAL_ACTIONS.includes(action)) {
+        throw new Error(`Referential action must be one of: ${REFERENTIAL_ACTIONS.join(', ')}`);
+    }
+    return action ?? 'NO ACTION';
+}
+
+/**
+ * Drops undefined properties so the model serializes to the same JSON it was built from
+ */
+function withoutUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
@@ -0,0 +1,86 @@
+/**
+ * Tests for UlidGenerator
+ */
+
+import { UlidGenerator, generateUlid, generateUlidBatch, guidToUlid, ulidToGuid } from './UlidGenerator';
+import { compareSqlServerGuids } from './SequentialGuidGenerator';
+import { createFixedClock, createSeededRandomSource, createSteppingClock } from './testing';
+
+describe('UlidGenerator', () => {
+  it('should encode the timestamp in the first 10 characters', () => {
+    const now = 1469918176385;
+    const ulid = new UlidGenerator({ clock: createFixedClock(now) }).generate();
+
+    // ULID spec example: encodeTime(1469918176385) is 01ARYZ6S41
+    expect(ulid.substring(0, 10)).toBe('01ARYZ6S41');
+    expect(UlidGenerator.extractTimestamp(ulid).getTime()).toBe(now);
+    expect(UlidGenerator.isUlid(ulid)).toBe(true);
+  });
+
+  it('should increment the random component within the same millisecond', () => {
+    const generator = new UlidGenerator({ clock: createFixedClock('2025-01-01T00:00:00Z') });
+    const [first, second] = generator.generateBatch(2);
+
+    const random = (ulid: string) => BigInt(`0x${ulidToGuid(ulid).replace(/-/g, '').substring(12)}`);
+    expect(random(second)).toBe(random(first) + 1n);
+  });
+
+  it('should stay monotonic when the clock moves backwards', () => {
+    const readings = [Date.parse('2025-01-01T00:00:01Z'), Date.parse('2025-01-01T00:00:00Z')];
+    const generator = new UlidGenerator({ clock: () => readings.shift()! });
+    const [first, second] = generator.generateBatch(2);
+
+    expect(second > first).toBe(true);
+  });
+
+  it('should fail when the random component overflows', () => {
+    const generator = new UlidGenerator({
+      clock: createFixedClock('2025-01-01T00:00:00Z'),
+      randomSource: size => Buffer.alloc(size, 0xFF),
+    });
+    generator.generate();
+
+    expect(() => generator.generate()).toThrow('ULID random component overflowed');
+  });
+
+  it('should generate sortable batches', () => {
+    const ulids = new UlidGenerator({
+      clock: createSteppingClock('2025-01-01T00:00:00Z', 0),
+      randomSource: createSeededRandomSource('ulid'),
+    }).generateBatch(500);
+
+    expect(new Set(ulids).size).toBe(500);
+    expect([...ulids].sort()).toEqual(ulids);
+    expect(generateUlidBatch(3)).toHaveLength(3);
+    expect(UlidGenerator.isUlid(generateUlid())).toBe(true);
+  });
+
+  it('should reject invalid ULIDs', () => {
+    expect(UlidGenerator.isUlid('8ZZZZZZZZZZZZZZZZZZZZZZZZZ')).toBe(false);
+    expect(() => UlidGenerator.extractTimestamp('not-a-ulid')).toThrow('Invalid ULID format');
+  });
+});
+
+describe('ULID <-> GUID conversion', () => {
+  const ulid = '01ARZ3NDEKTSV4RRFFQ69G5FAV';
+
+  it('should map ULID bytes directly onto a GUID by default', () => {
+    expect(ulidToGuid(ulid)).toBe('01563E3A-B5D3-D676-4C61-EFB99302BD5B');
+    expect(guidToUlid('01563e3a-b5d3-d676-4c61-efb99302bd5b')).toBe(ulid);
+  });
+
+  it('should remap bytes so ULID order holds under SQL Server sort order', () => {
+    const ulids = new UlidGenerator({ clock: createSteppingClock('2025-01-01T00:00:00Z') }).generateBatch(100);
+    const guids = ulids.map(value => ulidToGuid(value, { layout: 'sqlserver' }));
+
+    expect([...guids].sort(compareSqlServerGuids)).toEqual(guids);
+    expect(guids.map(guid => guidToUlid(guid, { layout: 'sqlserver' }))).toEqual(ulids);
+
+    const unmapped = ulids.map(value => ulidToGuid(value));
+    expect([...unmapped].sort(compareSqlServerGuids)).not.toEqual(unmapped);
+  });
+
+  it('should reject unknown layouts', () => {
+    expect(() => ulidToGuid(ulid, { layout: 'comb' as any })).toThrow('Unsupported GUID layout for ULID conversion: comb');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * ULID Generator
+ *
+ * Generates monotonic ULIDs (https://github.com/ulid/spec): 26 Crockford Base32
+ * characters encoding
+ * - 48 bits: Unix timestamp in milliseconds
+ * - 80 bits: randomness; within the same millisecond the previous value is
+ *   incremented by one instead of drawing new random bits
+ *
+ * A ULID and a GUID are both 128 bits, so they convert losslessly. The bytes can
+ * optionally be remapped into a GUID byte-order layout, e.g. `sqlserver` places the
+ * timestamp in bytes 10-15 so the ULID's time order survives SQL Server's
+ * uniqueidentifier sort order.
+ */
+
+import { randomBytes } from 'crypto';
+import { RandomSource, readRandom } from './SequentialGuidGenerator.js';
+import { ByteOrderLayout, LAYOUT_BYTE_ORDER } from './SqlDialect.js';
+import { decodeGuid, encodeGuid } from './GuidEncoding.js';
+import { fromBytes, toBytes } from './GuidBytes.js';
+
+export interface UlidGeneratorOptions {
+    /**
+     * Clock source returning milliseconds since the Unix epoch. Defaults to Date.now.
+     */
+    clock?: () => number;
+
+    /**
+     * Source of the random bytes. Defaults to crypto.randomBytes.
+     */
+    randomSource?: RandomSource;
+}
+
+export interface UlidConversionOptions {
+    /**
+     * GUID byte layout the ULID bytes are mapped into. Defaults to `standard`
+     * (same bytes as the ULID); use `sqlserver` to keep ULID order in
+     * uniqueidentifier columns.
+     */
+    layout?: ByteOrderLayout;
+}
+
+export class UlidGenerator {
+    private static readonly MAX_TIMESTAMP = 0xFFFFFFFFFFFF;
+    private static readonly MAX_RANDOM = (1n << 80n) - 1n;
+
+    private readonly clock: () => number;
+    private readonly randomSource: RandomSource;
+    private lastTimestamp: number = -1;
+    private lastRandom: bigint = 0n;
+
+    constructor(options: UlidGeneratorOptions = {}) {
+        this.clock = options.clock || (() => Date.now());
+        this.randomSource = options.randomSource || randomBytes;
+    }
+
+    /**
+     * Generates a new ULID
+     */
+    public generate(): string {
+        const now = this.clock();
+
+        if (now > this.lastTimestamp) {
+            if (now > UlidGenerator.MAX_TIMESTAMP) {
+                throw new Error('ULID timestamp exceeds 48 bits');
+            }
+            this.lastTimestamp = now;
+            this.lastRandom = BigInt(`0x${readRandom(this.randomSource, 10).toString('hex')}`);
+        } else {
+            // Same millisecond, or the clock moved backwards: stay monotonic
+            if (this.lastRandom === UlidGenerator.MAX_RANDOM) {
+                throw new Error('ULID random component overflowed within one millisecond');
+            }
+            this.lastRandom++;
+        }
+
+        const bytes = Buffer.alloc(16);
+        bytes.writeUIntBE(this.lastTimestamp, 0, 6);
+        bytes.write(this.lastRandom.toString(16).padStart(20, '0'), 6, 'hex');
+
+        return encodeGuid(fromBytes(bytes), 'base32');
+    }
+
+    /**
+     * Generates multiple ULIDs in strictly increasing order
+     */
+    public generateBatch(count: number): string[] {
+        if (count <= 0) {
+            throw new Error('Count must be a positive number');
+        }
+
+        const ulids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            ulids.push(this.generate());
+        }
+        return ulids;
+    }
+
+    /**
+     * Checks whether a string is a valid ULID (case-insensitive, at most 128 bits)
+     */
+    public static isUlid(value: string): boolean {
+        return /^[0-7][0-9A-HJKMNP-TV-Z]{25}$/i.test(value);
+    }
+
+    /**
+     * Extracts the Unix millisecond timestamp from a ULID
+     */
+    public static extractTimestamp(ulid: string): Date {
+        return new Date(this.toBuffer(ulid).readUIntBE(0, 6));
+    }
+
+    /**
+     * Converts a ULID to a GUID, optionally remapping the bytes into a GUID layout
+     */
+    public static toGuid(ulid: string, options: UlidConversionOptions = {}): string {
+        const ordered = this.toBuffer(ulid);
+        const guid = Buffer.alloc(16);
+
+        byteOrder(options.layout).forEach((position, index) => {
+            guid[position] = ordered[index];
+        });
+        return fromBytes(guid);
+    }
+
+    /**
+     * Converts a GUID back to a ULID; pass the layout the GUID was converted with
+     */
+    public static fromGuid(guid: string, options: UlidConversionOptions = {}): string {
+        const bytes = toBytes(guid);
+        const ordered = Buffer.alloc(16);
+
+        byteOrder(options.layout).forEach((position, index) => {
+            ordered[index] = bytes[position];
+        });
+        return encodeGuid(fromBytes(ordered), 'base32');
+    }
+
+    private static toBuffer(ulid: string): Buffer {
+        if (!this.isUlid(ulid)) {
+            throw new Error('Invalid ULID format');
+        }
+        return toBytes(decodeGuid(ulid, 'base32'));
+    }
+}
+
+function byteOrder(layout: ByteOrderLayout = 'standard'): readonly number[] {
+    const order = LAYOUT_BYTE_ORDER[layout];
+    if (!order) {
+        throw new Error(`Unsupported GUID layout for ULID conversion: ${layout}`);
+    }
+    return order;
+}
+
+/**
+ * Default singleton instance for convenience
+ */
+export const defaultUlidGenerator = new UlidGenerator();
+
+/**
+ * Convenience functions using the default instance
+ */
+export function generateUlid(): string {
+    return defaultUlidGenerator.generate();
+}
+
+export function generateUlidBatch(count: number): string[] {
+    return defaultUlidGenerator.generateBatch(count);
+}
+
+export function ulidToGuid(ulid: string, options: UlidConversionOptions = {}): string {
+    return UlidGenerator.toGuid(ulid, options);
+}
+
+export function guidToUlid(guid: string, options: UlidConversionOptions = {}): string {
+    return UlidGenerator.fromGuid(guid, options);
+}
@@ -0,0 +1,119 @@
+/**
+ * Tests for UuidV7Generator
+ */
+
+import { UuidV7Generator, generateUuidV7, generateUuidV7Batch } from './UuidV7Generator';
+import { SequentialGuidGenerator, getGuidVersion } from './SequentialGuidGenerator';
+
+describe('UuidV7Generator', () => {
+  let generator: UuidV7Generator;
+
+  beforeEach(() => {
+    generator = new UuidV7Generator();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('generate', () => {
+    it('should set the version and variant bits', () => {
+      const uuid = generator.generate();
+      const buffer = SequentialGuidGenerator.guidToBuffer(uuid);
+
+      expect(buffer[6] >> 4).toBe(7);
+      expect(buffer[8] & 0xC0).toBe(0x80);
+      expect(getGuidVersion(uuid)).toBe(7);
+      expect(UuidV7Generator.isUuidV7(uuid)).toBe(true);
+    });
+
+    it('should encode the Unix millisecond timestamp in the first 48 bits', () => {
+      const now = Date.parse('2025-03-14T15:09:26.535Z');
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      const uuid = generator.generate();
+
+      expect(uuid.replace(/-/g, '').substring(0, 12)).toBe(now.toString(16).padStart(12, '0').toUpperCase());
+      expect(UuidV7Generator.extractTimestamp(uuid).getTime()).toBe(now);
+    });
+
+    it('should increment the rand_a counter within the same millisecond', () => {
+      jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-01-01T00:00:00Z'));
+
+      const counters = generator.generateBatch(10)
+        .map(uuid => SequentialGuidGenerator.guidToBuffer(uuid).readUInt16BE(6) & 0x0FFF);
+
+      for (let i = 1; i < counters.length; i++) {
+        expect(counters[i]).toBe(counters[i - 1] + 1);
+      }
+    });
+
+    it('should advance the timestamp instead of waiting when the counter overflows', () => {
+      const now = Date.parse('2025-01-01T00:00:00Z');
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+
+      // The counter starts below 0x800, so 0x1000 values always overflow it
+      const uuids = generator.generateBatch(0x1000);
+      const last = UuidV7Generator.extractTimestamp(uuids[uuids.length - 1]).getTime();
+
+      expect(last).toBe(now + 1);
+      expect([...uuids].sort()).toEqual(uuids);
+    });
+
+    it('should stay monotonic when the clock moves backwards', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2025-01-01T00:00:01Z'));
+      const first = generator.generate();
+
+      now.mockReturnValue(Date.parse('2025-01-01T00:00:00Z'));
+      const second = generator.generate();
+
+      expect(second > first).toBe(true);
+    });
+  });
+
+  describe('generateBatch', () => {
+    it('should generate unique, lexicographically increasing UUIDs', () => {
+      const uuids = generator.generateBatch(1000);
+
+      expect(new Set(uuids).size).toBe(1000);
+      expect([...uuids].sort()).toEqual(uuids);
+    });
+
+    it('should throw error for invalid count', () => {
+      expect(() => generator.generateBatch(0)).toThrow('Count must be a positive number');
+    });
+  });
+
+  describe('extractTimestamp', () => {
+    it('should reject GUIDs that are not version 7', () => {
+      expect(() => UuidV7Generator.extractTimestamp('550E8400-E29B-41D4-A716-446655440000'))
+        .toThrow('GUID is not a version 7 UUID');
+    });
+
+    it('should decode the RFC 9562 example value', () => {
+      // RFC 9562 appendix A.6
+      expect(UuidV7Generator.extractTimestamp('017F22E2-79B0-7CC3-98C4-DC0C0C07398F').toISOString())
+        .toBe('2022-02-22T19:22:22.000Z');
+    });
+  });
+});
+
+describe('SequentialGuidGenerator.extractTimestamp with UUIDv7', () => {
+  it('should decode GUIDs that look like UUIDv7 with its own layout', () => {
+    const now = Date.parse('2025-06-01T12:00:00.000Z');
+    // Version nibble 7 and variant 10 come from this machine ID
+    const other = new SequentialGuidGenerator({ machineId: Buffer.from('70008000', 'hex'), clock: () => now });
+    const sequential = new SequentialGuidGenerator({ machineId: Buffer.from('12345678', 'hex') });
+    const guid = other.generate();
+
+    expect(UuidV7Generator.isUuidV7(guid)).toBe(true);
+    expect(sequential.extractTimestamp(guid).getTime()).toBe(now);
+  });
+});
+
+describe('UUIDv7 convenience functions', () => {
+  it('should generate valid UUIDv7 values', () => {
+    expect(UuidV7Generator.isUuidV7(generateUuidV7())).toBe(true);
+    generateUuidV7Batch(5).forEach(uuid => expect(UuidV7Generator.isUuidV7(uuid)).toBe(true));
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * UUIDv7 Generator (RFC 9562)
+ *
+ * Generates time-ordered version 7 UUIDs for databases that compare UUIDs
+ * byte by byte (PostgreSQL, application-layer sorting):
+ * - 48 bits: Unix timestamp in milliseconds (big-endian)
+ * - 4 bits: Version (0111)
+ * - 12 bits: rand_a, used as a monotonic counter within the same millisecond
+ * - 2 bits: Variant (10)
+ * - 62 bits: rand_b, random
+ */
+
+import { randomBytes } from 'crypto';
+import { RandomSource, SequentialGuidGenerator, getGuidVersion, readRandom } from './SequentialGuidGenerator.js';
+
+export interface UuidV7GeneratorOptions {
+    /**
+     * Clock source returning milliseconds since the Unix epoch. Defaults to Date.now.
+     */
+    clock?: () => number;
+
+    /**
+     * Source of the random bytes. Defaults to crypto.randomBytes.
+     */
+    randomSource?: RandomSource;
+}
+
+export class UuidV7Generator {
+    private static readonly MAX_COUNTER = 0x0FFF;
+    private static readonly MAX_TIMESTAMP = 0xFFFFFFFFFFFF;
+
+    private readonly clock: () => number;
+    private readonly randomSource: RandomSource;
+    private lastTimestamp: number = -1;
+    private counter: number = 0;
+
+    constructor(options: UuidV7GeneratorOptions = {}) {
+        this.clock = options.clock || (() => Date.now());
+        this.randomSource = options.randomSource || randomBytes;
+    }
+
+    /**
+     * Generates a new UUIDv7
+     */
+    public generate(): string {
+        this.nextCounter(this.clock());
+
+        const uuid = readRandom(this.randomSource, 16);
+
+        // First 6 bytes: Unix timestamp in milliseconds (big-endian)
+        uuid.writeUIntBE(this.lastTimestamp, 0, 6);
+
+        // Next 2 bytes: Version 7 + 12-bit counter (rand_a)
+        uuid.writeUInt16BE(0x7000 | this.counter, 6);
+
+        // Set variant to 10xx (RFC 9562), keep the rest of rand_b random
+        uuid[8] = (uuid[8] & 0x3F) | 0x80;
+
+        return SequentialGuidGenerator.bufferToGuid(uuid);
+    }
+
+    /**
+     * Generates multiple UUIDv7 values in strictly increasing order
+     */
+    public generateBatch(count: number): string[] {
+        if (count <= 0) {
+            throw new Error('Count must be a positive number');
+        }
+
+        const uuids: string[] = [];
+        for (let i = 0; i < count; i++) {
+            uuids.push(this.generate());
+        }
+        return uuids;
+    }
+
+    /**
+     * Checks whether a GUID carries the RFC 9562 variant and version 7
+     */
+    public static isUuidV7(guid: string): boolean {
+        return SequentialGuidGenerator.isValidGuid(guid) && getGuidVersion(guid) === 7;
+    }
+
+    /**
+     * Extracts the Unix millisecond timestamp from a UUIDv7
+     */
+    public static extractTimestamp(guid: string): Date {
+        if (!this.isUuidV7(guid)) {
+            throw new Error('GUID is not a version 7 UUID');
+        }
+
+        const buffer = SequentialGuidGenerator.guidToBuffer(guid);
+        return new Date(buffer.readUIntBE(0, 6));
+    }
+
+    /**
+     * Advances the timestamp/counter pair (RFC 9562 section 6.2, method 1).
+     *
+     * A new millisecond seeds the counter randomly with its top bit clear, leaving
+     * headroom for increments. Within the same millisecond, or when the clock moves
+     * backwards, the counter is incremented; on counter overflow the timestamp is
+     * advanced by one millisecond instead of waiting for the clock.
+     */
+    private nextCounter(now: number): void {
+        if (now > this.lastTimestamp) {
+            this.lastTimestamp = now;
+            this.counter = readRandom(this.randomSource, 2).readUInt16BE(0) & 0x07FF;
+        } else if (this.counter < UuidV7Generator.MAX_COUNTER) {
+            this.counter++;
+        } else {
+            this.lastTimestamp++;
+            this.counter = 0;
+        }
+
+        if (this.lastTimestamp > UuidV7Generator.MAX_TIMESTAMP) {
+            throw new Error('UUIDv7 timestamp exceeds 48 bits');
+        }
+    }
+}
+
+/**
+ * Default singleton instance for convenience
+ */
+export const defaultUuidV7Generator = new UuidV7Generator();
+
+/**
+ * Convenience functions using the default instance
+ */
+export function generateUuidV7(): string {
+    return defaultUuidV7Generator.generate();
+}
+
+export function generateUuidV7Batch(count: number): string[] {
+    return defaultUuidV7Generator.generateBatch(count);
+}
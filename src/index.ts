@@ -9,13 +9,193 @@
  * @license MIT
  */
 
-export { SequentialGuidGenerator, type GuidGeneratorOptions } from './SequentialGuidGenerator.js';
-export { SqlServerOptimizations, type SqlServerGuidAnalysis } from './SqlServerOptimizations.js';
+export {
+  SequentialGuidGenerator,
+  ClockRegressionError,
+  type GuidGeneratorOptions,
+  type GuidLayout,
+  type ClockRegressionPolicy,
+  type ClockRegressionEvent,
+  type RandomSource,
+  type RandomGuidOptions,
+  type MachineIdInfo,
+  type GuidTimeRange,
+  type GuidTimeRangeOptions,
+} from './SequentialGuidGenerator.js';
+export {
+  SqlServerOptimizations,
+  PARTITION_INTERVALS,
+  PAGE_SPLIT_EVENTS,
+  PAGE_SPLIT_TARGETS,
+  type SqlServerGuidAnalysis,
+  type GuidSequenceAnalysis,
+  type GuidSequenceAnalysisOptions,
+  type GuidPartitionOptions,
+  type PartitionInterval,
+  type PageSplitEvent,
+  type PageSplitTarget,
+  type PageSplitSessionOptions,
+  type PageSplitSession,
+} from './SqlServerOptimizations.js';
 export {
   generateSequentialGuid,
   generateSequentialGuidBatch,
   generateRandomGuid,
   generateRandomGuidBatch,
   isValidGuid,
+  getGuidVersion,
+  compareSqlServerGuids,
   defaultGuidGenerator,
-} from './SequentialGuidGenerator.js';
\ No newline at end of file
+  GUID_LAYOUTS,
+  CLOCK_REGRESSION_POLICIES,
+} from './SequentialGuidGenerator.js';
+export {
+  UuidV7Generator,
+  type UuidV7GeneratorOptions,
+  generateUuidV7,
+  generateUuidV7Batch,
+  defaultUuidV7Generator,
+} from './UuidV7Generator.js';
+export {
+  GeneratorRegistry,
+  type GeneratorRegistryOptions,
+  type GeneratorProfileOptions,
+  type GeneratorDescriptor,
+} from './GeneratorRegistry.js';
+export {
+  FileGeneratorStateStore,
+  type FileGeneratorStateStoreOptions,
+  type GeneratorState,
+  type GeneratorStateStore,
+} from './GeneratorStateStore.js';
+export {
+  resolveMachineId,
+  MACHINE_ID_STRATEGIES,
+  MACHINE_ID_ENV_VAR,
+  type MachineIdStrategy,
+  type MachineIdResolution,
+  type HostIdentity,
+} from './MachineId.js';
+export { NodeDirectory, type NodeRegistration } from './NodeDirectory.js';
+export {
+  getDialect,
+  compareGuids,
+  createGuidComparator,
+  isSequentialLayout,
+  SQL_DIALECTS,
+  LAYOUT_BYTE_ORDER,
+  type SqlDialect,
+  type SqlDialectName,
+  type ByteOrderLayout,
+} from './SqlDialect.js';
+export {
+  toBytes,
+  fromBytes,
+  convertByteOrder,
+  GUID_BYTE_ORDERS,
+  type GuidByteOrder,
+  type GuidByteOptions,
+} from './GuidBytes.js';
+export {
+  encodeGuid,
+  decodeGuid,
+  detectGuidFormat,
+  GUID_FORMATS,
+  GUID_FORMAT_INFO,
+  type GuidFormat,
+  type GuidFormatInfo,
+} from './GuidEncoding.js';
+export {
+  UlidGenerator,
+  type UlidGeneratorOptions,
+  type UlidConversionOptions,
+  generateUlid,
+  generateUlidBatch,
+  ulidToGuid,
+  guidToUlid,
+  defaultUlidGenerator,
+} from './UlidGenerator.js';
+export {
+  generateUuidV5,
+  generateUuidV3,
+  generateUuidV5Batch,
+  generateUuidV3Batch,
+  generateNameBasedUuid,
+  resolveNamespace,
+  UUID_NAMESPACES,
+  type NameBasedUuidVersion,
+  type PredefinedNamespace,
+} from './NameBasedUuid.js';
+export {
+  classifyGuid,
+  type GuidClassification,
+  type GuidClassifierOptions,
+  type GuidCandidate,
+  type GuidFields,
+  type GuidType,
+  type GuidVariant,
+} from './GuidClassifier.js';
+export {
+  simulateInserts,
+  compareInsertStrategies,
+  rowsPerPage,
+  INSERT_STRATEGIES,
+  PAGE_SIZE_BYTES,
+  type InsertStrategy,
+  type BTreeSimulationOptions,
+  type BTreeSimulationResult,
+} from './BTreeSimulator.js';
+export {
+  parseMultipartName,
+  quoteIdentifier,
+  quoteName,
+  quoteString,
+  SqlIdentifierError,
+  IDENTIFIER_MAX_LENGTH,
+  type SqlNameOptions,
+} from './SqlIdentifier.js';
+export {
+  generateTableDdl,
+  normalizeTableDefinition,
+  SQL_DEFAULT_FUNCTIONS,
+  REFERENTIAL_ACTIONS,
+  type TableDefinition,
+  type TableModel,
+  type TableDdl,
+  type ColumnDefinition,
+  type PrimaryKeyDefinition,
+  type ForeignKeyDefinition,
+  type IndexDefinition,
+  type IndexColumn,
+  type SqlDefaultFunction,
+  type DataCompression,
+  type ReferentialAction,
+} from './TableDdl.js';
+export {
+  generateKeyMigration,
+  createBackfillGuid,
+  KEY_MIGRATION_SOURCE_TYPES,
+  type KeyMigrationDefinition,
+  type KeyMigrationPhase,
+  type KeyMigrationScript,
+  type KeyMigrationSourceType,
+  type ReferencingKeyDefinition,
+} from './KeyMigration.js';
+export {
+  parseIndexStats,
+  generateMaintenancePlan,
+  type IndexPhysicalStats,
+  type IndexMaintenanceAction,
+  type IndexMaintenanceOptions,
+  type IndexMaintenanceStep,
+  type IndexMaintenancePlan,
+} from './IndexMaintenance.js';
+export {
+  ORM_NAMES,
+  generateOrmIntegration,
+  formatOrmIntegration,
+  type OrmName,
+  type OrmIntegrationOptions,
+  type OrmIntegrationFile,
+  type OrmIntegration,
+} from './OrmIntegration.js';
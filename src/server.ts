@@ -8,6 +8,7 @@ import {
   ListToolsRequestSchema,
   McpError,
 } from '@modelcontextprotocol/sdk/types.js';
+import { readFileSync, statSync } from 'fs';
 import {
   SequentialGuidGenerator,
   generateSequentialGuid,
@@ -16,8 +17,34 @@ import {
   generateRandomGuidBatch,
   isValidGuid,
   defaultGuidGenerator,
+  GUID_LAYOUTS,
+  type GuidGeneratorOptions,
+  type GuidLayout,
 } from './SequentialGuidGenerator.js';
-import { SqlServerOptimizations } from './SqlServerOptimizations.js';
+import { UuidV7Generator, defaultUuidV7Generator } from './UuidV7Generator.js';
+import { UlidGenerator, defaultUlidGenerator } from './UlidGenerator.js';
+import { GuidClassifierOptions, classifyGuid } from './GuidClassifier.js';
+import { INSERT_STRATEGIES, InsertStrategy } from './BTreeSimulator.js';
+import { UUID_NAMESPACES, generateNameBasedUuid, resolveNamespace } from './NameBasedUuid.js';
+import { PAGE_SPLIT_EVENTS, PAGE_SPLIT_TARGETS, PARTITION_INTERVALS, SqlServerOptimizations } from './SqlServerOptimizations.js';
+import { SqlIdentifierError, parseMultipartName, quoteString } from './SqlIdentifier.js';
+import { REFERENTIAL_ACTIONS, SQL_DEFAULT_FUNCTIONS, generateTableDdl } from './TableDdl.js';
+import { KEY_MIGRATION_SOURCE_TYPES, generateKeyMigration } from './KeyMigration.js';
+import { generateMaintenancePlan, parseIndexStats } from './IndexMaintenance.js';
+import { ORM_NAMES, formatOrmIntegration, generateOrmIntegration } from './OrmIntegration.js';
+import { GeneratorRegistry } from './GeneratorRegistry.js';
+import { FileGeneratorStateStore } from './GeneratorStateStore.js';
+import { MACHINE_ID_ENV_VAR, MACHINE_ID_STRATEGIES, MachineIdStrategy } from './MachineId.js';
+import { NodeDirectory } from './NodeDirectory.js';
+import {
+  ByteOrderLayout,
+  LAYOUT_BYTE_ORDER,
+  SQL_DIALECTS,
+  SqlDialect,
+  getDialect,
+  isSequentialLayout,
+} from './SqlDialect.js';
+import { GUID_FORMATS, GUID_FORMAT_INFO, GuidFormat, decodeGuid, detectGuidFormat, encodeGuid } from './GuidEncoding.js';
 
 /**
  * MCP Server for Sequential GUID Generation
@@ -26,9 +53,15 @@ import { SqlServerOptimizations } from './SqlServerOptimizations.js';
  * which improve database performance by reducing index fragmentation.
  */
 
+/** Largest input file the tools read (about 100,000 GUIDs with quotes and CRLF) */
+const MAX_INPUT_FILE_BYTES = 8 * 1024 * 1024;
+
 class GuidMcpServer {
   private server: Server;
-  private guidGenerator: SequentialGuidGenerator;
+  private generators: GeneratorRegistry;
+  private nodes: NodeDirectory;
+  private uuidV7Generator: UuidV7Generator;
+  private ulidGenerator: UlidGenerator;
 
   constructor() {
     this.server = new Server(
@@ -43,7 +76,13 @@ class GuidMcpServer {
       }
     );
 
-    this.guidGenerator = defaultGuidGenerator;
+    const defaultGeneratorOptions = this.createDefaultGeneratorOptions();
+    this.generators = new GeneratorRegistry(defaultGeneratorOptions
+      ? { defaultGeneratorOptions }
+      : { defaultGenerator: defaultGuidGenerator });
+    this.nodes = new NodeDirectory();
+    this.uuidV7Generator = defaultUuidV7Generator;
+    this.ulidGenerator = defaultUlidGenerator;
     this.setupToolHandlers();
   }
 
@@ -56,7 +95,13 @@ class GuidMcpServer {
             description: 'Generate a single random GUID (UUID v4)',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
+              },
             },
           },
           {
@@ -65,6 +110,11 @@ class GuidMcpServer {
             inputSchema: {
               type: 'object',
               properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
                 count: {
                   type: 'number',
                   description: 'Number of GUIDs to generate (1-1000)',
@@ -81,11 +131,30 @@ class GuidMcpServer {
             inputSchema: {
               type: 'object',
               properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
                 machineId: {
                   type: 'string',
                   description: 'Optional custom machine ID (8 hex characters). If not provided, uses default.',
                   pattern: '^[0-9A-Fa-f]{8}$',
                 },
+                layout: {
+                  type: 'string',
+                  enum: [...GUID_LAYOUTS],
+                  description: 'Byte layout: standard (string order), sqlserver (uniqueidentifier sort order), mysql (UUID_TO_BIN swap order) or comb (NHibernate COMB). Default: standard',
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Database the GUIDs are stored in; picks the layout that stays sequential there. Cannot be combined with a different layout.',
+                },
+                generator: {
+                  type: 'string',
+                  description: 'Optional generator profile created with create_generator. Cannot be combined with machineId/layout.',
+                },
               },
             },
           },
@@ -95,6 +164,11 @@ class GuidMcpServer {
             inputSchema: {
               type: 'object',
               properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
                 count: {
                   type: 'number',
                   description: 'Number of GUIDs to generate (1-1000)',
@@ -106,10 +180,263 @@ class GuidMcpServer {
                   description: 'Optional custom machine ID (8 hex characters). If not provided, uses default.',
                   pattern: '^[0-9A-Fa-f]{8}$',
                 },
+                layout: {
+                  type: 'string',
+                  enum: [...GUID_LAYOUTS],
+                  description: 'Byte layout: standard (string order), sqlserver (uniqueidentifier sort order), mysql (UUID_TO_BIN swap order) or comb (NHibernate COMB). Default: standard',
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Database the GUIDs are stored in; picks the layout that stays sequential there. Cannot be combined with a different layout.',
+                },
+                generator: {
+                  type: 'string',
+                  description: 'Optional generator profile created with create_generator. Cannot be combined with machineId/layout.',
+                },
+              },
+              required: ['count'],
+            },
+          },
+          {
+            name: 'generate_uuid_v7',
+            description: 'Generate a single time-ordered UUIDv7 (RFC 9562)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Optional database the UUIDs are stored in; the response reports whether they stay sequential there',
+                },
+              },
+            },
+          },
+          {
+            name: 'generate_uuid_v7_batch',
+            description: 'Generate multiple time-ordered UUIDv7 values (RFC 9562) in increasing order',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
+                count: {
+                  type: 'number',
+                  description: 'Number of UUIDs to generate (1-1000)',
+                  minimum: 1,
+                  maximum: 1000,
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Optional database the UUIDs are stored in; the response reports whether they stay sequential there',
+                },
+              },
+              required: ['count'],
+            },
+          },
+          {
+            name: 'generate_uuid_v5',
+            description: 'Generate a deterministic name-based UUID (v5, or v3) from a namespace and a name; the same input always gives the same UUID',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Name to derive the UUID from, e.g. a natural key such as tenant + external reference',
+                },
+                namespace: {
+                  type: 'string',
+                  description: 'Namespace: dns, url, oid, x500 (RFC 9562 predefined) or a custom namespace UUID',
+                },
+                version: {
+                  type: 'number',
+                  enum: [5, 3],
+                  description: 'UUID version: 5 (SHA-1, default) or 3 (MD5, only for compatibility with existing IDs)',
+                },
+              },
+              required: ['name', 'namespace'],
+            },
+          },
+          {
+            name: 'generate_uuid_v5_batch',
+            description: 'Generate deterministic name-based UUIDs (v5, or v3) for a list of names, in input order',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                names: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Names to derive UUIDs from (1-1000)',
+                  minItems: 1,
+                  maxItems: 1000,
+                },
+                namespace: {
+                  type: 'string',
+                  description: 'Namespace: dns, url, oid, x500 (RFC 9562 predefined) or a custom namespace UUID',
+                },
+                version: {
+                  type: 'number',
+                  enum: [5, 3],
+                  description: 'UUID version: 5 (SHA-1, default) or 3 (MD5, only for compatibility with existing IDs)',
+                },
+              },
+              required: ['names', 'namespace'],
+            },
+          },
+          {
+            name: 'generate_ulid',
+            description: 'Generate a single monotonic ULID together with its GUID form',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format of the GUID form: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['standard', 'sqlserver', 'mysql'],
+                  description: 'GUID byte layout the ULID bytes map to: standard (same bytes) or sqlserver/mysql (keeps ULID order in that database). Default: standard',
+                },
+              },
+            },
+          },
+          {
+            name: 'generate_ulid_batch',
+            description: 'Generate multiple monotonic ULIDs in increasing order',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                format: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Output format of the GUID form: canonical (default), compact, braced, urn, base32 (Crockford), base58 or base64url',
+                },
+                count: {
+                  type: 'number',
+                  description: 'Number of ULIDs to generate (1-1000)',
+                  minimum: 1,
+                  maximum: 1000,
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['standard', 'sqlserver', 'mysql'],
+                  description: 'GUID byte layout the ULID bytes map to: standard (same bytes) or sqlserver/mysql (keeps ULID order in that database). Default: standard',
+                },
               },
               required: ['count'],
             },
           },
+          {
+            name: 'ulid_to_guid',
+            description: 'Convert a ULID to a GUID, optionally remapping bytes so ULID order holds in SQL Server',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                ulid: {
+                  type: 'string',
+                  description: 'ULID to convert (26 Crockford Base32 characters)',
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['standard', 'sqlserver', 'mysql'],
+                  description: 'GUID byte layout the ULID bytes map to: standard (same bytes) or sqlserver/mysql (keeps ULID order in that database). Default: standard',
+                },
+              },
+              required: ['ulid'],
+            },
+          },
+          {
+            name: 'guid_to_ulid',
+            description: 'Convert a GUID back to a ULID',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guid: {
+                  type: 'string',
+                  description: 'GUID to convert',
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['standard', 'sqlserver', 'mysql'],
+                  description: 'Layout the GUID was converted with: standard (same bytes) or sqlserver/mysql (keeps ULID order in that database). Default: standard',
+                },
+              },
+              required: ['guid'],
+            },
+          },
+          {
+            name: 'list_generators',
+            description: 'List the long-lived sequential GUID generators kept by the server (named profiles and per-machine-ID generators)',
+            inputSchema: {
+              type: 'object',
+              properties: {},
+            },
+          },
+          {
+            name: 'create_generator',
+            description: 'Create a named sequential GUID generator profile that keeps its sequence across calls',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Profile name (1-64 letters, digits, ".", "_" or "-")',
+                  pattern: '^[A-Za-z0-9_.-]{1,64}$',
+                },
+                machineId: {
+                  type: 'string',
+                  description: 'Optional machine ID (8 hex characters). Random if not provided.',
+                  pattern: '^[0-9A-Fa-f]{8}$',
+                },
+                layout: {
+                  type: 'string',
+                  enum: [...GUID_LAYOUTS],
+                  description: 'Byte layout. Default: standard',
+                },
+                sequenceBits: {
+                  type: 'number',
+                  description: 'Width of the per-millisecond sequence counter (4-16). Default: 4',
+                  minimum: 4,
+                  maximum: 16,
+                },
+              },
+              required: ['name'],
+            },
+          },
+          {
+            name: 'reset_generator',
+            description: 'Discard the sequence state of a generator profile, or drop the generator kept for a machine ID',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Profile name to reset',
+                },
+                machineId: {
+                  type: 'string',
+                  description: 'Machine ID (8 hex characters) of a per-machine generator to drop',
+                  pattern: '^[0-9A-Fa-f]{8}$',
+                },
+                layout: {
+                  type: 'string',
+                  enum: [...GUID_LAYOUTS],
+                  description: 'Layout of the per-machine generator to drop. Default: standard',
+                },
+              },
+            },
+          },
           {
             name: 'validate_guid',
             description: 'Validate if a string is a properly formatted GUID',
@@ -134,18 +461,96 @@ class GuidMcpServer {
                   type: 'string',
                   description: 'Sequential GUID to extract timestamp from',
                 },
+                layout: {
+                  type: 'string',
+                  enum: [...GUID_LAYOUTS],
+                  description: 'Byte layout the GUID was generated with. Default: standard',
+                },
+                type: {
+                  type: 'string',
+                  enum: ['sequential', 'uuid_v7'],
+                  description: 'sequential for GUIDs from this generator, uuid_v7 for RFC 9562 UUIDv7 values (default: sequential)',
+                },
               },
               required: ['guid'],
             },
           },
+          {
+            name: 'convert_guid_format',
+            description: 'Convert a GUID between text encodings (canonical, compact, braced, urn, Crockford Base32, Base58, Base64url)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                value: {
+                  type: 'string',
+                  description: 'GUID in any supported encoding',
+                },
+                from: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Encoding of value. Detected automatically if omitted.',
+                },
+                to: {
+                  type: 'string',
+                  enum: [...GUID_FORMATS],
+                  description: 'Target encoding. All encodings are returned if omitted.',
+                },
+              },
+              required: ['value'],
+            },
+          },
           {
             name: 'get_machine_id',
-            description: 'Get the current machine ID being used for GUID generation',
+            description: 'Get the current machine ID being used for GUID generation and the strategy it was derived with',
             inputSchema: {
               type: 'object',
               properties: {},
             },
           },
+          {
+            name: 'register_node',
+            description: 'Register a node name for a machine ID so GUIDs can be traced back to the node that issued them',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                name: {
+                  type: 'string',
+                  description: 'Node name, e.g. a hostname or pod name',
+                },
+                machineId: {
+                  type: 'string',
+                  description: 'Machine ID (8 hex characters)',
+                  pattern: '^[0-9A-Fa-f]{8}$',
+                },
+              },
+              required: ['name', 'machineId'],
+            },
+          },
+          {
+            name: 'identify_guid_node',
+            description: 'Decode the machine ID of a sequential GUID and map it to the registered node that issued it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guid: {
+                  type: 'string',
+                  description: 'Sequential GUID to decode',
+                },
+                layout: {
+                  type: 'string',
+                  enum: GUID_LAYOUTS.filter(layout => layout !== 'comb'),
+                  description: 'Byte layout the GUID was generated with. Default: standard',
+                },
+                sequenceBits: {
+                  type: 'number',
+                  description: 'Sequence width the GUID was generated with (4-16). Default: 4',
+                  minimum: 4,
+                  maximum: 16,
+                },
+              },
+              required: ['guid'],
+            },
+          },
           {
             name: 'get_guid_info',
             description: 'Get detailed information about a GUID including structure and timestamps',
@@ -174,22 +579,136 @@ class GuidMcpServer {
               required: ['guid'],
             },
           },
+          {
+            name: 'analyze_guid_sequence',
+            description: 'Analyze an ordered list of existing GUIDs (e.g. a key column in insert order): inversions, longest run, out-of-order percentage under SQL Server sort order, decoded time span and machine IDs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                guids: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'GUIDs in insert order (up to 100,000)',
+                },
+                file: {
+                  type: 'string',
+                  description: 'Path to a regular file (up to 8 MB) with one GUID per line (or comma separated), used instead of guids',
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Sort order to check against (default: sqlserver)',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['json', 'markdown'],
+                  description: 'Report format (default: json)',
+                },
+              },
+            },
+          },
           {
             name: 'generate_sql_schema',
-            description: 'Generate SQL Server table schema optimized for sequential GUIDs',
+            description: 'Generate a table schema optimized for sequential GUIDs (SQL Server by default). Pass a structured table definition to get complete SQL Server DDL plus a normalized JSON model that can be edited and passed back in.',
             inputSchema: {
               type: 'object',
               properties: {
                 tableName: {
                   type: 'string',
-                  description: 'Name of the table',
+                  description: 'Name of the table, optionally schema-qualified (sales.Orders or [sales].[Orders])',
+                },
+                table: {
+                  type: 'object',
+                  description: 'Structured SQL Server table definition, used instead of tableName',
+                  properties: {
+                    name: { type: 'string', description: 'Table name, optionally schema-qualified' },
+                    schema: { type: 'string', description: 'Schema (default: dbo)' },
+                    columns: {
+                      type: 'array',
+                      description: 'Columns in order; the first column is the primary key unless primaryKey.columns is set',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          name: { type: 'string' },
+                          type: { type: 'string', description: 'SQL Server type, e.g. UNIQUEIDENTIFIER, NVARCHAR(200), DECIMAL(18,2)' },
+                          nullable: { type: 'boolean', description: 'Default: false for primary key columns, true otherwise' },
+                          defaultValue: { type: ['string', 'number', 'boolean'], description: 'Literal default value' },
+                          defaultFunction: { type: 'string', enum: [...SQL_DEFAULT_FUNCTIONS], description: 'Function default' },
+                          defaultConstraint: { type: 'string', description: 'Default constraint name (default: DF_<table>_<column>)' },
+                          identity: { type: 'boolean', description: 'IDENTITY(1,1)' },
+                        },
+                        required: ['name', 'type'],
+                      },
+                    },
+                    primaryKey: {
+                      type: 'object',
+                      properties: {
+                        name: { type: 'string' },
+                        columns: { type: 'array', items: { type: 'string' } },
+                        clustered: { type: 'boolean', description: 'Default: true' },
+                        fillFactor: { type: 'number', minimum: 1, maximum: 100 },
+                      },
+                    },
+                    foreignKeys: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          name: { type: 'string' },
+                          columns: { type: 'array', items: { type: 'string' } },
+                          references: {
+                            type: 'object',
+                            properties: {
+                              table: { type: 'string', description: 'Referenced table, optionally schema-qualified' },
+                              schema: { type: 'string', description: 'Referenced schema (default: dbo)' },
+                              columns: { type: 'array', items: { type: 'string' }, description: 'Default: Id' },
+                            },
+                            required: ['table'],
+                          },
+                          onDelete: { type: 'string', enum: [...REFERENTIAL_ACTIONS] },
+                          onUpdate: { type: 'string', enum: [...REFERENTIAL_ACTIONS] },
+                        },
+                        required: ['columns', 'references'],
+                      },
+                    },
+                    indexes: {
+                      type: 'array',
+                      items: {
+                        type: 'object',
+                        properties: {
+                          name: { type: 'string' },
+                          columns: {
+                            type: 'array',
+                            items: {
+                              anyOf: [
+                                { type: 'string' },
+                                { type: 'object', properties: { name: { type: 'string' }, descending: { type: 'boolean' } }, required: ['name'] },
+                              ],
+                            },
+                          },
+                          unique: { type: 'boolean' },
+                          clustered: { type: 'boolean' },
+                          include: { type: 'array', items: { type: 'string' } },
+                          fillFactor: { type: 'number', minimum: 1, maximum: 100 },
+                        },
+                        required: ['columns'],
+                      },
+                    },
+                    fillFactor: { type: 'number', minimum: 1, maximum: 100, description: 'Default fill factor for the primary key and indexes' },
+                    dataCompression: { type: 'string', enum: ['NONE', 'ROW', 'PAGE'], description: 'Default: NONE' },
+                  },
+                  required: ['name', 'columns'],
                 },
                 guidColumnName: {
                   type: 'string',
                   description: 'Name of the GUID column (default: Id)',
                 },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Target database. Default: sqlserver',
+                },
               },
-              required: ['tableName'],
             },
           },
           {
@@ -200,7 +719,7 @@ class GuidMcpServer {
               properties: {
                 tableName: {
                   type: 'string',
-                  description: 'Name of the table to monitor',
+                  description: 'Name of the table to monitor, optionally schema-qualified',
                 },
                 guidColumnName: {
                   type: 'string',
@@ -220,13 +739,346 @@ class GuidMcpServer {
           },
           {
             name: 'get_performance_comparison',
-            description: 'Get performance comparison between sequential and random GUIDs in SQL Server',
+            description: 'Simulate inserts into a SQL Server clustered index and compare page splits, page density and fragmentation of sequential, COMB, UUIDv7 and random GUIDs',
             inputSchema: {
               type: 'object',
-              properties: {},
+              properties: {
+                rows: {
+                  type: 'number',
+                  description: 'Number of rows to insert (default: 10000)',
+                  minimum: 1,
+                },
+                existingRows: {
+                  type: 'number',
+                  description: 'Rows already in the index, loaded at the fill factor as after a rebuild (default: 0)',
+                  minimum: 0,
+                },
+                rowSizeBytes: {
+                  type: 'number',
+                  description: 'Row size in bytes including the 16-byte key (default: 200)',
+                  minimum: 16,
+                  maximum: 8060,
+                },
+                fillFactor: {
+                  type: 'number',
+                  description: 'FILLFACTOR the existing rows were loaded with, 1-100 (default: 100)',
+                  minimum: 1,
+                  maximum: 100,
+                },
+                insertsPerSecond: {
+                  type: 'number',
+                  description: 'Insert rate; matters for COMB, whose clock only ticks every 3.33 ms (default: 1000)',
+                },
+                strategies: {
+                  type: 'array',
+                  items: { type: 'string', enum: [...INSERT_STRATEGIES] },
+                  description: 'Strategies to compare (default: all)',
+                },
+              },
             },
           },
-        ],
+          {
+            name: 'generate_key_migration',
+            description: 'Generate a phased, re-runnable T-SQL migration of an INT IDENTITY or random GUID primary key (and the foreign keys referencing it) to sequential GUIDs: add columns, backfill in batches, update child tables, swap constraints, rebuild indexes, each with verification queries',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: {
+                  type: 'string',
+                  description: 'Table whose key is migrated, optionally schema-qualified',
+                },
+                keyColumn: {
+                  type: 'string',
+                  description: 'Current primary key column',
+                },
+                keyType: {
+                  type: 'string',
+                  enum: [...KEY_MIGRATION_SOURCE_TYPES],
+                  description: 'Current key type',
+                },
+                primaryKeyName: {
+                  type: 'string',
+                  description: 'Primary key constraint name (default: PK_<table>)',
+                },
+                clustered: {
+                  type: 'boolean',
+                  description: 'Whether the new primary key is clustered (default: true)',
+                },
+                orderBy: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Columns ordering the backfilled keys (default: the key column); use a creation time column for random GUID keys',
+                },
+                referencingKeys: {
+                  type: 'array',
+                  description: 'Foreign keys referencing the key',
+                  items: {
+                    type: 'object',
+                    properties: {
+                      table: { type: 'string', description: 'Child table, optionally schema-qualified' },
+                      column: { type: 'string', description: 'Foreign key column' },
+                      constraintName: { type: 'string', description: 'Existing foreign key constraint' },
+                      nullable: { type: 'boolean', description: 'Whether the column allows NULL (default: false)' },
+                      onDelete: { type: 'string', enum: [...REFERENTIAL_ACTIONS] },
+                      onUpdate: { type: 'string', enum: [...REFERENTIAL_ACTIONS] },
+                      indexName: { type: 'string', description: 'Index on the column to recreate on the new column' },
+                    },
+                    required: ['table', 'column', 'constraintName'],
+                  },
+                },
+                batchSize: {
+                  type: 'number',
+                  description: 'Rows updated per batch (default: 10000)',
+                  minimum: 1,
+                  maximum: 1000000,
+                },
+                fillFactor: {
+                  type: 'number',
+                  description: 'FILLFACTOR for the new primary key and index rebuilds',
+                  minimum: 1,
+                  maximum: 100,
+                },
+                online: {
+                  type: 'boolean',
+                  description: 'Rebuild indexes with ONLINE = ON, Enterprise edition only (default: false)',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['sql', 'json'],
+                  description: 'sql for one script separated by GO, json for the individual phases (default: sql)',
+                },
+              },
+              required: ['table', 'keyColumn', 'keyType'],
+            },
+          },
+          {
+            name: 'get_guid_time_range',
+            description: 'Map a time window to the GUID range a sequential generator issued in it, for WHERE Id >= @min AND Id < @upperBound index seeks (SQL Server order by default)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                start: {
+                  type: ['string', 'number'],
+                  description: 'Start of the window (inclusive), as an ISO 8601 date or Unix milliseconds',
+                },
+                end: {
+                  type: ['string', 'number'],
+                  description: 'End of the window (exclusive), as an ISO 8601 date or Unix milliseconds',
+                },
+                columnName: {
+                  type: 'string',
+                  description: 'Column used in the returned WHERE clause (default: Id)',
+                },
+                ownMachineOnly: {
+                  type: 'boolean',
+                  description: 'Fix the machine ID in the bounds, tightening them at the window edges (default: false)',
+                },
+                machineId: {
+                  type: 'string',
+                  description: 'Machine ID (8 hex characters) of the generator',
+                },
+                layout: {
+                  type: 'string',
+                  enum: [...GUID_LAYOUTS],
+                  description: 'Layout the GUIDs were generated with; must be sequential in the dialect (default: the dialect\'s layout)',
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Database whose ordering the bounds are for and whose syntax the WHERE clause uses (default: sqlserver)',
+                },
+                generator: {
+                  type: 'string',
+                  description: 'Named generator profile to take the machine ID and layout from',
+                },
+              },
+              required: ['start', 'end'],
+            },
+          },
+          {
+            name: 'generate_guid_partition_function',
+            description: 'Generate a SQL Server RANGE RIGHT partition function and scheme on uniqueidentifier with daily or monthly boundaries for sequential GUID keys',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                start: {
+                  type: ['string', 'number'],
+                  description: 'First period to partition, as an ISO 8601 date or Unix milliseconds',
+                },
+                end: {
+                  type: ['string', 'number'],
+                  description: 'Last period start to include, as an ISO 8601 date or Unix milliseconds',
+                },
+                interval: {
+                  type: 'string',
+                  enum: [...PARTITION_INTERVALS],
+                  description: 'Partition period (default: monthly)',
+                },
+                functionName: {
+                  type: 'string',
+                  description: 'Partition function name (default: PF_Guid_Monthly / PF_Guid_Daily)',
+                },
+                schemeName: {
+                  type: 'string',
+                  description: 'Partition scheme name (default: PS_Guid_Monthly / PS_Guid_Daily)',
+                },
+                filegroup: {
+                  type: 'string',
+                  description: 'Filegroup for all partitions (default: PRIMARY)',
+                },
+                layout: {
+                  type: 'string',
+                  enum: ['sqlserver', 'comb'],
+                  description: 'Layout of the keys (default: sqlserver)',
+                },
+                generator: {
+                  type: 'string',
+                  description: 'Named generator profile to take the layout from',
+                },
+              },
+              required: ['start', 'end'],
+            },
+          },
+          {
+            name: 'generate_index_maintenance_plan',
+            description: 'Turn the rows of the get_sql_performance_queries fragmentation query (sys.dm_db_index_physical_stats) into a prioritized maintenance script: REBUILD or REORGANIZE per index, ONLINE/RESUMABLE options and a FILLFACTOR suited to sequential or random keys',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                stats: {
+                  type: ['string', 'array'],
+                  items: { type: 'object' },
+                  description: 'Query results as an array of row objects, or as JSON or CSV/tab-separated text with a header row (SchemaName, TableName, IndexName, IndexType, fill_factor, avg_fragmentation_in_percent, page_count; optional IsSequentialKey)',
+                },
+                file: {
+                  type: 'string',
+                  description: 'Path to a regular JSON or CSV file (up to 8 MB) with the query results, used instead of stats',
+                },
+                reorganizeThreshold: {
+                  type: 'number',
+                  description: 'Fragmentation percentage from which indexes are reorganized (default: 10)',
+                  minimum: 0,
+                  maximum: 100,
+                },
+                rebuildThreshold: {
+                  type: 'number',
+                  description: 'Fragmentation percentage from which indexes are rebuilt (default: 30)',
+                  minimum: 0,
+                  maximum: 100,
+                },
+                minPageCount: {
+                  type: 'number',
+                  description: 'Indexes with fewer pages are skipped (default: 1000)',
+                  minimum: 0,
+                },
+                sequentialKey: {
+                  type: 'boolean',
+                  description: 'Whether index keys are sequential, for rows without an IsSequentialKey column (default: false)',
+                },
+                online: {
+                  type: 'boolean',
+                  description: 'Rebuild with ONLINE = ON, Enterprise edition only (default: false, true when resumable)',
+                },
+                resumable: {
+                  type: 'boolean',
+                  description: 'Rebuild with RESUMABLE = ON, SQL Server 2017 or later (default: false)',
+                },
+                maxDurationMinutes: {
+                  type: 'number',
+                  description: 'MAX_DURATION of resumable rebuilds in minutes',
+                  minimum: 1,
+                  maximum: 10080,
+                },
+                format: {
+                  type: 'string',
+                  enum: ['sql', 'json'],
+                  description: 'sql for the maintenance script, json for the individual steps (default: sql)',
+                },
+              },
+            },
+          },
+          {
+            name: 'generate_page_split_session',
+            description: 'Generate a SQL Server Extended Events session that records page splits in a database (mid-page splits via transaction_log by default), with start/stop statements and a query returning split counts per index',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                table: {
+                  type: 'string',
+                  description: 'Table whose indexes are reported, optionally schema- and database-qualified (default: all tables)',
+                },
+                database: {
+                  type: 'string',
+                  description: 'Database to monitor (default: the table\'s database, or the one the script runs in)',
+                },
+                sessionName: {
+                  type: 'string',
+                  description: 'Extended Events session name (default: GuidPageSplits)',
+                },
+                event: {
+                  type: 'string',
+                  enum: [...PAGE_SPLIT_EVENTS],
+                  description: 'transaction_log records only mid-page splits (LOP_DELETE_SPLIT); page_split records leaf splits for inserts and updates (SPLIT_FOR_INSERT, SPLIT_FOR_UPDATE) with their split operation, including pages appended at the end of an index (default: transaction_log)',
+                },
+                target: {
+                  type: 'string',
+                  enum: [...PAGE_SPLIT_TARGETS],
+                  description: 'Where events are kept (default: ring_buffer)',
+                },
+                filePath: {
+                  type: 'string',
+                  description: 'Path of the .xel files on the server, required for the event_file target',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['sql', 'json'],
+                  description: 'sql for one script with every step, json for the individual statements (default: sql)',
+                },
+              },
+            },
+          },
+          {
+            name: 'generate_orm_integration',
+            description: 'Generate ready-to-use integration code for sequential GUID keys in an ORM: an EF Core ValueGenerator, a TypeORM insert subscriber, a Prisma client extension, a Sequelize model or Knex helpers, with the key mapped to the dialect\'s column type and byte order',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                orm: {
+                  type: 'string',
+                  enum: [...ORM_NAMES],
+                  description: 'ORM or query builder to integrate with',
+                },
+                dialect: {
+                  type: 'string',
+                  enum: [...SQL_DIALECTS],
+                  description: 'Database the keys are stored in (default: sqlserver)',
+                },
+                entity: {
+                  type: 'string',
+                  description: 'Entity (model) class name (default: Order)',
+                },
+                table: {
+                  type: 'string',
+                  description: 'Table name, optionally schema-qualified (default: the entity name)',
+                },
+                keyColumn: {
+                  type: 'string',
+                  description: 'Key property and column name (default: Id for EF Core, id otherwise)',
+                },
+                machineId: {
+                  type: 'string',
+                  description: 'Machine ID (8 hex characters) to build into the generator (default: derived on each host)',
+                },
+                format: {
+                  type: 'string',
+                  enum: ['markdown', 'json'],
+                  description: 'markdown for one code block per file, json for the files and notes (default: markdown)',
+                },
+              },
+              required: ['orm'],
+            },
+          },
+        ],
       };
     });
 
@@ -243,7 +1095,7 @@ class GuidMcpServer {
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guid,
+                    ...this.formatGuidOutput(args as any, guid),
                     type: 'standard_random',
                     version: 'UUID v4',
                     sqlOptimized: false,
@@ -279,7 +1131,7 @@ class GuidMcpServer {
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guids,
+                    ...this.formatGuidsOutput(argsObj, guids),
                     count: guids.length,
                     type: 'standard_random',
                     version: 'UUID v4',
@@ -301,23 +1153,20 @@ class GuidMcpServer {
           }
 
           case 'generate_sequential_guid': {
-            let generator = this.guidGenerator;
-
-            if (args && typeof args === 'object' && args.machineId && typeof args.machineId === 'string') {
-              const machineIdBuffer = Buffer.from(args.machineId, 'hex');
-              generator = new SequentialGuidGenerator({ machineId: machineIdBuffer });
-            }
+            const generator = this.resolveGenerator(args as any);
 
-            const guid = generator.generate();
+            const guid = await generator.generateAsync();
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guid,
+                    ...this.formatGuidOutput(args as any, guid),
                     type: 'sql_server_optimized_sequential',
                     compatibleWith: 'SQL Server NEWSEQUENTIALID()',
                     machineId: generator.getMachineId(),
+                    layout: generator.getLayout(),
+                    ...this.describeDialect(this.resolveDialect(args as any), generator.getLayout()),
                     timestamp: generator.extractTimestamp(guid).toISOString(),
                     sqlOptimized: true,
                     benefits: [
@@ -336,7 +1185,6 @@ class GuidMcpServer {
           case 'generate_sequential_guid_batch': {
             const argsObj = args as any;
             const argsCount = argsObj?.count;
-            const machineId = argsObj?.machineId;
 
             if (!argsCount || typeof argsCount !== 'number' || argsCount < 1 || argsCount > 1000) {
               throw new McpError(
@@ -345,14 +1193,9 @@ class GuidMcpServer {
               );
             }
 
-            let generator = this.guidGenerator;
-
-            if (machineId) {
-              const machineIdBuffer = Buffer.from(machineId, 'hex');
-              generator = new SequentialGuidGenerator({ machineId: machineIdBuffer });
-            }
+            const generator = this.resolveGenerator(argsObj);
 
-            const guids = generator.generateBatch(argsCount);
+            const guids = await generator.generateBatchAsync(argsCount);
             const firstTimestamp = generator.extractTimestamp(guids[0]);
             const lastTimestamp = generator.extractTimestamp(guids[guids.length - 1]);
 
@@ -361,11 +1204,13 @@ class GuidMcpServer {
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guids,
+                    ...this.formatGuidsOutput(argsObj, guids),
                     count: guids.length,
                     type: 'sql_server_optimized_sequential',
                     compatibleWith: 'SQL Server NEWSEQUENTIALID()',
                     machineId: generator.getMachineId(),
+                    layout: generator.getLayout(),
+                    ...this.describeDialect(this.resolveDialect(argsObj), generator.getLayout()),
                     firstTimestamp: firstTimestamp.toISOString(),
                     lastTimestamp: lastTimestamp.toISOString(),
                     sqlOptimized: true,
@@ -384,198 +1229,785 @@ class GuidMcpServer {
             };
           }
 
-          case 'validate_guid': {
-            const argsObj = args as any;
-            const guid = argsObj?.guid;
-            
-            if (!guid) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'GUID parameter is required'
-              );
-            }
+          case 'generate_uuid_v7': {
+            const dialect = this.resolveDialect(args as any);
+            const uuid = this.uuidV7Generator.generate();
 
-            const isValid = isValidGuid(guid);
-            
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guid,
-                    isValid,
-                    message: isValid 
-                      ? 'Valid GUID format'
-                      : 'Invalid GUID format - expected format: XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX',
+                    ...this.formatGuidOutput(args as any, uuid),
+                    type: 'time_ordered',
+                    version: 'UUID v7',
+                    ...this.describeDialect(dialect, 'standard'),
+                    timestamp: UuidV7Generator.extractTimestamp(uuid).toISOString(),
+                    sqlOptimized: false,
+                    useCase: 'PostgreSQL uuid columns and application-layer IDs that sort by byte order',
+                    note: 'UUIDv7 sorts by time under byte-wise comparison; SQL Server orders uniqueidentifier by its last 6 bytes, so prefer generate_sequential_guid with the sqlserver layout there'
                   }, null, 2),
                 },
               ],
             };
           }
 
-          case 'extract_guid_timestamp': {
+          case 'generate_uuid_v7_batch': {
             const argsObj = args as any;
-            const guid = argsObj?.guid;
-            
-            if (!guid) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'GUID parameter is required'
-              );
-            }
+            const argsCount = argsObj?.count;
 
-            if (!isValidGuid(guid)) {
+            if (!argsCount || typeof argsCount !== 'number' || argsCount < 1 || argsCount > 1000) {
               throw new McpError(
                 ErrorCode.InvalidParams,
-                'Invalid GUID format'
+                'Count must be a number between 1 and 1000'
               );
             }
 
-            const timestamp = this.guidGenerator.extractTimestamp(guid);
-            
+            const dialect = this.resolveDialect(argsObj);
+            const uuids = this.uuidV7Generator.generateBatch(argsCount);
+
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guid,
-                    timestamp: timestamp.toISOString(),
-                    timestampMilliseconds: timestamp.getTime(),
-                    age: `${Math.floor((Date.now() - timestamp.getTime()) / 1000)} seconds ago`,
+                    ...this.formatGuidsOutput(argsObj, uuids),
+                    count: uuids.length,
+                    type: 'time_ordered',
+                    version: 'UUID v7',
+                    ...this.describeDialect(dialect, 'standard'),
+                    firstTimestamp: UuidV7Generator.extractTimestamp(uuids[0]).toISOString(),
+                    lastTimestamp: UuidV7Generator.extractTimestamp(uuids[uuids.length - 1]).toISOString(),
+                    sqlOptimized: false,
+                    note: 'Values are strictly increasing; a 12-bit counter keeps order within the same millisecond'
                   }, null, 2),
                 },
               ],
             };
           }
 
-          case 'get_machine_id': {
-            const machineId = this.guidGenerator.getMachineId();
-            
+          case 'generate_uuid_v5': {
+            const argsObj = args as any;
+
+            if (typeof argsObj?.name !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Name must be a string'
+              );
+            }
+
+            const { namespace, version } = this.resolveNameBasedArgs(argsObj);
+            const uuid = generateNameBasedUuid(argsObj.name, namespace, version);
+
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    machineId,
-                    description: 'Machine identifier used for GUID generation',
-                    note: 'This ensures uniqueness across different machines while maintaining sequential order',
+                    ...this.formatGuidOutput(argsObj, uuid),
+                    name: argsObj.name,
+                    namespace,
+                    version: `UUID v${version}`,
+                    deterministic: true,
+                    sqlOptimized: false,
+                    note: 'The same namespace and name always produce this UUID; hash-based values are not time ordered and fragment clustered indexes like random GUIDs'
                   }, null, 2),
                 },
               ],
             };
           }
 
-          case 'get_guid_info': {
+          case 'generate_uuid_v5_batch': {
             const argsObj = args as any;
-            const guid = argsObj?.guid;
-            
-            if (!guid) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'GUID parameter is required'
-              );
-            }
+            const names = argsObj?.names;
 
-            if (!isValidGuid(guid)) {
+            if (!Array.isArray(names) || names.length < 1 || names.length > 1000
+              || names.some(name => typeof name !== 'string')) {
               throw new McpError(
                 ErrorCode.InvalidParams,
-                'Invalid GUID format'
+                'Names must be an array of 1 to 1000 strings'
               );
             }
 
-            const buffer = SequentialGuidGenerator.guidToBuffer(guid);
-            const isValid = isValidGuid(guid);
-            
-            let timestamp = null;
-            let isSequential = false;
-            
-            try {
-              timestamp = this.guidGenerator.extractTimestamp(guid);
-              isSequential = true;
-            } catch (error) {
-              // Not a sequential GUID or timestamp extraction failed
-            }
+            const { namespace, version } = this.resolveNameBasedArgs(argsObj);
+            const uuids = names.map((name: string) => generateNameBasedUuid(name, namespace, version));
 
             return {
               content: [
                 {
                   type: 'text',
                   text: JSON.stringify({
-                    guid,
-                    isValid,
-                    isSequential,
-                    structure: {
-                      length: guid.length,
-                      bytes: buffer.length,
-                      hex: buffer.toString('hex').toUpperCase(),
-                      parts: {
-                        part1: guid.substring(0, 8),
-                        part2: guid.substring(9, 13),
-                        part3: guid.substring(14, 18),
-                        part4: guid.substring(19, 23),
-                        part5: guid.substring(24, 36),
-                      },
-                    },
-                    timestamp: timestamp ? {
-                      value: timestamp.toISOString(),
-                      milliseconds: timestamp.getTime(),
-                      age: `${Math.floor((Date.now() - timestamp.getTime()) / 1000)} seconds ago`,
-                    } : null,
-                    sqlOptimization: {
-                      isOptimized: isSequential,
-                      benefit: isSequential 
-                        ? 'Reduces index fragmentation and improves insert performance in SQL Server'
-                        : 'Standard GUID - may cause index fragmentation in SQL Server',
-                    },
+                    ...this.formatGuidsOutput(argsObj, uuids),
+                    names,
+                    count: uuids.length,
+                    namespace,
+                    version: `UUID v${version}`,
+                    deterministic: true,
+                    sqlOptimized: false,
                   }, null, 2),
                 },
               ],
             };
           }
 
-          case 'analyze_sql_server_impact': {
+          case 'generate_ulid': {
             const argsObj = args as any;
-            const guid = argsObj?.guid;
-            
-            if (!guid) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'GUID parameter is required'
-              );
-            }
-
-            if (!isValidGuid(guid)) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                'Invalid GUID format'
-              );
-            }
+            const layout = this.resolveUlidLayout(argsObj);
+            const ulid = this.ulidGenerator.generate();
 
-            const analysis = SqlServerOptimizations.analyzeGuid(guid);
-            
             return {
               content: [
                 {
                   type: 'text',
-                  text: JSON.stringify(analysis, null, 2),
+                  text: JSON.stringify({
+                    ulid,
+                    ...this.formatGuidOutput(argsObj, UlidGenerator.toGuid(ulid, { layout })),
+                    layout,
+                    timestamp: UlidGenerator.extractTimestamp(ulid).toISOString(),
+                    note: 'Monotonic: ULIDs from the same millisecond increment the random component by one'
+                  }, null, 2),
                 },
               ],
             };
           }
 
-          case 'generate_sql_schema': {
+          case 'generate_ulid_batch': {
+            const argsObj = args as any;
+            const argsCount = argsObj?.count;
+
+            if (!argsCount || typeof argsCount !== 'number' || argsCount < 1 || argsCount > 1000) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Count must be a number between 1 and 1000'
+              );
+            }
+
+            const layout = this.resolveUlidLayout(argsObj);
+            const ulids = this.ulidGenerator.generateBatch(argsCount);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    ulids,
+                    ...this.formatGuidsOutput(argsObj, ulids.map(ulid => UlidGenerator.toGuid(ulid, { layout }))),
+                    count: ulids.length,
+                    layout,
+                    firstTimestamp: UlidGenerator.extractTimestamp(ulids[0]).toISOString(),
+                    lastTimestamp: UlidGenerator.extractTimestamp(ulids[ulids.length - 1]).toISOString(),
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'ulid_to_guid': {
+            const argsObj = args as any;
+            const ulid = argsObj?.ulid;
+
+            if (!ulid || typeof ulid !== 'string' || !UlidGenerator.isUlid(ulid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'A valid ULID is required'
+              );
+            }
+
+            const layout = this.resolveUlidLayout(argsObj);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    ulid: ulid.toUpperCase(),
+                    guid: UlidGenerator.toGuid(ulid, { layout }),
+                    layout,
+                    timestamp: UlidGenerator.extractTimestamp(ulid).toISOString(),
+                    note: layout === 'standard'
+                      ? 'Same bytes as the ULID; sorts like the ULID in byte-order databases but not in SQL Server'
+                      : `Bytes remapped so the ULID order holds under the ${layout} sort order; convert back with the same layout`,
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'guid_to_ulid': {
+            const argsObj = args as any;
+            const guid = argsObj?.guid;
+
+            if (!guid || !isValidGuid(guid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'A valid GUID is required'
+              );
+            }
+
+            const layout = this.resolveUlidLayout(argsObj);
+            const ulid = UlidGenerator.fromGuid(guid, { layout });
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    guid,
+                    ulid,
+                    layout,
+                    timestamp: UlidGenerator.extractTimestamp(ulid).toISOString(),
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'list_generators': {
+            const generators = this.generators.list();
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    generators,
+                    count: generators.length,
+                    note: 'Pinned profiles are never evicted; per-machine-ID generators are evicted least recently used first'
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'create_generator': {
+            const argsObj = args as any;
+            const name = argsObj?.name;
+
+            if (!name || typeof name !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Profile name is required'
+              );
+            }
+
+            let generator: SequentialGuidGenerator;
+            try {
+              generator = this.generators.createProfile(name, {
+                machineId: argsObj?.machineId,
+                layout: argsObj?.layout,
+                sequenceBits: argsObj?.sequenceBits,
+              });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    name,
+                    machineId: generator.getMachineId(),
+                    layout: generator.getLayout(),
+                    note: `Pass "generator": "${name}" to generate_sequential_guid tools to continue this sequence`
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'reset_generator': {
+            const argsObj = args as any;
+            const name = argsObj?.name;
+            const machineId = argsObj?.machineId;
+
+            if (name) {
+              if (!this.generators.getProfile(name)) {
+                throw new McpError(
+                  ErrorCode.InvalidParams,
+                  `Unknown generator profile: ${name}`
+                );
+              }
+
+              let generator;
+              try {
+                generator = this.generators.resetProfile(name);
+              } catch (error) {
+                throw new McpError(
+                  ErrorCode.InvalidParams,
+                  error instanceof Error ? error.message : String(error)
+                );
+              }
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: JSON.stringify({
+                      name,
+                      reset: true,
+                      machineId: generator.getMachineId(),
+                      layout: generator.getLayout(),
+                    }, null, 2),
+                  },
+                ],
+              };
+            }
+
+            if (!machineId || typeof machineId !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Either a profile name or a machine ID is required'
+              );
+            }
+
+            const layout = argsObj?.layout || 'standard';
+            const reset = this.generators.reset(machineId, layout);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    machineId: machineId.toUpperCase(),
+                    layout,
+                    reset,
+                    note: reset ? 'Generator dropped; the next call starts a new sequence' : 'No generator was registered for this machine ID and layout',
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'validate_guid': {
+            const argsObj = args as any;
+            const guid = argsObj?.guid;
+            
+            if (!guid) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'GUID parameter is required'
+              );
+            }
+
+            const isValid = isValidGuid(guid);
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    guid,
+                    isValid,
+                    message: isValid 
+                      ? 'Valid GUID format'
+                      : 'Invalid GUID format - expected format: XXXXXXXX-XXXX-XXXX-XXXX-XXXXXXXXXXXX',
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'extract_guid_timestamp': {
+            const argsObj = args as any;
+            const guid = argsObj?.guid;
+            
+            if (!guid) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'GUID parameter is required'
+              );
+            }
+
+            if (!isValidGuid(guid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Invalid GUID format'
+              );
+            }
+
+            const type = argsObj?.type ?? 'sequential';
+            if (type !== 'sequential' && type !== 'uuid_v7') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Type must be sequential or uuid_v7'
+              );
+            }
+            if (type === 'uuid_v7' && !UuidV7Generator.isUuidV7(guid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'GUID is not a version 7 UUID'
+              );
+            }
+
+            const timestamp = type === 'uuid_v7'
+              ? UuidV7Generator.extractTimestamp(guid)
+              : this.resolveGenerator({ layout: argsObj?.layout }).extractTimestamp(guid);
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    guid,
+                    timestamp: timestamp.toISOString(),
+                    timestampMilliseconds: timestamp.getTime(),
+                    age: `${Math.floor((Date.now() - timestamp.getTime()) / 1000)} seconds ago`,
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'convert_guid_format': {
+            const argsObj = args as any;
+            const value = argsObj?.value;
+            const to = argsObj?.to;
+
+            if (!value || typeof value !== 'string') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Value parameter is required'
+              );
+            }
+
+            const explicitFrom = argsObj?.from === undefined ? undefined : this.resolveFormat({ format: argsObj.from });
+            if (to !== undefined) {
+              this.resolveFormat({ format: to });
+            }
+
+            let from: GuidFormat | null;
+            let canonical: string;
+            try {
+              from = explicitFrom ?? detectGuidFormat(value);
+              canonical = decodeGuid(value, from ?? undefined);
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            const encodings = Object.fromEntries(
+              GUID_FORMATS.map(format => [format, {
+                value: encodeGuid(canonical, format),
+                length: GUID_FORMAT_INFO[format].length,
+                preservesOrder: GUID_FORMAT_INFO[format].preservesOrder,
+              }])
+            );
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    input: value,
+                    from,
+                    canonical,
+                    ...(to ? { to, output: encodeGuid(canonical, to) } : { encodings }),
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'get_machine_id': {
+            const { machineId, strategy, source } = this.generators.getDefault().getMachineIdInfo();
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    machineId,
+                    strategy,
+                    source,
+                    nodes: this.nodes.list().filter(node => node.machineId === machineId).map(node => node.name),
+                    description: 'Machine identifier used for GUID generation',
+                    note: 'This ensures uniqueness across different machines while maintaining sequential order',
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'register_node': {
+            const argsObj = args as any;
+
+            try {
+              this.nodes.register(argsObj?.name, argsObj?.machineId);
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    registered: { name: argsObj.name, machineId: argsObj.machineId.toUpperCase() },
+                    nodes: this.nodes.list(),
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'identify_guid_node': {
+            const argsObj = args as any;
+            const guid = argsObj?.guid;
+
+            if (!guid || !isValidGuid(guid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'A valid GUID is required'
+              );
+            }
+
+            const options = { layout: argsObj?.layout, sequenceBits: argsObj?.sequenceBits };
+            let machineId: string;
+            try {
+              machineId = SequentialGuidGenerator.extractMachineId(guid, options);
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            const matches = this.nodes.identify(guid, options);
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    guid,
+                    machineId,
+                    node: matches.length === 1 ? matches[0].name : null,
+                    matches,
+                    note: matches.length === 0
+                      ? 'No registered node has this machine ID; register nodes with register_node'
+                      : matches.length > 1
+                        ? 'Several nodes only differ in bits shared with the sequence counter'
+                        : undefined,
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'get_guid_info': {
+            const argsObj = args as any;
+            const guid = argsObj?.guid;
+            
+            if (!guid) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'GUID parameter is required'
+              );
+            }
+
+            if (!isValidGuid(guid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Invalid GUID format'
+              );
+            }
+
+            const buffer = SequentialGuidGenerator.guidToBuffer(guid);
+            const classification = classifyGuid(guid, this.classifierOptions());
+            const { fields } = classification;
+            const isOptimized = classification.sequentialIn.includes('sqlserver');
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    guid,
+                    isValid: true,
+                    isSequential: classification.sequentialIn.length > 0,
+                    detectedType: classification.type,
+                    confidence: classification.confidence,
+                    variant: classification.variant,
+                    version: classification.version === null ? null : `UUID v${classification.version}`,
+                    structure: {
+                      length: guid.length,
+                      bytes: buffer.length,
+                      hex: buffer.toString('hex').toUpperCase(),
+                      parts: {
+                        part1: guid.substring(0, 8),
+                        part2: guid.substring(9, 13),
+                        part3: guid.substring(14, 18),
+                        part4: guid.substring(19, 23),
+                        part5: guid.substring(24, 36),
+                      },
+                    },
+                    fields,
+                    timestamp: fields.timestampMs !== undefined ? {
+                      encoding: classification.type,
+                      value: fields.timestamp,
+                      milliseconds: fields.timestampMs,
+                      age: `${Math.floor((Date.now() - fields.timestampMs) / 1000)} seconds ago`,
+                    } : null,
+                    sequentialIn: classification.sequentialIn,
+                    alternatives: classification.alternatives,
+                    sqlOptimization: {
+                      isOptimized,
+                      benefit: isOptimized
+                        ? 'Reduces index fragmentation and improves insert performance in SQL Server'
+                        : 'Not sequential in SQL Server\'s uniqueidentifier order - may cause index fragmentation',
+                    },
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'analyze_sql_server_impact': {
+            const argsObj = args as any;
+            const guid = argsObj?.guid;
+            
+            if (!guid) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'GUID parameter is required'
+              );
+            }
+
+            if (!isValidGuid(guid)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Invalid GUID format'
+              );
+            }
+
+            const analysis = SqlServerOptimizations.analyzeGuid(guid, this.classifierOptions());
+            
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify(analysis, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'analyze_guid_sequence': {
+            const argsObj = args as any;
+            const format = argsObj?.format ?? 'json';
+
+            if ((argsObj?.guids === undefined) === (argsObj?.file === undefined)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Provide either guids or file'
+              );
+            }
+
+            if (format !== 'json' && format !== 'markdown') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Format must be json or markdown'
+              );
+            }
+
+            if (argsObj.guids !== undefined && (!Array.isArray(argsObj.guids) || argsObj.guids.some((guid: unknown) => typeof guid !== 'string'))) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'GUIDs must be an array of strings'
+              );
+            }
+
+            const dialect = this.resolveDialect(argsObj);
+            const text = argsObj.file !== undefined ? this.readInputFile(argsObj.file) : argsObj.guids.join('\n');
+            let analysis;
+            try {
+              const guids = SqlServerOptimizations.parseGuidList(text);
+
+              if (guids.length > 100000) {
+                throw new Error('At most 100,000 GUIDs can be analyzed at once');
+              }
+
+              analysis = SqlServerOptimizations.analyzeGuidSequence(guids, {
+                ...this.classifierOptions(),
+                dialect: dialect?.name,
+              });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: format === 'markdown'
+                    ? SqlServerOptimizations.formatSequenceAnalysis(analysis)
+                    : JSON.stringify(analysis, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'generate_sql_schema': {
             const argsObj = args as any;
             const tableName = argsObj?.tableName;
             const guidColumnName = argsObj?.guidColumnName || 'Id';
+
+            if (argsObj?.table !== undefined) {
+              if (tableName !== undefined) {
+                throw new McpError(
+                  ErrorCode.InvalidParams,
+                  'Provide either tableName or table'
+                );
+              }
+
+              const dialect = this.resolveDialect(argsObj);
+              if (dialect && dialect.name !== 'sqlserver') {
+                throw new McpError(
+                  ErrorCode.InvalidParams,
+                  'Structured table definitions are only supported for sqlserver'
+                );
+              }
+
+              let ddl;
+              try {
+                ddl = generateTableDdl(argsObj.table);
+              } catch (error) {
+                throw new McpError(
+                  ErrorCode.InvalidParams,
+                  error instanceof Error ? error.message : String(error)
+                );
+              }
+
+              return {
+                content: [
+                  {
+                    type: 'text',
+                    text: JSON.stringify(ddl, null, 2),
+                  },
+                ],
+              };
+            }
             
             if (!tableName) {
               throw new McpError(
                 ErrorCode.InvalidParams,
-                'Table name is required'
+                'Table name or table definition is required'
               );
             }
 
-            const schema = SqlServerOptimizations.generateTableSchema(tableName, guidColumnName);
+            const dialect = this.resolveDialect(argsObj);
+            const schema = SqlServerOptimizations.generateTableSchema(tableName, guidColumnName, dialect?.name);
             
             return {
               content: [
@@ -625,7 +2057,39 @@ class GuidMcpServer {
           }
 
           case 'get_performance_comparison': {
-            const comparison = SqlServerOptimizations.generateComparisonReport();
+            const argsObj = args as any;
+            const strategies = argsObj?.strategies ?? INSERT_STRATEGIES;
+
+            if (!Array.isArray(strategies) || strategies.length === 0
+              || strategies.some((strategy: string) => !INSERT_STRATEGIES.includes(strategy as InsertStrategy))) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                `Strategies must be a non-empty list of: ${INSERT_STRATEGIES.join(', ')}`
+              );
+            }
+
+            if ((argsObj?.rows ?? 0) + (argsObj?.existingRows ?? 0) > 500000) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Rows and existing rows may not exceed 500,000 in total'
+              );
+            }
+
+            let comparison: string;
+            try {
+              comparison = SqlServerOptimizations.generateComparisonReport({
+                rows: argsObj?.rows,
+                existingRows: argsObj?.existingRows,
+                rowSizeBytes: argsObj?.rowSizeBytes,
+                fillFactor: argsObj?.fillFactor,
+                insertsPerSecond: argsObj?.insertsPerSecond,
+              }, strategies);
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
             
             return {
               content: [
@@ -637,6 +2101,237 @@ class GuidMcpServer {
             };
           }
 
+          case 'get_guid_time_range': {
+            const argsObj = args as any;
+            const start = this.parseTime(argsObj?.start, 'Start');
+            const end = this.parseTime(argsObj?.end, 'End');
+            // The bounds are only contiguous in an order the layout is sequential in
+            const target = { ...argsObj, dialect: argsObj?.dialect ?? 'sqlserver' };
+            const generator = this.resolveGenerator(target);
+            const dialect = this.resolveDialect(target)!;
+            const column = dialect.quoteIdentifier(parseMultipartName(argsObj?.columnName ?? 'Id', { dialect: dialect.name })[0]);
+            const value = (guid: string) => dialect.toStoredValue(quoteString(guid, dialect.name));
+
+            let range;
+            try {
+              range = generator.getTimeRange(start, end, { ownMachineOnly: argsObj?.ownMachineOnly === true });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    start: range.start.toISOString(),
+                    end: range.end.toISOString(),
+                    layout: range.layout,
+                    machineId: argsObj?.ownMachineOnly === true ? generator.getMachineId() : undefined,
+                    min: range.min,
+                    max: range.max,
+                    upperBound: range.upperBound,
+                    dialect: dialect.name,
+                    where: `${column} >= ${value(range.min)} AND ${column} < ${value(range.upperBound)}`,
+                  }, null, 2),
+                },
+              ],
+            };
+          }
+
+          case 'generate_guid_partition_function': {
+            const argsObj = args as any;
+            const start = this.parseTime(argsObj?.start, 'Start');
+            const end = this.parseTime(argsObj?.end, 'End');
+            const generator = this.resolveGenerator({ generator: argsObj?.generator, layout: argsObj?.layout, dialect: 'sqlserver' });
+
+            let script;
+            try {
+              script = SqlServerOptimizations.generatePartitionFunction(generator, {
+                start,
+                end,
+                interval: argsObj?.interval,
+                functionName: argsObj?.functionName,
+                schemeName: argsObj?.schemeName,
+                filegroup: argsObj?.filegroup,
+              });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: script,
+                },
+              ],
+            };
+          }
+
+          case 'generate_page_split_session': {
+            const argsObj = args as any;
+            const format = argsObj?.format ?? 'sql';
+
+            if (format !== 'sql' && format !== 'json') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Format must be sql or json'
+              );
+            }
+
+            let session;
+            try {
+              session = SqlServerOptimizations.generatePageSplitSession({
+                table: argsObj?.table,
+                database: argsObj?.database,
+                sessionName: argsObj?.sessionName,
+                event: argsObj?.event,
+                target: argsObj?.target,
+                filePath: argsObj?.filePath,
+              });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            const { script, ...steps } = session;
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: format === 'json' ? JSON.stringify(steps, null, 2) : script,
+                },
+              ],
+            };
+          }
+
+          case 'generate_orm_integration': {
+            const argsObj = args as any;
+            const format = argsObj?.format ?? 'markdown';
+
+            if (format !== 'markdown' && format !== 'json') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Format must be markdown or json'
+              );
+            }
+
+            let integration;
+            try {
+              integration = generateOrmIntegration({
+                orm: argsObj?.orm,
+                dialect: argsObj?.dialect,
+                entity: argsObj?.entity,
+                table: argsObj?.table,
+                keyColumn: argsObj?.keyColumn,
+                machineId: argsObj?.machineId,
+              });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: format === 'json' ? JSON.stringify(integration, null, 2) : formatOrmIntegration(integration),
+                },
+              ],
+            };
+          }
+
+          case 'generate_key_migration': {
+            const argsObj = args as any;
+            const format = argsObj?.format ?? 'sql';
+
+            if (format !== 'sql' && format !== 'json') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Format must be sql or json'
+              );
+            }
+
+            let migration;
+            try {
+              migration = generateKeyMigration(argsObj);
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: format === 'json' ? JSON.stringify(migration.phases, null, 2) : migration.script,
+                },
+              ],
+            };
+          }
+
+          case 'generate_index_maintenance_plan': {
+            const argsObj = args as any;
+            const format = argsObj?.format ?? 'sql';
+
+            if ((argsObj?.stats === undefined) === (argsObj?.file === undefined)) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Provide either stats or file'
+              );
+            }
+
+            if (format !== 'sql' && format !== 'json') {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                'Format must be sql or json'
+              );
+            }
+
+            const text = argsObj.file !== undefined
+              ? this.readInputFile(argsObj.file)
+              : typeof argsObj.stats === 'string' ? argsObj.stats : JSON.stringify(argsObj.stats);
+            let plan;
+            try {
+              plan = generateMaintenancePlan(parseIndexStats(text), {
+                reorganizeThreshold: argsObj.reorganizeThreshold,
+                rebuildThreshold: argsObj.rebuildThreshold,
+                minPageCount: argsObj.minPageCount,
+                sequentialKey: argsObj.sequentialKey,
+                online: argsObj.online,
+                resumable: argsObj.resumable,
+                maxDurationMinutes: argsObj.maxDurationMinutes,
+              });
+            } catch (error) {
+              throw new McpError(
+                ErrorCode.InvalidParams,
+                error instanceof Error ? error.message : String(error)
+              );
+            }
+
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: format === 'json' ? JSON.stringify(plan.steps, null, 2) : plan.script,
+                },
+              ],
+            };
+          }
+
           default:
             throw new McpError(
               ErrorCode.MethodNotFound,
@@ -647,6 +2342,10 @@ class GuidMcpServer {
         if (error instanceof McpError) {
           throw error;
         }
+
+        if (error instanceof SqlIdentifierError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
         
         throw new McpError(
           ErrorCode.InternalError,
@@ -656,6 +2355,263 @@ class GuidMcpServer {
     });
   }
 
+  /**
+   * Returns the long-lived generator matching the optional generator/machineId/layout
+   * tool arguments, so consecutive calls continue the same sequence
+   */
+  private resolveGenerator(argsObj: any): SequentialGuidGenerator {
+    const machineId = argsObj?.machineId;
+    const dialect = this.resolveDialect(argsObj);
+    const explicitLayout = argsObj?.layout;
+    const profile = argsObj?.generator;
+
+    if (machineId !== undefined && (typeof machineId !== 'string' || !/^[0-9A-Fa-f]{8}$/.test(machineId))) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Machine ID must be 8 hex characters'
+      );
+    }
+
+    if (explicitLayout !== undefined && !GUID_LAYOUTS.includes(explicitLayout)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Layout must be one of: ${GUID_LAYOUTS.join(', ')}`
+      );
+    }
+
+    let generator: SequentialGuidGenerator | undefined;
+    if (profile !== undefined) {
+      if (machineId !== undefined || explicitLayout !== undefined) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          'Pass either a generator profile or machineId/layout, not both'
+        );
+      }
+
+      generator = typeof profile === 'string' ? this.generators.getProfile(profile) : undefined;
+      if (!generator) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Unknown generator profile: ${profile}`
+        );
+      }
+    }
+
+    const layout = generator?.getLayout() ?? explicitLayout ?? dialect?.layouts[0];
+    if (dialect && !isSequentialLayout(layout, dialect)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Layout ${layout} is not sequential in ${dialect.displayName}; use ${dialect.layouts.join(' or ')}`
+      );
+    }
+
+    return generator ?? this.generators.resolve({ machineId, layout });
+  }
+
+
+  /**
+   * Parses a time argument given as an ISO 8601 string or Unix milliseconds
+   */
+  private parseTime(value: unknown, name: string): number {
+    const time = typeof value === 'string' ? Date.parse(value) : typeof value === 'number' ? value : NaN;
+
+    if (!Number.isInteger(time)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${name} must be an ISO 8601 date or Unix milliseconds`
+      );
+    }
+    return time;
+  }
+
+  /**
+   * Lets the classifier recognize GUIDs from this server's generators and registered
+   * nodes by their machine ID
+   */
+  private classifierOptions(): GuidClassifierOptions {
+    const machineIds = [
+      this.generators.getDefault().getMachineId(),
+      ...this.generators.list().map(generator => generator.machineId),
+      ...this.nodes.list().map(node => node.machineId),
+    ];
+    return { knownMachineIds: [...new Set(machineIds)] };
+  }
+
+  /**
+   * Validates the namespace and optional version arguments of the name-based UUID tools
+   */
+  private resolveNameBasedArgs(argsObj: any): { namespace: string; version: 3 | 5 } {
+    const version = argsObj?.version ?? 5;
+
+    if (version !== 3 && version !== 5) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'Version must be 5 or 3'
+      );
+    }
+
+    if (!argsObj?.namespace || typeof argsObj.namespace !== 'string') {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Namespace is required: ${Object.keys(UUID_NAMESPACES).join(', ')} or a UUID`
+      );
+    }
+
+    try {
+      return { namespace: resolveNamespace(argsObj.namespace), version };
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+  }
+
+  /**
+   * Validates the optional layout argument of the ULID tools
+   */
+  private resolveUlidLayout(argsObj: any): ByteOrderLayout {
+    const layout = argsObj?.layout ?? 'standard';
+
+    if (!Object.keys(LAYOUT_BYTE_ORDER).includes(layout)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Layout must be one of: ${Object.keys(LAYOUT_BYTE_ORDER).join(', ')}`
+      );
+    }
+
+    return layout;
+  }
+
+  /**
+   * Validates the optional output format tool argument
+   */
+  private resolveFormat(argsObj: any): GuidFormat {
+    const format = argsObj?.format ?? 'canonical';
+
+    if (!GUID_FORMATS.includes(format)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Format must be one of: ${GUID_FORMATS.join(', ')}`
+      );
+    }
+
+    return format;
+  }
+
+  /**
+   * Response fields for a generated GUID in the requested output format. The
+   * canonical form is included whenever it differs.
+   */
+  private formatGuidOutput(argsObj: any, guid: string): Record<string, unknown> {
+    const format = this.resolveFormat(argsObj);
+
+    return format === 'canonical'
+      ? { guid }
+      : { guid: encodeGuid(guid, format), format, canonical: guid };
+  }
+
+  private formatGuidsOutput(argsObj: any, guids: string[]): Record<string, unknown> {
+    const format = this.resolveFormat(argsObj);
+
+    return format === 'canonical'
+      ? { guids }
+      : {
+        guids: guids.map(guid => encodeGuid(guid, format)),
+        format,
+        preservesOrder: GUID_FORMAT_INFO[format].preservesOrder,
+      };
+  }
+
+  /**
+   * Reads the file named by a `file` tool argument. Only regular files up to
+   * MAX_INPUT_FILE_BYTES are read: a number would name a file descriptor (0 is the
+   * MCP transport itself), and devices or pipes could block the server.
+   */
+  private readInputFile(file: unknown): string {
+    if (typeof file !== 'string' || file.length === 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'File must be a path'
+      );
+    }
+
+    try {
+      const stats = statSync(file);
+      if (!stats.isFile()) {
+        throw new Error(`Not a regular file: ${file}`);
+      }
+      if (stats.size > MAX_INPUT_FILE_BYTES) {
+        throw new Error(`File exceeds ${MAX_INPUT_FILE_BYTES / 1024 / 1024} MB: ${file}`);
+      }
+      return readFileSync(file, 'utf8');
+    } catch (error) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+
+  /**
+   * Validates the optional dialect tool argument
+   */
+  private resolveDialect(argsObj: any): SqlDialect | undefined {
+    const dialect = argsObj?.dialect;
+
+    if (dialect === undefined) {
+      return undefined;
+    }
+
+    if (!SQL_DIALECTS.includes(dialect)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Dialect must be one of: ${SQL_DIALECTS.join(', ')}`
+      );
+    }
+
+    return getDialect(dialect);
+  }
+
+  /**
+   * Response fields describing how GUIDs with the given layout behave in a dialect
+   */
+  private describeDialect(dialect: SqlDialect | undefined, layout: GuidLayout): Record<string, unknown> {
+    if (!dialect) {
+      return {};
+    }
+
+    return {
+      dialect: dialect.name,
+      columnType: dialect.columnType,
+      sortsSequentially: isSequentialLayout(layout, dialect),
+      storeWith: dialect.toStoredValue(':id'),
+      dialectNotes: dialect.notes,
+    };
+  }
+
+  /**
+   * Builds the default generator's options from the environment, or undefined to
+   * use the shared default generator. The registry keeps them to reset the profile.
+   * - GUID_MACHINE_ID_STRATEGY selects a machine ID strategy (GUID_MACHINE_ID alone implies `env`)
+   * - GUID_STATE_FILE keeps the machine ID and high-water mark across restarts
+   */
+  private createDefaultGeneratorOptions(): GuidGeneratorOptions | undefined {
+    const stateFile = process.env.GUID_STATE_FILE;
+    const strategy = process.env.GUID_MACHINE_ID_STRATEGY
+      || (process.env[MACHINE_ID_ENV_VAR] ? 'env' : undefined);
+
+    if (strategy && !MACHINE_ID_STRATEGIES.includes(strategy as MachineIdStrategy)) {
+      throw new Error(`GUID_MACHINE_ID_STRATEGY must be one of: ${MACHINE_ID_STRATEGIES.join(', ')}`);
+    }
+
+    if (!stateFile && !strategy) {
+      return undefined;
+    }
+
+    return {
+      stateStore: stateFile ? new FileGeneratorStateStore(stateFile) : undefined,
+      machineIdStrategy: strategy as MachineIdStrategy | undefined,
+    };
+  }
+
   async run(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
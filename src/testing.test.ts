@@ -0,0 +1,95 @@
+/**
+ * Tests for the deterministic test utilities
+ */
+
+import { SequentialGuidGenerator, generateRandomGuid, generateRandomGuidBatch } from './SequentialGuidGenerator';
+import { UuidV7Generator } from './UuidV7Generator';
+import { createFixedClock, createSeededRandomSource, createSteppingClock } from './testing';
+
+describe('createSeededRandomSource', () => {
+  it('should produce the mulberry32 reference sequence', () => {
+    expect(createSeededRandomSource(1)(8).toString('hex')).toBe('a087eaf300b349c9');
+  });
+
+  it('should return identical bytes for identical seeds', () => {
+    const first = createSeededRandomSource('tenant-a');
+    const second = createSeededRandomSource('tenant-a');
+
+    expect(first(13)).toEqual(second(13));
+    expect(first(3)).toEqual(second(3));
+  });
+
+  it('should return different bytes for different seeds', () => {
+    expect(createSeededRandomSource(1)(16)).not.toEqual(createSeededRandomSource(2)(16));
+  });
+});
+
+describe('clocks', () => {
+  it('should step by the configured interval', () => {
+    const clock = createSteppingClock('2024-01-01T00:00:00Z', 10);
+
+    expect([clock(), clock(), clock()]).toEqual([1704067200000, 1704067200010, 1704067200020]);
+  });
+
+  it('should return a fixed instant', () => {
+    const clock = createFixedClock(new Date(5));
+
+    expect([clock(), clock()]).toEqual([5, 5]);
+  });
+
+  it('should reject invalid start dates', () => {
+    expect(() => createSteppingClock('not a date')).toThrow('Clock start must be a valid date');
+  });
+});
+
+describe('deterministic generation', () => {
+  it('should reproduce sequential GUID fixtures', () => {
+    const generator = new SequentialGuidGenerator({
+      clock: createSteppingClock('2024-01-01T00:00:00Z'),
+      randomSource: createSeededRandomSource(42),
+    });
+
+    expect(generator.getMachineId()).toBe('99E1EF7C');
+    expect(generator.generateBatch(3)).toEqual([
+      '038F1450-1800-99E0-EF7C-72C32B8ADA3B',
+      '038F1450-1800-99E1-EF7C-AB73B0AD2CC0',
+      '038F1450-1800-99E2-EF7C-86CEC4D345F2',
+    ]);
+  });
+
+  it('should reproduce random GUID fixtures', () => {
+    expect(generateRandomGuidBatch(2, { randomSource: createSeededRandomSource('fixtures') })).toEqual([
+      'DA6E8CC8-499A-421C-B1B4-D3C8945EA679',
+      '0FA75D99-CBAD-479D-816D-8BDD641DDD82',
+    ]);
+  });
+
+  it('should reproduce UUIDv7 fixtures', () => {
+    const generator = new UuidV7Generator({
+      clock: createSteppingClock('2024-01-01T00:00:00Z'),
+      randomSource: createSeededRandomSource(7),
+    });
+
+    expect(generator.generateBatch(2)).toEqual([
+      '018CC251-F400-72FF-B2F3-8B96857D6FE7',
+      '018CC251-F401-77D0-8DA6-BF2DBAD59ED8',
+    ]);
+  });
+
+  it('should produce identical sequences across generator instances', () => {
+    const create = () => new SequentialGuidGenerator({
+      layout: 'sqlserver',
+      clock: createSteppingClock(Date.UTC(2030, 0, 1), 3),
+      randomSource: createSeededRandomSource('run'),
+    });
+
+    expect(create().generateBatch(50)).toEqual(create().generateBatch(50));
+  });
+
+  it('should reject random sources that return the wrong number of bytes', () => {
+    const randomSource = () => Buffer.alloc(2);
+
+    expect(() => generateRandomGuid({ randomSource })).toThrow('Random source must return exactly 16 bytes');
+    expect(() => new SequentialGuidGenerator({ randomSource })).toThrow('Random source must return exactly 4 bytes');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Test utilities for deterministic GUID generation
+ *
+ * Pair a seeded random source with a scripted clock to get identical GUID
+ * sequences on every run, e.g. for golden files and snapshot tests:
+ *
+ *   const generator = new SequentialGuidGenerator({
+ *     clock: createSteppingClock('2024-01-01T00:00:00Z'),
+ *     randomSource: createSeededRandomSource(42),
+ *   });
+ *
+ * The seeded source is NOT cryptographically secure; never use it in production.
+ */
+
+export { createSeededRandomSource } from './SeededRandom.js';
+
+/**
+ * Creates a clock that starts at `start` and advances by `stepMs` on every read
+ */
+export function createSteppingClock(start: Date | number | string, stepMs: number = 1): () => number {
+    let now = new Date(start).getTime();
+
+    if (isNaN(now)) {
+        throw new Error('Clock start must be a valid date');
+    }
+
+    return () => {
+        const current = now;
+        now += stepMs;
+        return current;
+    };
+}
+
+/**
+ * Creates a clock that always returns the same instant
+ */
+export function createFixedClock(instant: Date | number | string): () => number {
+    return createSteppingClock(instant, 0);
+}